@@ -0,0 +1,153 @@
+import React from "react";
+import { Card, CardContent, CardFooter } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Slider } from "@/components/ui/slider";
+import { Accessibility } from "lucide-react";
+import { useAccessibility } from "@/lib/stores/useAccessibility";
+import { useConfirmAction } from "@/hooks/use-confirm-action";
+import { LANE_PALETTES, MAX_MOVE_BUFFER_WINDOW, type Palette } from "@/game/constants";
+
+interface AccessibilityPanelProps {
+  onClose: () => void;
+}
+
+interface ToggleRowProps {
+  label: string;
+  hint: string;
+  value: boolean;
+  onChange: (value: boolean) => void;
+}
+
+const ToggleRow: React.FC<ToggleRowProps> = ({ label, hint, value, onChange }) => (
+  <div className="flex items-center justify-between gap-3 py-1">
+    <div className="text-left">
+      <div className="text-amber-200">{label}</div>
+      <div className="text-xs text-amber-400/80">{hint}</div>
+    </div>
+    <Button
+      size="sm"
+      variant="outline"
+      aria-pressed={value}
+      className={`w-16 shrink-0 border border-amber-700 ${
+        value ? "bg-amber-700 text-white hover:bg-amber-600" : "bg-transparent text-amber-300 hover:bg-amber-900/60"
+      }`}
+      onClick={() => onChange(!value)}
+    >
+      {value ? "On" : "Off"}
+    </Button>
+  </div>
+);
+
+/**
+ * Display and assist options. Everything but slow traffic and the move
+ * buffer applies at once - those two are recorded with each run.
+ */
+const AccessibilityPanel: React.FC<AccessibilityPanelProps> = ({ onClose }) => {
+  const {
+    palette,
+    highContrast,
+    reducedMotion,
+    slowTraffic,
+    audioCues,
+    moveBufferWindow,
+    setPalette,
+    setHighContrast,
+    setReducedMotion,
+    setSlowTraffic,
+    setAudioCues,
+    setMoveBufferWindow,
+  } = useAccessibility();
+  useConfirmAction(onClose);
+
+  return (
+    <Card className="relative w-[90%] max-w-md border-2 border-amber-800 bg-black/70 text-white shadow-2xl z-10">
+      <CardContent className="pt-6">
+        <div className="flex justify-center mb-2">
+          <Accessibility className="h-10 w-10 text-amber-400" />
+        </div>
+        <h1 className="text-3xl font-bold mb-4 text-center text-amber-500">Accessibility</h1>
+
+        <h2 className="text-sm font-bold mb-1 text-amber-300">Lane colors</h2>
+        <div className="grid grid-cols-2 gap-2 mb-4">
+          {(Object.keys(LANE_PALETTES) as Palette[]).map(option => (
+            <Button
+              key={option}
+              size="sm"
+              variant="outline"
+              aria-pressed={palette === option}
+              className={`justify-start gap-2 border border-amber-700 ${
+                palette === option
+                  ? "bg-amber-700 text-white hover:bg-amber-600"
+                  : "bg-transparent text-amber-300 hover:bg-amber-900/60"
+              }`}
+              onClick={() => setPalette(option)}
+            >
+              {/* Road, safe ground and water swatches */}
+              <span className="flex shrink-0">
+                {(["ROAD", "SAFE_ZONE", "RIVER"] as const).map(lane => (
+                  <span key={lane} className="h-3 w-3" style={{ backgroundColor: LANE_PALETTES[option][lane] }} />
+                ))}
+              </span>
+              {LANE_PALETTES[option].name}
+            </Button>
+          ))}
+        </div>
+
+        <ToggleRow
+          label="High contrast lanes"
+          hint="Patterned borders between lanes"
+          value={highContrast}
+          onChange={setHighContrast}
+        />
+        <ToggleRow
+          label="Reduced motion"
+          hint="No particles, bobbing or camera easing"
+          value={reducedMotion}
+          onChange={setReducedMotion}
+        />
+        <ToggleRow
+          label="Obstacle audio cues"
+          hint="Beeps from the side traffic is coming from, lower for the lane ahead"
+          value={audioCues}
+          onChange={setAudioCues}
+        />
+        <ToggleRow
+          label="Slow traffic"
+          hint="Slower obstacles from the next run - assisted runs aren't ranked"
+          value={slowTraffic}
+          onChange={setSlowTraffic}
+        />
+
+        <div className="py-1">
+          <div className="flex justify-between text-amber-200">
+            <span>Move buffer</span>
+            <span className="text-amber-400">{moveBufferWindow ? `${moveBufferWindow} ms` : "Off"}</span>
+          </div>
+          <div className="mb-2 text-xs text-amber-400/80">
+            How long a move pressed mid-hop waits its turn, from the next run
+          </div>
+          <Slider
+            aria-label="Move buffer window"
+            min={0}
+            max={MAX_MOVE_BUFFER_WINDOW}
+            step={50}
+            value={[moveBufferWindow]}
+            onValueChange={([value]) => setMoveBufferWindow(value)}
+          />
+        </div>
+      </CardContent>
+
+      <CardFooter className="flex flex-col gap-3 items-center">
+        <Button
+          size="lg"
+          onClick={onClose}
+          className="w-[200px] bg-amber-700 hover:bg-amber-600 text-white border border-amber-500"
+        >
+          Done
+        </Button>
+      </CardFooter>
+    </Card>
+  );
+};
+
+export default AccessibilityPanel;
@@ -0,0 +1,24 @@
+import React from "react";
+
+export interface Announcement {
+  id: number; // Changes with every announcement, so repeats are read out again
+  message: string;
+}
+
+interface AnnouncerProps {
+  announcement: Announcement | null;
+}
+
+/**
+ * Invisible live region that reads game events out to screen readers
+ */
+const Announcer: React.FC<AnnouncerProps> = ({ announcement }) => {
+  return (
+    <div className="sr-only" role="status" aria-live="polite" aria-atomic="true">
+      {/* A fresh node per announcement - updating the same text in place isn't always re-read */}
+      {announcement && <span key={announcement.id}>{announcement.message}</span>}
+    </div>
+  );
+};
+
+export default Announcer;
@@ -0,0 +1,85 @@
+import React from "react";
+import { Card, CardContent, CardFooter } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Slider } from "@/components/ui/slider";
+import { Volume2, VolumeX } from "lucide-react";
+import { useAudio } from "@/lib/stores/useAudio";
+import { useConfirmAction } from "@/hooks/use-confirm-action";
+import { AUDIO_BUSES, BUS_LABELS, type AudioBus } from "@/lib/audio";
+
+interface AudioPanelProps {
+  onClose: () => void;
+}
+
+/**
+ * Mute and a volume for each mixer bus. Letting go of the effects or
+ * interface slider plays a sample at the new level.
+ */
+const AudioPanel: React.FC<AudioPanelProps> = ({ onClose }) => {
+  const { volumes, isMuted, setVolume, toggleMute, playSound, playTick } = useAudio();
+  useConfirmAction(onClose);
+
+  const preview = (bus: AudioBus) => {
+    if (bus === "sfx") {
+      playSound("success");
+    } else if (bus === "ui") {
+      playTick();
+    }
+  };
+
+  return (
+    <Card className="relative w-[90%] max-w-md border-2 border-amber-800 bg-black/70 text-white shadow-2xl z-10">
+      <CardContent className="pt-6">
+        <div className="flex justify-center mb-2">
+          <Volume2 className="h-10 w-10 text-amber-400" />
+        </div>
+        <h1 className="text-3xl font-bold mb-4 text-center text-amber-500">Sound</h1>
+
+        <div className="flex justify-center mb-4">
+          <Button
+            size="sm"
+            variant="outline"
+            aria-pressed={isMuted}
+            onClick={toggleMute}
+            className={`w-[200px] border border-amber-700 ${
+              isMuted ? "bg-amber-700 text-white hover:bg-amber-600" : "bg-transparent text-amber-300 hover:bg-amber-900/60"
+            }`}
+          >
+            {isMuted ? <VolumeX className="h-4 w-4 mr-2" /> : <Volume2 className="h-4 w-4 mr-2" />}
+            {isMuted ? "Muted" : "Mute all"}
+          </Button>
+        </div>
+
+        {AUDIO_BUSES.map(bus => (
+          <div key={bus} className={`py-2 ${isMuted ? "opacity-50" : ""}`}>
+            <div className="flex justify-between mb-2 text-amber-200">
+              <span>{BUS_LABELS[bus]}</span>
+              <span className="text-amber-400">{Math.round(volumes[bus] * 100)}%</span>
+            </div>
+            <Slider
+              aria-label={`${BUS_LABELS[bus]} volume`}
+              min={0}
+              max={100}
+              step={5}
+              value={[Math.round(volumes[bus] * 100)]}
+              onValueChange={([value]) => setVolume(bus, value / 100)}
+              onValueCommit={() => preview(bus)}
+            />
+          </div>
+        ))}
+      </CardContent>
+
+      <CardFooter className="flex flex-col gap-3 items-center">
+        <Button
+          size="lg"
+          onClick={onClose}
+          className="w-[200px] bg-amber-700 hover:bg-amber-600 text-white border border-amber-500"
+        >
+          Done
+        </Button>
+      </CardFooter>
+    </Card>
+  );
+};
+
+export default AudioPanel;
@@ -0,0 +1,105 @@
+import React, { useState } from "react";
+import { Card, CardContent, CardFooter } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Star } from "lucide-react";
+import { ApiError } from "@/lib/queryClient";
+import { startDailyAttempt, type DailyAttempt } from "@/lib/daily";
+
+interface DailyAttemptPanelProps {
+  onStart: (attempt: DailyAttempt | null) => void; // Null for a practice run
+  onClose: () => void;
+}
+
+/**
+ * Sign up for today's bounty. Each name gets one ranked attempt a day, so
+ * it's claimed before the run rather than once a good score turns up.
+ * Practice runs can be ridden as often as you like but aren't ranked.
+ */
+const DailyAttemptPanel: React.FC<DailyAttemptPanelProps> = ({ onStart, onClose }) => {
+  const [playerName, setPlayerName] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!playerName.trim()) return;
+
+    try {
+      setSubmitting(true);
+      setError(null);
+      onStart(await startDailyAttempt(playerName.trim()));
+    } catch (err) {
+      console.error("Failed to start a ranked daily attempt:", err);
+      if (err instanceof ApiError && err.status === 409) {
+        setError(`${playerName} has already ridden today's bounty - ride it for practice instead`);
+      } else {
+        setError("Couldn't reach the sheriff's office. Please try again.");
+      }
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Card className="relative w-[90%] max-w-md border-2 border-amber-800 bg-black/70 text-white shadow-2xl z-10">
+      <form onSubmit={handleSubmit}>
+        <CardContent className="pt-6">
+          <div className="flex justify-center mb-2">
+            <Star className="h-10 w-10 text-amber-400" />
+          </div>
+          <h1 className="text-3xl font-bold mb-1 text-center text-amber-500">Daily Bounty</h1>
+          <p className="mb-4 text-center text-sm text-amber-200">
+            One ranked ride a day per outlaw name - it counts from the moment you set off
+          </p>
+
+          <input
+            type="text"
+            value={playerName}
+            onChange={(event) => setPlayerName(event.target.value.slice(0, 5).toUpperCase())}
+            maxLength={5}
+            placeholder="XXXXX"
+            aria-label="Outlaw name"
+            disabled={submitting}
+            autoFocus
+            className="w-full rounded border border-amber-700 bg-black/40 px-3 py-2 text-center text-2xl tracking-widest text-amber-100"
+          />
+
+          {error && <p className="mt-2 text-center text-sm text-red-400">{error}</p>}
+        </CardContent>
+
+        <CardFooter className="flex flex-col gap-3 items-center">
+          <Button
+            type="submit"
+            size="lg"
+            disabled={submitting || !playerName.trim()}
+            className="w-[200px] bg-amber-700 hover:bg-amber-600 text-white border border-amber-500"
+          >
+            {submitting ? "Saddling up..." : "Ride for the Bounty"}
+          </Button>
+
+          <Button
+            type="button"
+            size="default"
+            disabled={submitting}
+            onClick={() => onStart(null)}
+            className="w-[200px] bg-amber-900 hover:bg-amber-800 text-white border border-amber-600"
+          >
+            Practice Run
+          </Button>
+
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            disabled={submitting}
+            onClick={onClose}
+            className="w-[200px] bg-transparent hover:bg-amber-900/60 text-amber-300 border border-amber-700"
+          >
+            Back
+          </Button>
+        </CardFooter>
+      </form>
+    </Card>
+  );
+};
+
+export default DailyAttemptPanel;
@@ -1,18 +1,26 @@
 import React, { useEffect, useState } from "react";
 import { Card, CardContent, CardFooter } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { Skull } from "lucide-react";
+import { Download, Skull } from "lucide-react";
+import { useConfirmAction } from "@/hooks/use-confirm-action";
+import { formatSeed } from "@shared/game/random";
 
 interface GameOverScreenProps {
   score: number;
+  distance?: number; // Rows travelled, for endless runs
+  seed: number;
   onRestart: () => void;
   showLeaderboard: () => void;
+  onDownloadReplay?: () => void;
 }
 
 const GameOverScreen: React.FC<GameOverScreenProps> = ({
   score,
+  distance,
+  seed,
   onRestart,
   showLeaderboard,
+  onDownloadReplay,
 }) => {
   const [qualifiesForHighScore, setQualifiesForHighScore] = useState(false);
   
@@ -32,6 +40,9 @@ const GameOverScreen: React.FC<GameOverScreenProps> = ({
     // Trigger high score state in Game component
     window.dispatchEvent(new CustomEvent('show-high-score-entry'));
   };
+  
+  // A controller's A button posts a qualifying score, or rides again
+  useConfirmAction(qualifiesForHighScore ? handleNextClick : onRestart);
   return (
     <div 
       className="absolute inset-0 flex items-center justify-center"
@@ -55,6 +66,12 @@ const GameOverScreen: React.FC<GameOverScreenProps> = ({
           <div className="bg-black/40 border border-amber-800 p-4 rounded-lg mb-6">
             <h2 className="text-xl font-semibold mb-2 text-amber-300">Final Score</h2>
             <p className="text-3xl font-bold text-amber-400">{score}</p>
+            {distance !== undefined && (
+              <p className="mt-1 text-amber-200">Made it {distance} rows into the frontier</p>
+            )}
+            <p className="mt-2 text-xs text-amber-300/70">
+              Trail seed: <span className="font-mono text-amber-300">{formatSeed(seed)}</span>
+            </p>
           </div>
 
           <p className="text-amber-200 italic">
@@ -88,6 +105,18 @@ const GameOverScreen: React.FC<GameOverScreenProps> = ({
             View Most Wanted
           </Button>
           
+          {onDownloadReplay && (
+            <Button 
+              variant="outline"
+              size="sm" 
+              onClick={onDownloadReplay} 
+              className="w-[200px] bg-transparent hover:bg-amber-900/60 text-amber-300 border border-amber-700"
+            >
+              <Download className="h-4 w-4 mr-2" />
+              Download Replay
+            </Button>
+          )}
+          
           {qualifiesForHighScore && (
             <p className="text-amber-300 text-sm mt-2 font-bold">
               New high score! Post your bounty to the most wanted list
@@ -1,30 +1,100 @@
 import React from "react";
-import { HeartCrack } from "lucide-react";
+import { HeartCrack, Timer } from "lucide-react";
+import { DAILY_MODIFIERS, type DailyModifier } from "@shared/game/daily";
+import { POWER_UPS } from "@shared/game/powerups";
+import type { ComboMeter, PowerUpTimer } from "../game/GameManager";
+import { TIME_WARNING_SECONDS } from "../game/constants";
 
 interface HUDProps {
   score: number;
   level: number;
+  distance?: number; // Rows travelled, shown instead of the level in endless mode
+  modifiers?: DailyModifier[]; // Today's modifiers when playing the daily bounty
   lives: number;
+  powerUps?: PowerUpTimer[]; // Timed power-ups still running
+  combo?: ComboMeter;
+  timeRemaining?: number | null; // Whole seconds left on the level clock, null without a time limit
+  replay?: boolean; // Watching a recorded run
+  playtest?: boolean; // Trying out a level from the editor
 }
 
-const HUD: React.FC<HUDProps> = ({ score, level, lives }) => {
+const HUD: React.FC<HUDProps> = ({ score, level, distance, modifiers, lives, powerUps = [], combo, timeRemaining, replay, playtest }) => {
+  const timeWarning = timeRemaining != null && timeRemaining <= TIME_WARNING_SECONDS;
+
   return (
-    <div className="absolute top-0 left-0 right-0 p-4 flex justify-between pointer-events-none">
-      <div className="bg-black/50 backdrop-blur-sm rounded-lg p-2 flex items-center space-x-2">
-        <span className="text-white font-bold">Level: {level}</span>
-      </div>
+    <>
+      <div className="absolute top-0 left-0 right-0 p-4 flex justify-between pointer-events-none">
+        <div className="bg-black/50 backdrop-blur-sm rounded-lg p-2 flex items-center space-x-2">
+          {distance !== undefined ? (
+            <span className="text-white font-bold">Distance: {distance}</span>
+          ) : (
+            <span className="text-white font-bold">Level: {level}</span>
+          )}
+          {timeRemaining != null && (
+            <span className={`flex items-center font-bold ${timeWarning ? "text-red-400 animate-pulse" : "text-white"}`}>
+              <Timer className="h-4 w-4 mr-1" />
+              {formatTime(timeRemaining)}
+            </span>
+          )}
+          {replay && (
+            <span className="text-xs font-bold text-red-400 animate-pulse">REPLAY</span>
+          )}
+          {playtest && (
+            <span className="text-xs font-bold text-sky-300">PLAY-TEST</span>
+          )}
+          {modifiers && (
+            <span className="text-xs font-bold text-amber-300">
+              DAILY: {modifiers.map(modifier => DAILY_MODIFIERS[modifier].name).join(", ")}
+            </span>
+          )}
+        </div>
 
-      <div className="bg-black/50 backdrop-blur-sm rounded-lg p-2 flex items-center space-x-2">
-        <span className="text-white font-bold">Score: {score}</span>
-      </div>
+        <div className="bg-black/50 backdrop-blur-sm rounded-lg p-2 flex items-center space-x-2">
+          <span className="text-white font-bold">Score: {score}</span>
+          {combo && (combo.multiplier > 1 || combo.progress > 0) && (
+            <div className="flex flex-col items-center">
+              <span className={`text-sm font-bold ${combo.multiplier > 1 ? "text-amber-400" : "text-white/60"}`}>
+                x{combo.multiplier}
+              </span>
+              <div className="h-1 w-8 rounded bg-white/20">
+                <div className="h-1 rounded bg-amber-400" style={{ width: `${combo.progress * 100}%` }} />
+              </div>
+            </div>
+          )}
+        </div>
 
-      <div className="bg-black/50 backdrop-blur-sm rounded-lg p-2 flex items-center">
-        {[...Array(Math.max(0, lives))].map((_, i) => (
-          <HeartCrack key={i} className="h-5 w-5 text-red-500 mx-0.5" />
-        ))}
+        <div className="bg-black/50 backdrop-blur-sm rounded-lg p-2 flex items-center">
+          {[...Array(Math.max(0, lives))].map((_, i) => (
+            <HeartCrack key={i} className="h-5 w-5 text-red-500 mx-0.5" />
+          ))}
+        </div>
       </div>
-    </div>
+
+      {powerUps.length > 0 && (
+        <div className="absolute top-16 right-4 flex flex-col items-end space-y-1 pointer-events-none">
+          {powerUps.map(timer => (
+            <div key={timer.type} className="bg-black/50 backdrop-blur-sm rounded-lg px-2 py-1 w-40">
+              <div className="flex justify-between text-xs font-bold text-white">
+                <span>{POWER_UPS[timer.type].name}</span>
+                <span>{(timer.remaining / 1000).toFixed(1)}s</span>
+              </div>
+              <div className="mt-1 h-1 rounded bg-white/20">
+                <div
+                  className="h-1 rounded bg-amber-400"
+                  style={{ width: `${Math.min(100, (timer.remaining / timer.duration) * 100)}%` }}
+                />
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </>
   );
 };
 
+function formatTime(seconds: number): string {
+  const minutes = Math.floor(seconds / 60);
+  return `${minutes}:${String(seconds % 60).padStart(2, "0")}`;
+}
+
 export default HUD;
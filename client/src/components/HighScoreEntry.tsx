@@ -1,17 +1,21 @@
 import { useState, useEffect, useRef } from 'react';
-import { apiRequest } from '../lib/queryClient';
+import { apiRequest, ApiError } from '../lib/queryClient';
 import LeaderboardDisplay, { HighScore } from './LeaderboardDisplay';
+import type { Replay } from '@shared/game/replay';
+import type { DailyAttempt } from '../lib/daily';
 import '../styles/leaderboard.css';
 
 interface HighScoreEntryProps {
   score: number;
-  level: number;
+  level: number; // Level reached, or rows travelled in endless mode
+  replay: Replay; // Sent along so the server can verify the score
+  attempt?: DailyAttempt | null; // A daily bounty score goes up under the name its attempt was claimed with
   onClose?: () => void;
   onComplete?: () => void;
 }
 
-const HighScoreEntry: React.FC<HighScoreEntryProps> = ({ score, level, onClose, onComplete }) => {
-  const [playerName, setPlayerName] = useState('');
+const HighScoreEntry: React.FC<HighScoreEntryProps> = ({ score, level, replay, attempt, onClose, onComplete }) => {
+  const [playerName, setPlayerName] = useState(attempt?.playerName ?? '');
   const [submitting, setSubmitting] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [submitted, setSubmitted] = useState(false);
@@ -34,6 +38,7 @@ const HighScoreEntry: React.FC<HighScoreEntryProps> = ({ score, level, onClose,
   // Handle key press directly to ensure it works
   const handleKeyPress = (e: React.KeyboardEvent<HTMLInputElement>) => {
     console.log("Key pressed:", e.key);
+    if (attempt) return; // The attempt's name is fixed
     
     // Allow only letters and numbers
     if (/^[a-zA-Z0-9]$/.test(e.key) && playerName.length < 5) {
@@ -68,7 +73,11 @@ const HighScoreEntry: React.FC<HighScoreEntryProps> = ({ score, level, onClose,
         body: JSON.stringify({
           playerName: playerName.trim(),
           score,
-          level
+          level,
+          mode: replay.mode,
+          difficulty: replay.difficulty,
+          replay,
+          attempt: attempt?.token
         }),
         headers: {
           'Content-Type': 'application/json'
@@ -86,14 +95,29 @@ const HighScoreEntry: React.FC<HighScoreEntryProps> = ({ score, level, onClose,
       }
     } catch (err) {
       console.error('Failed to submit high score:', err);
-      setError('Failed to save your score. Please try again.');
+      if (err instanceof ApiError && err.status === 422) {
+        // The server could not reproduce this score from the replay
+        setError(`The sheriff didn't buy it: ${err.data?.error || 'score could not be verified'}`);
+      } else if (err instanceof ApiError && err.status === 409) {
+        // Daily bounties rank one attempt per name per day
+        setError("This bounty attempt has already been posted");
+      } else {
+        setError('Failed to save your score. Please try again.');
+      }
     } finally {
       setSubmitting(false);
     }
   };
 
   if (submitted && highScore) {
-    return <LeaderboardDisplay playerScore={score} onClose={onClose} />;
+    return (
+      <LeaderboardDisplay
+        playerScore={score}
+        onClose={onClose}
+        mode={replay.mode}
+        difficulty={replay.difficulty}
+      />
+    );
   }
 
   return (
@@ -127,6 +151,7 @@ const HighScoreEntry: React.FC<HighScoreEntryProps> = ({ score, level, onClose,
               maxLength={5}
               placeholder="XXXXX"
               disabled={submitting}
+              readOnly={!!attempt}
               className="name-input"
               autoFocus
               style={{ caretColor: 'transparent' }}
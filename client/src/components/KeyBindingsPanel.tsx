@@ -0,0 +1,192 @@
+import React, { useEffect, useState } from "react";
+import { Card, CardContent, CardFooter } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Keyboard } from "lucide-react";
+import { useKeyBindings } from "@/lib/stores/useKeyBindings";
+import {
+  ACTION_LABELS,
+  BINDING_PRESETS,
+  DEFAULT_BINDINGS,
+  INPUT_ACTIONS,
+  KEYS_PER_ACTION,
+  describeKey,
+  findConflicts,
+  type BindingPreset,
+  type InputAction,
+  type KeyBindings,
+} from "@/lib/input";
+import { KEYS } from "@/game/constants";
+
+const CLEAR_KEYS = [8, 46]; // Backspace and Delete empty the slot being rebound
+
+interface KeyBindingsPanelProps {
+  onClose: () => void;
+}
+
+interface Slot {
+  action: InputAction;
+  index: number;
+}
+
+/**
+ * Rebind the keyboard controls. Changes are made to a draft and only saved
+ * once no key is bound to two actions.
+ */
+const KeyBindingsPanel: React.FC<KeyBindingsPanelProps> = ({ onClose }) => {
+  const { bindings, setBindings } = useKeyBindings();
+  const [draft, setDraft] = useState<KeyBindings>(bindings);
+  const [listening, setListening] = useState<Slot | null>(null);
+
+  const conflicts = findConflicts(draft);
+  const conflictKeys = new Set(conflicts.map(conflict => conflict.keyCode));
+  const unbound = INPUT_ACTIONS.filter(action => draft[action].length === 0);
+
+  // Listen ahead of the game's own key handling so the key being bound
+  // doesn't also move a menu or unpause
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!listening && event.keyCode !== KEYS.ESCAPE) return;
+      event.preventDefault();
+      event.stopPropagation();
+
+      if (!listening) {
+        onClose();
+        return;
+      }
+
+      if (event.keyCode !== KEYS.ESCAPE) {
+        bindSlot(listening, CLEAR_KEYS.includes(event.keyCode) ? null : event.keyCode);
+      }
+      setListening(null);
+    };
+
+    window.addEventListener("keydown", handleKeyDown, true);
+    return () => window.removeEventListener("keydown", handleKeyDown, true);
+  }, [listening, onClose]);
+
+  const bindSlot = ({ action, index }: Slot, keyCode: number | null) => {
+    setDraft(current => {
+      const keys = [...current[action]];
+      if (keyCode === null) {
+        keys.splice(index, 1);
+      } else {
+        keys[index] = keyCode;
+      }
+
+      // Filtering drops the gap left by binding a second slot before the first
+      const unique = keys.filter((key, i) => key !== undefined && (i === index || key !== keyCode));
+      return { ...current, [action]: unique };
+    });
+  };
+
+  const handleSave = () => {
+    setBindings(draft);
+    onClose();
+  };
+
+  return (
+    <Card className="relative w-[90%] max-w-md border-2 border-amber-800 bg-black/70 text-white shadow-2xl z-10">
+      <CardContent className="pt-6">
+        <div className="flex justify-center mb-2">
+          <Keyboard className="h-10 w-10 text-amber-400" />
+        </div>
+        <h1 className="text-3xl font-bold mb-1 text-center text-amber-500">Controls</h1>
+        <p className="mb-4 text-center text-sm text-amber-200">
+          {listening
+            ? `Press a key for ${ACTION_LABELS[listening.action].toLowerCase()} - Esc to cancel, Backspace to clear`
+            : "Pick a slot, then press the key you want"}
+        </p>
+
+        <div className="flex justify-center gap-2 mb-4">
+          {(Object.keys(BINDING_PRESETS) as BindingPreset[]).map(preset => (
+            <Button
+              key={preset}
+              size="sm"
+              variant="outline"
+              className="bg-transparent hover:bg-amber-900/60 text-amber-300 border border-amber-700"
+              onClick={() => setDraft(BINDING_PRESETS[preset].bindings)}
+            >
+              {BINDING_PRESETS[preset].name}
+            </Button>
+          ))}
+        </div>
+
+        <table className="w-full text-amber-200">
+          <tbody>
+            {INPUT_ACTIONS.map(action => (
+              <tr key={action}>
+                <td className="py-1 pr-2">{ACTION_LABELS[action]}</td>
+                {Array.from({ length: KEYS_PER_ACTION }, (_, index) => {
+                  const keyCode = draft[action][index];
+                  const isListening = listening?.action === action && listening.index === index;
+                  const isConflict = keyCode !== undefined && conflictKeys.has(keyCode);
+
+                  return (
+                    <td key={index} className="py-1 pl-2">
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        aria-label={`${ACTION_LABELS[action]}, key ${index + 1}`}
+                        className={`w-full border ${
+                          isListening
+                            ? "bg-amber-700 text-white border-amber-400 animate-pulse"
+                            : isConflict
+                              ? "bg-red-900/60 text-red-200 border-red-500"
+                              : "bg-black/40 text-amber-100 border-amber-700 hover:bg-amber-900/60"
+                        }`}
+                        onClick={() => setListening(isListening ? null : { action, index })}
+                      >
+                        {isListening ? "..." : keyCode !== undefined ? describeKey(keyCode) : "—"}
+                      </Button>
+                    </td>
+                  );
+                })}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+
+        {conflicts.map(({ keyCode, actions }) => (
+          <p key={keyCode} className="mt-2 text-sm text-red-400">
+            {describeKey(keyCode)} is bound to {actions.map(action => ACTION_LABELS[action].toLowerCase()).join(" and ")}
+          </p>
+        ))}
+        {unbound.length > 0 && (
+          <p className="mt-2 text-sm text-red-400">
+            {unbound.map(action => ACTION_LABELS[action]).join(", ")} needs a key
+          </p>
+        )}
+      </CardContent>
+
+      <CardFooter className="flex flex-col gap-3 items-center">
+        <Button
+          size="lg"
+          onClick={handleSave}
+          disabled={conflicts.length > 0 || unbound.length > 0}
+          className="w-[200px] bg-amber-700 hover:bg-amber-600 text-white border border-amber-500"
+        >
+          Save
+        </Button>
+
+        <Button
+          size="default"
+          onClick={() => setDraft(DEFAULT_BINDINGS)}
+          className="w-[200px] bg-amber-900 hover:bg-amber-800 text-white border border-amber-600"
+        >
+          Reset to Defaults
+        </Button>
+
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={onClose}
+          className="w-[200px] bg-transparent hover:bg-amber-900/60 text-amber-300 border border-amber-700"
+        >
+          Cancel
+        </Button>
+      </CardFooter>
+    </Card>
+  );
+};
+
+export default KeyBindingsPanel;
@@ -1,12 +1,19 @@
 import { useEffect, useState } from 'react';
 import { apiRequest } from '../lib/queryClient';
+import { fetchDailyWinners, DAILY_WINNERS_PAGE_SIZE } from '../lib/daily';
+import { DIFFICULTY_PRESETS, Difficulty, type GameMode } from '@shared/game/constants';
+import { getDailyDate } from '@shared/game/daily';
 import '../styles/leaderboard.css';
 
 export interface HighScore {
   id: number;
   playerName: string;
   score: number;
-  level: number;
+  level: number; // Level reached, or rows travelled in endless mode
+  mode: GameMode;
+  difficulty: Difficulty;
+  day: string | null; // UTC day of a daily bounty score
+  verified: boolean; // Score was reproduced from a replay on the server
   date: string;
 }
 
@@ -15,14 +22,36 @@ interface LeaderboardDisplayProps {
   onBack?: () => void;
   onReturnToStart?: () => void; // New prop for returning to start screen
   playerScore?: number;
+  mode?: GameMode; // Leaderboard to open on
+  difficulty?: Difficulty; // Difficulty to filter on, or every difficulty if not set
 }
 
+const MODE_TABS: { mode: GameMode; label: string }[] = [
+  { mode: 'story', label: 'Story' },
+  { mode: 'endless', label: 'Endless' },
+  { mode: 'daily', label: 'Daily' },
+];
+
+type DifficultyFilter = Difficulty | 'all';
+
+const DIFFICULTY_TABS: { difficulty: DifficultyFilter; label: string }[] = [
+  { difficulty: 'all', label: 'All' },
+  ...Object.values(Difficulty).map(difficulty => ({ difficulty, label: DIFFICULTY_PRESETS[difficulty].name })),
+];
+
 const LeaderboardDisplay: React.FC<LeaderboardDisplayProps> = ({ 
   onClose,
   onBack,
   onReturnToStart,
-  playerScore 
+  playerScore,
+  mode = 'story',
+  difficulty
 }) => {
+  const [selectedMode, setSelectedMode] = useState<GameMode>(mode);
+  const [selectedDifficulty, setSelectedDifficulty] = useState<DifficultyFilter>(difficulty ?? 'all');
+  const [selectedDay, setSelectedDay] = useState(getDailyDate); // Daily bounty being shown
+  const [dailyWinners, setDailyWinners] = useState<HighScore[]>([]);
+  const [moreWinners, setMoreWinners] = useState(false); // A full page came back, so there may be older ones
   const [highScores, setHighScores] = useState<HighScore[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -31,7 +60,12 @@ const LeaderboardDisplay: React.FC<LeaderboardDisplayProps> = ({
     const fetchHighScores = async () => {
       try {
         setLoading(true);
-        const scores = await apiRequest('/api/highscores', {
+        setError(null);
+        let query = selectedMode === 'daily' ? `mode=daily&date=${selectedDay}` : `mode=${selectedMode}`;
+        if (selectedDifficulty !== 'all') {
+          query += `&difficulty=${selectedDifficulty}`;
+        }
+        const scores = await apiRequest(`/api/highscores?${query}`, {
           method: 'GET',
           on401: 'returnNull'
         });
@@ -48,7 +82,28 @@ const LeaderboardDisplay: React.FC<LeaderboardDisplayProps> = ({
     };
 
     fetchHighScores();
-  }, []);
+  }, [selectedMode, selectedDay, selectedDifficulty]);
+
+  // Past daily winners stay browsable from the daily tab, a page at a time
+  useEffect(() => {
+    if (selectedMode === 'daily') {
+      fetchDailyWinners(selectedDifficulty === 'all' ? undefined : selectedDifficulty).then(winners => {
+        setDailyWinners(winners);
+        setMoreWinners(winners.length === DAILY_WINNERS_PAGE_SIZE);
+      });
+    }
+  }, [selectedMode, selectedDifficulty]);
+
+  const loadOlderWinners = async () => {
+    const oldest = dailyWinners[dailyWinners.length - 1]?.day;
+    if (!oldest) return;
+
+    const winners = await fetchDailyWinners(selectedDifficulty === 'all' ? undefined : selectedDifficulty, oldest);
+    setDailyWinners(current => [...current, ...winners]);
+    setMoreWinners(winners.length === DAILY_WINNERS_PAGE_SIZE);
+  };
+
+  const today = getDailyDate();
 
   // Function to determine if the player's current score would make the leaderboard
   const wouldMakeLeaderboard = () => {
@@ -73,6 +128,39 @@ const LeaderboardDisplay: React.FC<LeaderboardDisplayProps> = ({
         {/* Removed the image since we're using it as background */}
         <h2 className="leaderboard-title">TOP OUTLAWS</h2>
         
+        <div className="mode-tabs">
+          {MODE_TABS.map(tab => (
+            <button
+              key={tab.mode}
+              className={`mode-tab ${selectedMode === tab.mode ? 'active' : ''}`}
+              onClick={() => setSelectedMode(tab.mode)}
+            >
+              {tab.label}
+            </button>
+          ))}
+        </div>
+        
+        <div className="mode-tabs difficulty-tabs">
+          {DIFFICULTY_TABS.map(tab => (
+            <button
+              key={tab.difficulty}
+              className={`mode-tab ${selectedDifficulty === tab.difficulty ? 'active' : ''}`}
+              onClick={() => setSelectedDifficulty(tab.difficulty)}
+            >
+              {tab.label}
+            </button>
+          ))}
+        </div>
+        
+        {selectedMode === 'daily' && (
+          <p className="daily-day">
+            {selectedDay === today ? "Today's bounty" : `Bounty for ${selectedDay}`}
+            {selectedDay !== today && (
+              <button className="daily-today" onClick={() => setSelectedDay(today)}>Back to today</button>
+            )}
+          </p>
+        )}
+        
         {loading ? (
           <p className="loading-text">Loading high scores...</p>
         ) : error ? (
@@ -85,15 +173,27 @@ const LeaderboardDisplay: React.FC<LeaderboardDisplayProps> = ({
                   <th className="rank-column">RANK</th>
                   <th className="name-column">NAME</th>
                   <th className="score-column">BOUNTY</th>
-                  <th className="level-column">LEVEL</th>
+                  <th className="level-column">{selectedMode === 'endless' ? 'ROWS' : 'LEVEL'}</th>
                 </tr>
               </thead>
               <tbody>
                 {highScores.map((score, index) => (
                   <tr key={score.id} className={playerScore === score.score ? 'your-score' : ''}>
                     <td className="rank-column">{index + 1}</td>
-                    <td className="name-column">{score.playerName}</td>
-                    <td className="score-column">${score.score}</td>
+                    <td className="name-column">
+                      {score.playerName}
+                      {selectedDifficulty === 'all' && (
+                        <span className="difficulty-mark" title={DIFFICULTY_PRESETS[score.difficulty]?.name}>
+                          {' '}{DIFFICULTY_PRESETS[score.difficulty]?.name.charAt(0)}
+                        </span>
+                      )}
+                    </td>
+                    <td className="score-column">
+                      ${score.score}
+                      {score.verified && (
+                        <span className="verified-mark" title="Verified from replay"> ✓</span>
+                      )}
+                    </td>
                     <td className="level-column">{score.level}</td>
                   </tr>
                 ))}
@@ -107,7 +207,32 @@ const LeaderboardDisplay: React.FC<LeaderboardDisplayProps> = ({
           </div>
         )}
         
-        {playerScore && (
+        {selectedMode === 'daily' && dailyWinners.length > 0 && (
+          <div className="past-winners">
+            <h3>Past Bounties</h3>
+            <ul>
+              {dailyWinners.map(winner => (
+                <li key={winner.id}>
+                  <button
+                    className={winner.day === selectedDay ? 'active' : ''}
+                    onClick={() => setSelectedDay(winner.day!)}
+                  >
+                    <span>{winner.day}</span>
+                    <span>{winner.playerName}</span>
+                    <span>${winner.score}</span>
+                  </button>
+                </li>
+              ))}
+            </ul>
+            {moreWinners && (
+              <button className="older-winners" onClick={loadOlderWinners}>
+                Older bounties
+              </button>
+            )}
+          </div>
+        )}
+        
+        {playerScore && selectedMode === mode && selectedDifficulty === (difficulty ?? 'all') && (selectedMode !== 'daily' || selectedDay === today) && (
           <div className="player-score-info">
             <p>Your bounty: ${playerScore}</p>
             {wouldMakeLeaderboard() ? (
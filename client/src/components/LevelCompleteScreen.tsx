@@ -1,19 +1,105 @@
-import React from 'react';
+import React, { useEffect, useState } from 'react';
 import { Card, CardContent, CardFooter } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Sparkles } from 'lucide-react';
+import { formatSeed } from '@shared/game/random';
+import { POINTS_FOR_CROSSING, POINTS_FOR_COIN, POINTS_FOR_MONEYBAG, PowerUpType } from '@shared/game/constants';
+import { POWER_UPS } from '@shared/game/powerups';
+import { scoreFromBreakdown, type ScoreBreakdown } from '@shared/game/scoring';
+import { useConfirmAction } from '@/hooks/use-confirm-action';
 
 interface LevelCompleteScreenProps {
   level: number;
-  score: number;
+  score: number; // Run total
+  breakdown: ScoreBreakdown; // Points scored in this level
+  seed: number;
   onContinue: () => void;
 }
 
+interface TallyLine {
+  label: string;
+  count?: number; // How many were collected, if it's a count of something
+  points: number;
+}
+
+const TALLY_LINE_DELAY = 400; // Milliseconds between each line starting to count
+const TALLY_COUNT_DURATION = 600;
+
+function getTallyLines(breakdown: ScoreBreakdown): TallyLine[] {
+  const powerUpPoints = (types: PowerUpType[]) =>
+    types.reduce((total, type) => total + (breakdown.powerUps[type] ?? 0) * POWER_UPS[type].points, 0);
+  const powerUpCount = (types: PowerUpType[]) =>
+    types.reduce((total, type) => total + (breakdown.powerUps[type] ?? 0), 0);
+  const otherPowerUps = Object.values(PowerUpType).filter(type => type !== PowerUpType.BADGE);
+
+  const lines: TallyLine[] = [
+    { label: 'Crossings', count: breakdown.crossings, points: breakdown.crossings * POINTS_FOR_CROSSING },
+    { label: 'Coins', count: breakdown.coins, points: breakdown.coins * POINTS_FOR_COIN },
+    { label: 'Badges', count: powerUpCount([PowerUpType.BADGE]), points: powerUpPoints([PowerUpType.BADGE]) },
+  ];
+
+  if (powerUpCount(otherPowerUps) > 0) {
+    lines.push({ label: 'Power-ups', count: powerUpCount(otherPowerUps), points: powerUpPoints(otherPowerUps) });
+  }
+  lines.push({ label: 'Money bags', count: breakdown.moneyBags, points: breakdown.moneyBags * POINTS_FOR_MONEYBAG });
+  if (breakdown.comboBonus > 0) {
+    lines.push({ label: 'Combo bonus', points: breakdown.comboBonus });
+  }
+  lines.push({ label: 'Time bonus', points: breakdown.timeBonus });
+
+  return lines;
+}
+
+/**
+ * Count up from zero to a value once a delay has passed
+ */
+function useCountUp(target: number, delay: number): number {
+  const [value, setValue] = useState(0);
+
+  useEffect(() => {
+    let frame = 0;
+    let start: number | null = null;
+
+    const step = (now: number) => {
+      start = start ?? now;
+      const progress = Math.min(1, Math.max(0, (now - start - delay) / TALLY_COUNT_DURATION));
+      setValue(Math.round(target * progress));
+      if (progress < 1) {
+        frame = requestAnimationFrame(step);
+      }
+    };
+
+    frame = requestAnimationFrame(step);
+    return () => cancelAnimationFrame(frame);
+  }, [target, delay]);
+
+  return value;
+}
+
+const TallyRow: React.FC<{ line: TallyLine; delay: number; total?: boolean }> = ({ line, delay, total }) => {
+  const points = useCountUp(line.points, delay);
+
+  return (
+    <div className={`flex justify-between ${total ? 'border-t border-amber-800 pt-1 mt-1 font-bold text-amber-400' : 'text-amber-200'}`}>
+      <span>
+        {line.label}
+        {line.count !== undefined && <span className="text-amber-300/70"> x{line.count}</span>}
+      </span>
+      <span className="font-mono">{points}</span>
+    </div>
+  );
+};
+
 const LevelCompleteScreen: React.FC<LevelCompleteScreenProps> = ({ 
   level, 
   score, 
+  breakdown,
+  seed,
   onContinue 
 }) => {
+  const lines = getTallyLines(breakdown);
+  useConfirmAction(onContinue);
+  
   return (
     <div 
       className="absolute inset-0 flex items-center justify-center"
@@ -48,10 +134,24 @@ const LevelCompleteScreen: React.FC<LevelCompleteScreenProps> = ({
             </div>
           </div>
           
+          <div className="bg-black/40 border border-amber-800 p-3 rounded-lg mb-4 text-left text-sm">
+            {lines.map((line, i) => (
+              <TallyRow key={line.label} line={line} delay={i * TALLY_LINE_DELAY} />
+            ))}
+            <TallyRow
+              line={{ label: 'Level total', points: scoreFromBreakdown(breakdown) }}
+              delay={lines.length * TALLY_LINE_DELAY}
+              total
+            />
+          </div>
+          
           <p className="text-lg mb-2 text-amber-200">The sheriff is hot on your trail!</p>
           <p className="text-amber-300/80 text-sm">
             The next town will be more dangerous. Stay alert, pardner!
           </p>
+          <p className="mt-3 text-xs text-amber-300/70">
+            Trail seed: <span className="font-mono text-amber-300">{formatSeed(seed)}</span>
+          </p>
         </CardContent>
         
         <CardFooter className="flex justify-center">
@@ -0,0 +1,452 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { ArrowDown, ArrowUp, Download, Play, Plus, Trash2, Upload } from 'lucide-react';
+import { GRID_CELLS_X, GRID_CELLS_Y, ObstacleType, PlatformType, PowerUpType, TerrainType } from '@shared/game/constants';
+import { LEVELS, LEVEL_COUNT, parseLevel, type LaneConfig, type LevelConfig, type PowerUpRule } from '@shared/game/levels';
+import { POWER_UPS } from '@shared/game/powerups';
+import { downloadLevel, readLevelFile, describeLevelErrors } from '@/lib/levels';
+import { useLevelEditor } from '@/lib/stores/useLevelEditor';
+
+interface LevelEditorProps {
+  onPlayTest: (level: LevelConfig) => void;
+  onExit: () => void;
+}
+
+const LANE_COLORS: Record<LaneConfig['type'], string> = {
+  safe: 'bg-amber-700/80',
+  road: 'bg-stone-600/80',
+  river: 'bg-sky-700/80',
+};
+
+const TERRAIN_LABELS: Record<TerrainType, string> = {
+  [TerrainType.CACTUS]: '🌵',
+  [TerrainType.ROCK]: '🪨',
+  [TerrainType.FENCE]: '🚧',
+};
+
+// Clicking a terrain cell cycles through the pieces and back to empty
+const TERRAIN_CYCLE: (TerrainType | null)[] = [null, TerrainType.CACTUS, TerrainType.ROCK, TerrainType.FENCE];
+
+// Badges have their own field; the rest are edited as per-level counts
+const EXTRA_POWER_UPS = Object.values(PowerUpType).filter(type => type !== PowerUpType.BADGE);
+
+// Road share new power-up rules are placed in until the JSON says otherwise
+const DEFAULT_POWER_UP_LANE_FRACTION = 0.6;
+
+function setPowerUpCount(rules: PowerUpRule[] | undefined, type: PowerUpType, count: number): PowerUpRule[] {
+  const existing = rules ?? [];
+  if (!existing.some(rule => rule.type === type)) {
+    return [...existing, { type, count, laneFraction: DEFAULT_POWER_UP_LANE_FRACTION }];
+  }
+  return existing.map(rule => rule.type === type ? { ...rule, count } : rule);
+}
+
+const selectClass = 'h-9 w-full rounded-md border border-amber-700 bg-black/60 px-2 text-sm text-amber-100';
+
+// Optional lane flags: unset follows the level's rules
+type FlagValue = 'auto' | 'on' | 'off';
+
+function toFlagValue(flag: boolean | undefined): FlagValue {
+  if (flag === undefined) return 'auto';
+  return flag ? 'on' : 'off';
+}
+
+function fromFlagValue(value: FlagValue): boolean | undefined {
+  if (value === 'auto') return undefined;
+  return value === 'on';
+}
+
+// Empty number fields clear optional values. Required values are left as NaN
+// while being retyped, which the schema reports as an error.
+function parseOptionalNumber(value: string): number | undefined {
+  return value === '' ? undefined : Number(value);
+}
+
+function getTerrainAt(lane: LaneConfig, column: number): TerrainType | null {
+  return lane.terrain?.find(piece => piece.columns.includes(column))?.type ?? null;
+}
+
+function setTerrainAt(lane: LaneConfig, column: number, type: TerrainType | null): LaneConfig['terrain'] {
+  const pieces = (lane.terrain || [])
+    .map(piece => ({ ...piece, columns: piece.columns.filter(c => c !== column) }))
+    .filter(piece => piece.columns.length > 0);
+
+  if (type) {
+    const existing = pieces.find(piece => piece.type === type);
+    if (existing) {
+      existing.columns = [...existing.columns, column].sort((a, b) => a - b);
+    } else {
+      pieces.push({ type, columns: [column] });
+    }
+  }
+
+  return pieces.length > 0 ? pieces : undefined;
+}
+
+function describeLane(lane: LaneConfig): string {
+  const arrow = lane.direction === 'left' ? '←' : '→';
+  switch (lane.type) {
+    case 'road':
+      return `${arrow} ${lane.obstacleType ?? 'empty'} ${lane.obstacleFrequency ?? 0}/s${lane.badges ? ' ★' : ''}`;
+    case 'river':
+      return `${arrow} ${lane.platformType ?? 'no platforms'}`;
+    case 'safe': {
+      const terrainCount = (lane.terrain || []).reduce((count, piece) => count + piece.columns.length, 0);
+      return `${terrainCount > 0 ? `${terrainCount} terrain` : ''}${lane.coins ? ' $' : ''}`;
+    }
+  }
+}
+
+const LevelEditor: React.FC<LevelEditorProps> = ({ onPlayTest, onExit }) => {
+  const {
+    draft,
+    selectedLane,
+    lastPlaytest,
+    loadLevel,
+    updateLevel,
+    updateLane,
+    setLaneType,
+    addLane,
+    removeLane,
+    moveLane,
+    selectLane,
+  } = useLevelEditor();
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const [importError, setImportError] = useState<string | null>(null);
+
+  const validation = useMemo(() => parseLevel(draft), [draft]);
+  const errors = validation.success ? [] : describeLevelErrors(validation.error.issues);
+  const lane = draft.lanes[selectedLane];
+
+  const handlePlayTest = () => {
+    if (validation.success) {
+      onPlayTest(validation.data);
+    }
+  };
+
+  const handleExport = () => {
+    if (validation.success) {
+      downloadLevel(validation.data);
+    }
+  };
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    // Reset so picking the same file again still fires a change event
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      loadLevel(await readLevelFile(file));
+      setImportError(null);
+    } catch (error) {
+      setImportError(error instanceof Error ? error.message : 'Could not load level');
+    }
+  };
+
+  return (
+    <div className="absolute inset-0 overflow-y-auto bg-stone-950/95 text-amber-100">
+      <div className="mx-auto flex max-w-5xl flex-col gap-4 p-4">
+        <div className="flex items-center justify-between">
+          <h1 className="text-3xl font-bold text-amber-500">Level Editor</h1>
+          <div className="flex items-center gap-2">
+            <select
+              className={selectClass + ' w-44'}
+              value=""
+              onChange={(e) => loadLevel(LEVELS[Number(e.target.value)])}
+            >
+              <option value="" disabled>Load built-in level…</option>
+              {Array.from({ length: LEVEL_COUNT }, (_, i) => (
+                <option key={i + 1} value={i + 1}>Level {i + 1}</option>
+              ))}
+            </select>
+            <Button
+              variant="outline"
+              className="bg-transparent hover:bg-amber-900/60 text-amber-300 border border-amber-700"
+              onClick={onExit}
+            >
+              Back
+            </Button>
+          </div>
+        </div>
+
+        {/* Level-wide settings */}
+        <div className="grid grid-cols-2 gap-3 rounded-lg border border-amber-800 bg-black/40 p-3 md:grid-cols-4">
+          <NumberField label="Level number" value={draft.level} min={1} step={1}
+            onChange={(value) => updateLevel({ level: value ?? NaN })} />
+          <NumberField label="Money bags" value={draft.goalCount} min={1} max={GRID_CELLS_X} step={1}
+            onChange={(value) => updateLevel({ goalCount: value ?? NaN })} />
+          <NumberField label="Money bag size" value={draft.goalScale} min={0.1} step={0.1}
+            onChange={(value) => updateLevel({ goalScale: value ?? NaN })} />
+          <NumberField label="Time limit (s)" value={draft.timeLimit} min={1} step={5}
+            onChange={(value) => updateLevel({ timeLimit: value ?? NaN })} />
+          <NumberField label="Starting lives" value={draft.startingLives} min={1} step={1}
+            onChange={(value) => updateLevel({ startingLives: value ?? NaN })} />
+          <NumberField label="Start row" value={draft.startRow} min={draft.lanes.length} max={GRID_CELLS_Y - 1} step={1}
+            onChange={(value) => updateLevel({ startRow: value ?? NaN })} />
+          <NumberField label="Sheriff badges" value={draft.badges.count} min={0} step={1}
+            onChange={(value) => updateLevel({ badges: { ...draft.badges, count: value ?? NaN } })} />
+          {EXTRA_POWER_UPS.map(type => (
+            <NumberField key={type} label={POWER_UPS[type].name}
+              value={draft.powerUps?.find(rule => rule.type === type)?.count ?? 0} min={0} step={1}
+              onChange={(value) => updateLevel({ powerUps: setPowerUpCount(draft.powerUps, type, value ?? NaN) })} />
+          ))}
+          <NumberField label="Sheriff arrives (s)" value={draft.sheriff?.delay} min={0} step={5} placeholder="Never"
+            onChange={(value) => updateLevel({ sheriff: value === undefined ? undefined : { delay: value } })} />
+        </div>
+
+        <div className="grid gap-4 md:grid-cols-[1fr_320px]">
+          {/* Lane list, top (money bags) to bottom (start) */}
+          <div className="rounded-lg border border-amber-800 bg-black/40 p-2">
+            {draft.lanes.map((laneConfig, i) => (
+              <button
+                key={i}
+                className={`mb-0.5 flex w-full items-center gap-3 rounded px-2 py-1 text-left text-sm ${LANE_COLORS[laneConfig.type]} ${
+                  i === selectedLane ? 'ring-2 ring-amber-400' : ''
+                }`}
+                onClick={() => selectLane(i)}
+              >
+                <span className="w-6 font-mono text-amber-300">{i}</span>
+                <span className="w-12 font-bold uppercase">{laneConfig.type}</span>
+                <span className="text-amber-100/80">
+                  {i === 0 ? 'Money bags ' : ''}{describeLane(laneConfig)}
+                </span>
+              </button>
+            ))}
+            <div className="mt-1 rounded border border-dashed border-amber-700 px-2 py-1 text-sm text-amber-300/80">
+              Start row {draft.startRow}
+            </div>
+          </div>
+
+          {/* Selected lane */}
+          {lane && (
+            <div className="flex flex-col gap-3 rounded-lg border border-amber-800 bg-black/40 p-3">
+              <h2 className="text-xl font-bold text-amber-300">Lane {selectedLane}</h2>
+
+              <div className="grid grid-cols-3 gap-1">
+                {(['safe', 'road', 'river'] as const).map(type => (
+                  <Button
+                    key={type}
+                    size="sm"
+                    className={lane.type === type
+                      ? 'bg-amber-700 hover:bg-amber-600 text-white'
+                      : 'bg-black/60 hover:bg-amber-900/60 text-amber-300 border border-amber-800'}
+                    onClick={() => setLaneType(selectedLane, type)}
+                  >
+                    {type}
+                  </Button>
+                ))}
+              </div>
+
+              <div>
+                <Label className="text-amber-300">Direction</Label>
+                <select
+                  className={selectClass}
+                  value={lane.direction}
+                  onChange={(e) => updateLane(selectedLane, { direction: e.target.value as LaneConfig['direction'] })}
+                >
+                  <option value="left">Left</option>
+                  <option value="right">Right</option>
+                </select>
+              </div>
+
+              {lane.type === 'road' && (
+                <>
+                  <div>
+                    <Label className="text-amber-300">Obstacle</Label>
+                    <select
+                      className={selectClass}
+                      value={lane.obstacleType ?? ''}
+                      onChange={(e) => updateLane(selectedLane, {
+                        obstacleType: (e.target.value || undefined) as ObstacleType | undefined,
+                      })}
+                    >
+                      <option value="">None</option>
+                      {Object.values(ObstacleType).map(type => (
+                        <option key={type} value={type}>{type}</option>
+                      ))}
+                    </select>
+                  </div>
+                  <NumberField label="Obstacles per second" value={lane.obstacleFrequency} min={0.01} step={0.05}
+                    onChange={(value) => updateLane(selectedLane, { obstacleFrequency: value })} />
+                  <NumberField label="Speed multiplier" value={lane.obstacleSpeedMultiplier} min={0.1} step={0.1}
+                    placeholder="1" onChange={(value) => updateLane(selectedLane, { obstacleSpeedMultiplier: value })} />
+                  <FlagField label="Badge row" value={lane.badges}
+                    onChange={(value) => updateLane(selectedLane, { badges: value })} />
+                </>
+              )}
+
+              {lane.type === 'river' && (
+                <>
+                  <div>
+                    <Label className="text-amber-300">Platforms</Label>
+                    <select
+                      className={selectClass}
+                      value={lane.platformType ?? PlatformType.LOG}
+                      onChange={(e) => updateLane(selectedLane, { platformType: e.target.value as PlatformType })}
+                    >
+                      {Object.values(PlatformType).map(type => (
+                        <option key={type} value={type}>{type}</option>
+                      ))}
+                    </select>
+                  </div>
+                  <NumberField label="Gap (cells)" value={lane.platformGap} min={0.1} step={0.1}
+                    placeholder="1.5" onChange={(value) => updateLane(selectedLane, { platformGap: value })} />
+                  <NumberField label="Speed multiplier" value={lane.obstacleSpeedMultiplier} min={0.1} step={0.1}
+                    placeholder="1" onChange={(value) => updateLane(selectedLane, { obstacleSpeedMultiplier: value })} />
+                </>
+              )}
+
+              {lane.type === 'safe' && (
+                <>
+                  <FlagField label="Coin row" value={lane.coins}
+                    onChange={(value) => updateLane(selectedLane, { coins: value })} />
+                  <div>
+                    <Label className="text-amber-300">Terrain (click to cycle)</Label>
+                    <div className="mt-1 grid grid-cols-10 gap-0.5">
+                      {Array.from({ length: GRID_CELLS_X }, (_, column) => {
+                        const terrain = getTerrainAt(lane, column);
+                        const next = TERRAIN_CYCLE[(TERRAIN_CYCLE.indexOf(terrain) + 1) % TERRAIN_CYCLE.length];
+                        return (
+                          <button
+                            key={column}
+                            className="h-8 rounded bg-amber-900/60 text-base hover:bg-amber-800"
+                            title={terrain ?? 'empty'}
+                            onClick={() => updateLane(selectedLane, { terrain: setTerrainAt(lane, column, next) })}
+                          >
+                            {terrain ? TERRAIN_LABELS[terrain] : ''}
+                          </button>
+                        );
+                      })}
+                    </div>
+                  </div>
+                </>
+              )}
+
+              <div className="grid grid-cols-2 gap-1">
+                <Button size="sm" variant="outline" className="bg-transparent text-amber-300 border-amber-700"
+                  onClick={() => addLane(selectedLane)}>
+                  <Plus className="mr-1 h-4 w-4" /> Above
+                </Button>
+                <Button size="sm" variant="outline" className="bg-transparent text-amber-300 border-amber-700"
+                  onClick={() => addLane(selectedLane + 1)}>
+                  <Plus className="mr-1 h-4 w-4" /> Below
+                </Button>
+                <Button size="sm" variant="outline" className="bg-transparent text-amber-300 border-amber-700"
+                  onClick={() => moveLane(selectedLane, -1)}>
+                  <ArrowUp className="mr-1 h-4 w-4" /> Move up
+                </Button>
+                <Button size="sm" variant="outline" className="bg-transparent text-amber-300 border-amber-700"
+                  onClick={() => moveLane(selectedLane, 1)}>
+                  <ArrowDown className="mr-1 h-4 w-4" /> Move down
+                </Button>
+                <Button size="sm" variant="outline" className="col-span-2 bg-transparent text-red-400 border-red-800"
+                  onClick={() => removeLane(selectedLane)}>
+                  <Trash2 className="mr-1 h-4 w-4" /> Delete lane
+                </Button>
+              </div>
+            </div>
+          )}
+        </div>
+
+        {errors.length > 0 && (
+          <ul className="rounded-lg border border-red-800 bg-red-950/60 p-3 text-sm text-red-300">
+            {errors.map((error, i) => (
+              <li key={i}>{error}</li>
+            ))}
+          </ul>
+        )}
+
+        {lastPlaytest && (
+          <p className="text-sm text-amber-300">
+            Last play-test: {lastPlaytest === 'complete' ? 'every money bag collected' : 'the outlaw was caught'}
+          </p>
+        )}
+
+        <div className="flex flex-wrap items-center gap-2">
+          <Button
+            className="bg-amber-700 hover:bg-amber-600 text-white border border-amber-500"
+            disabled={!validation.success}
+            onClick={handlePlayTest}
+          >
+            <Play className="mr-2 h-4 w-4" /> Play-test
+          </Button>
+          <Button
+            variant="outline"
+            className="bg-amber-900/70 hover:bg-amber-800 text-amber-300 border border-amber-700"
+            disabled={!validation.success}
+            onClick={handleExport}
+          >
+            <Download className="mr-2 h-4 w-4" /> Export JSON
+          </Button>
+          <input
+            ref={importInputRef}
+            type="file"
+            accept="application/json,.json"
+            className="hidden"
+            onChange={handleImport}
+          />
+          <Button
+            variant="outline"
+            className="bg-transparent hover:bg-amber-900/60 text-amber-300 border border-amber-700"
+            onClick={() => importInputRef.current?.click()}
+          >
+            <Upload className="mr-2 h-4 w-4" /> Import JSON
+          </Button>
+          {importError && <p className="text-red-400 text-sm">{importError}</p>}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+interface NumberFieldProps {
+  label: string;
+  value: number | undefined;
+  min?: number;
+  max?: number;
+  step: number;
+  placeholder?: string;
+  onChange: (value: number | undefined) => void;
+}
+
+const NumberField: React.FC<NumberFieldProps> = ({ label, value, min, max, step, placeholder, onChange }) => (
+  <div>
+    <Label className="text-amber-300">{label}</Label>
+    <Input
+      type="number"
+      className="border-amber-700 bg-black/60 text-amber-100"
+      value={value === undefined || Number.isNaN(value) ? '' : value}
+      min={min}
+      max={max}
+      step={step}
+      placeholder={placeholder}
+      onChange={(e) => onChange(parseOptionalNumber(e.target.value))}
+    />
+  </div>
+);
+
+interface FlagFieldProps {
+  label: string;
+  value: boolean | undefined;
+  onChange: (value: boolean | undefined) => void;
+}
+
+const FlagField: React.FC<FlagFieldProps> = ({ label, value, onChange }) => (
+  <div>
+    <Label className="text-amber-300">{label}</Label>
+    <select
+      className={selectClass}
+      value={toFlagValue(value)}
+      onChange={(e) => onChange(fromFlagValue(e.target.value as FlagValue))}
+    >
+      <option value="auto">Level rules</option>
+      <option value="on">Always</option>
+      <option value="off">Never</option>
+    </select>
+  </div>
+);
+
+export default LevelEditor;
@@ -0,0 +1,150 @@
+import React, { useState } from "react";
+import { Card, CardContent, CardFooter } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Accessibility, Gamepad2, Keyboard, Pause, Volume2, VolumeX } from "lucide-react";
+import { useAudio } from "@/lib/stores/useAudio";
+import { useTouchControls } from "@/lib/stores/useTouchControls";
+import { useKeyBindings } from "@/lib/stores/useKeyBindings";
+import { describeKey } from "@/lib/input";
+import { useConfirmAction } from "@/hooks/use-confirm-action";
+import KeyBindingsPanel from "./KeyBindingsPanel";
+import AccessibilityPanel from "./AccessibilityPanel";
+import AudioPanel from "./AudioPanel";
+
+interface PauseMenuProps {
+  onResume: () => void;
+  onRestartLevel: () => void;
+  onQuit: () => void;
+  restartIsPractice?: boolean; // Restarting gives up a ranked daily attempt
+}
+
+const PauseMenu: React.FC<PauseMenuProps> = ({ onResume, onRestartLevel, onQuit, restartIsPractice = false }) => {
+  const [showSettings, setShowSettings] = useState(false);
+  const [panel, setPanel] = useState<"controls" | "accessibility" | "sound" | null>(null); // Settings page open over the menu
+  const isMuted = useAudio(state => state.isMuted);
+  const { showDPad, setShowDPad } = useTouchControls();
+  const pauseKeys = useKeyBindings(state => state.bindings.pause);
+  useConfirmAction(panel ? () => {} : showSettings ? () => setShowSettings(false) : onResume);
+
+  if (panel) {
+    return (
+      <div className="absolute inset-0 flex items-center justify-center bg-black/60 z-20">
+        {panel === "controls" ? (
+          <KeyBindingsPanel onClose={() => setPanel(null)} />
+        ) : panel === "sound" ? (
+          <AudioPanel onClose={() => setPanel(null)} />
+        ) : (
+          <AccessibilityPanel onClose={() => setPanel(null)} />
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <div className="absolute inset-0 flex items-center justify-center bg-black/60 z-20">
+      <Card className="relative w-[90%] max-w-sm border-2 border-amber-800 bg-black/70 text-white shadow-2xl">
+        <CardContent className="pt-6 text-center">
+          <div className="flex justify-center mb-2">
+            <Pause className="h-12 w-12 text-amber-400" />
+          </div>
+          <h1 className="text-3xl font-bold mb-1 text-amber-500">
+            {showSettings ? "Settings" : "Paused"}
+          </h1>
+          {!showSettings && (
+            <p className="text-sm text-amber-200">Press {pauseKeys.map(describeKey).join(" or ")} to get back in the saddle</p>
+          )}
+        </CardContent>
+
+        {showSettings ? (
+          <CardFooter className="flex flex-col gap-3 items-center">
+            <Button
+              size="lg"
+              onClick={() => setPanel("sound")}
+              className="w-[200px] bg-amber-800 hover:bg-amber-700 text-white border border-amber-500"
+            >
+              {isMuted ? <VolumeX className="h-4 w-4 mr-2" /> : <Volume2 className="h-4 w-4 mr-2" />}
+              Sound{isMuted ? ": Muted" : ""}
+            </Button>
+
+            <Button
+              size="lg"
+              onClick={() => setShowDPad(!showDPad)}
+              className="w-[200px] bg-amber-800 hover:bg-amber-700 text-white border border-amber-500"
+            >
+              <Gamepad2 className="h-4 w-4 mr-2" />
+              Touch D-pad: {showDPad ? "On" : "Off"}
+            </Button>
+
+            <Button
+              size="lg"
+              onClick={() => setPanel("controls")}
+              className="w-[200px] bg-amber-800 hover:bg-amber-700 text-white border border-amber-500"
+            >
+              <Keyboard className="h-4 w-4 mr-2" />
+              Controls
+            </Button>
+
+            <Button
+              size="lg"
+              onClick={() => setPanel("accessibility")}
+              className="w-[200px] bg-amber-800 hover:bg-amber-700 text-white border border-amber-500"
+            >
+              <Accessibility className="h-4 w-4 mr-2" />
+              Accessibility
+            </Button>
+
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setShowSettings(false)}
+              className="w-[200px] bg-transparent hover:bg-amber-900/60 text-amber-300 border border-amber-700"
+            >
+              Back
+            </Button>
+          </CardFooter>
+        ) : (
+          <CardFooter className="flex flex-col gap-3 items-center">
+            <Button
+              size="lg"
+              onClick={onResume}
+              className="w-[200px] bg-amber-700 hover:bg-amber-600 text-white border border-amber-500"
+            >
+              Resume
+            </Button>
+
+            <Button
+              size="lg"
+              onClick={onRestartLevel}
+              className="w-[200px] bg-amber-800 hover:bg-amber-700 text-white border border-amber-500"
+            >
+              {restartIsPractice ? "Restart as Practice" : "Restart Level"}
+            </Button>
+
+            {restartIsPractice && (
+              <p className="text-xs text-amber-200">Restarting ends your ranked ride for today</p>
+            )}
+
+            <Button
+              size="default"
+              onClick={() => setShowSettings(true)}
+              className="w-[200px] bg-amber-900 hover:bg-amber-800 text-white border border-amber-600"
+            >
+              Settings
+            </Button>
+
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={onQuit}
+              className="w-[200px] bg-transparent hover:bg-amber-900/60 text-amber-300 border border-amber-700"
+            >
+              Quit to Saloon
+            </Button>
+          </CardFooter>
+        )}
+      </Card>
+    </div>
+  );
+};
+
+export default PauseMenu;
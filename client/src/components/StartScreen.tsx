@@ -1,13 +1,74 @@
-import React from 'react';
+import React, { useRef, useState } from 'react';
 import { Card, CardContent, CardFooter } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
+import { readReplayFile } from '@/lib/replay';
+import type { Replay } from '@shared/game/replay';
+import { LEVEL_COUNT } from '@shared/game/levels';
+import { DIFFICULTY_PRESETS, Difficulty } from '@shared/game/constants';
+import { useDifficulty } from '@/lib/stores/useDifficulty';
+import { useKeyBindings } from '@/lib/stores/useKeyBindings';
+import { KEYS_PER_ACTION, describeKey, type InputAction, type KeyBindings } from '@/lib/input';
+import { useConfirmAction } from '@/hooks/use-confirm-action';
+import KeyBindingsPanel from './KeyBindingsPanel';
+import AccessibilityPanel from './AccessibilityPanel';
+import AudioPanel from './AudioPanel';
+import DailyAttemptPanel from './DailyAttemptPanel';
+import type { DailyAttempt } from '@/lib/daily';
+
+const DIFFICULTY_HINTS: Record<Difficulty, string> = {
+  [Difficulty.GREENHORN]: 'Slower traffic, more lives and more time',
+  [Difficulty.GUNSLINGER]: 'The frontier as it was meant to be',
+  [Difficulty.LEGEND]: 'Faster traffic, fewer lives, no time to spare',
+};
+
+const MOVE_ACTIONS: InputAction[] = ['moveUp', 'moveLeft', 'moveDown', 'moveRight'];
+
+/**
+ * The bound move keys as sets, one per binding slot - "WASD" rather than
+ * "W, A, S or D". Keys with longer names are split up with slashes.
+ */
+function describeMoveKeys(bindings: KeyBindings): string[] {
+  return Array.from({ length: KEYS_PER_ACTION }, (_, slot) => {
+    const names = MOVE_ACTIONS
+      .map(action => bindings[action][slot])
+      .filter(keyCode => keyCode !== undefined)
+      .map(describeKey);
+    return names.join(names.every(name => name.length === 1) ? '' : '/');
+  }).filter(keys => keys.length > 0);
+}
 
 interface StartScreenProps {
   onStart: () => void;
+  onStartEndless?: () => void;
+  onStartDaily?: (attempt: DailyAttempt | null) => void; // Null for an unranked practice run
   showLeaderboard?: () => void; // Add optional function for showing leaderboard
+  onWatchReplay?: (replay: Replay) => void;
+  onOpenEditor?: () => void;
 }
 
-const StartScreen: React.FC<StartScreenProps> = ({ onStart, showLeaderboard }) => {
+const StartScreen: React.FC<StartScreenProps> = ({ onStart, onStartEndless, onStartDaily, showLeaderboard, onWatchReplay, onOpenEditor }) => {
+  const replayInputRef = useRef<HTMLInputElement>(null);
+  const [replayError, setReplayError] = useState<string | null>(null);
+  const [panel, setPanel] = useState<'controls' | 'accessibility' | 'sound' | 'daily' | null>(null); // Settings page shown instead of the menu
+  const { difficulty, setDifficulty } = useDifficulty();
+  const bindings = useKeyBindings(state => state.bindings);
+  useConfirmAction(panel ? () => {} : onStart);
+
+  const handleReplayFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    // Reset so picking the same file again still fires a change event
+    event.target.value = '';
+    if (!file || !onWatchReplay) return;
+
+    try {
+      const replay = await readReplayFile(file);
+      setReplayError(null);
+      onWatchReplay(replay);
+    } catch (error) {
+      setReplayError(error instanceof Error ? error.message : 'Could not load replay');
+    }
+  };
+
   return (
     <div 
       className="absolute inset-0 flex items-center justify-center"
@@ -20,46 +81,158 @@ const StartScreen: React.FC<StartScreenProps> = ({ onStart, showLeaderboard }) =
       {/* Semi-transparent overlay to improve text legibility */}
       <div className="absolute inset-0 bg-black/20" />
       
-      <Card className="relative w-[90%] max-w-md border-2 border-amber-800 bg-black/50 text-white shadow-2xl z-10">
-        <CardContent className="pt-6 text-center">
-          <h1 className="text-4xl font-bold mb-2 text-amber-500">High Noon Hustle</h1>
-          <p className="mb-4 text-amber-200">
-            Collect money bags, dodge wild west obstacles, and escape the sheriff across 3 thrilling levels. You have limited lives—use them wisely!
-          </p>
+      {panel === 'controls' ? (
+        <KeyBindingsPanel onClose={() => setPanel(null)} />
+      ) : panel === 'accessibility' ? (
+        <AccessibilityPanel onClose={() => setPanel(null)} />
+      ) : panel === 'sound' ? (
+        <AudioPanel onClose={() => setPanel(null)} />
+      ) : panel === 'daily' && onStartDaily ? (
+        <DailyAttemptPanel onStart={onStartDaily} onClose={() => setPanel(null)} />
+      ) : (
+        <Card className="relative w-[90%] max-w-md border-2 border-amber-800 bg-black/50 text-white shadow-2xl z-10">
+          <CardContent className="pt-6 text-center">
+            <h1 className="text-4xl font-bold mb-2 text-amber-500">High Noon Hustle</h1>
+            <p className="mb-4 text-amber-200">
+              Collect money bags, dodge wild west obstacles, and escape the sheriff across {LEVEL_COUNT} thrilling levels. You have limited lives—use them wisely!
+            </p>
 
-          <div className="mb-6 text-left bg-black/40 border border-amber-800 p-4 rounded-lg">
-            <h2 className="text-xl font-bold mb-2 text-amber-300">How to Play:</h2>
-            <ul className="list-disc pl-5 text-amber-200">
-              <li>Use arrow keys or WASD to move your cowboy</li>
-              <li>Dodge horses, trains, and wild west obstacles</li>
-              <li>Collect money bags for extra points</li>
-              <li>Escape the sheriff by reaching the safe zones</li>
-              <li>Complete all 3 thrilling levels to win</li>
-            </ul>
-          </div>
-        </CardContent>
+            <div className="mb-6 text-left bg-black/40 border border-amber-800 p-4 rounded-lg">
+              <h2 className="text-xl font-bold mb-2 text-amber-300">How to Play:</h2>
+              <ul className="list-disc pl-5 text-amber-200">
+                <li>
+                  Use {describeMoveKeys(bindings).join(' or ')} to move your cowboy,
+                  {' '}{bindings.pause.map(describeKey).join(' or ')} to pause - rebind them under Controls
+                </li>
+                <li>On a phone, swipe to move or tap to hop forward</li>
+                <li>Dodge horses, trains, and wild west obstacles</li>
+                <li>Collect money bags for extra points</li>
+                <li>Keep pushing forward without a stumble to build a score combo</li>
+                <li>Outrun the sheriff - grab a badge to send him packing</li>
+                <li>Complete all {LEVEL_COUNT} thrilling levels to win</li>
+              </ul>
+            </div>
+          </CardContent>
         
-        <CardFooter className="flex flex-col items-center space-y-3">
-          <Button 
-            size="lg" 
-            className="w-[200px] bg-amber-700 hover:bg-amber-600 text-white border border-amber-500"
-            onClick={onStart}
-          >
-            Start Game
-          </Button>
+          <CardFooter className="flex flex-col items-center space-y-3">
+            <div className="flex flex-col items-center">
+              <div className="flex gap-2">
+                {Object.values(Difficulty).map(option => (
+                  <Button
+                    key={option}
+                    size="sm"
+                    variant="outline"
+                    className={`border border-amber-700 ${
+                      difficulty === option
+                        ? 'bg-amber-700 text-white hover:bg-amber-600'
+                        : 'bg-transparent text-amber-300 hover:bg-amber-900/60'
+                    }`}
+                    onClick={() => setDifficulty(option)}
+                  >
+                    {DIFFICULTY_PRESETS[option].name}
+                  </Button>
+                ))}
+              </div>
+              <p className="mt-1 text-xs text-amber-200">{DIFFICULTY_HINTS[difficulty]}</p>
+            </div>
+          
+            <Button 
+              size="lg" 
+              className="w-[200px] bg-amber-700 hover:bg-amber-600 text-white border border-amber-500"
+              onClick={onStart}
+            >
+              Start Game
+            </Button>
+          
+            {onStartEndless && (
+              <Button 
+                size="lg" 
+                className="w-[200px] bg-amber-800 hover:bg-amber-700 text-white border border-amber-500"
+                onClick={onStartEndless}
+              >
+                Endless Frontier
+              </Button>
+            )}
           
-          {/* Only show the leaderboard button if the showLeaderboard function is provided */}
-          {showLeaderboard && (
+            {onStartDaily && (
+              <Button 
+                size="lg" 
+                className="w-[200px] bg-amber-800 hover:bg-amber-700 text-white border border-amber-500"
+                onClick={() => setPanel('daily')}
+              >
+                Daily Bounty
+              </Button>
+            )}
+          
+            {/* Only show the leaderboard button if the showLeaderboard function is provided */}
+            {showLeaderboard && (
+              <Button 
+                variant="outline"
+                className="w-[200px] bg-amber-900/70 hover:bg-amber-800 text-amber-300 border border-amber-700 mt-2"
+                onClick={showLeaderboard}
+              >
+                Most Wanted List
+              </Button>
+            )}
+          
+            {onWatchReplay && (
+              <>
+                <input
+                  ref={replayInputRef}
+                  type="file"
+                  accept="application/json,.json"
+                  className="hidden"
+                  onChange={handleReplayFile}
+                />
+                <Button 
+                  variant="outline"
+                  className="w-[200px] bg-transparent hover:bg-amber-900/60 text-amber-300 border border-amber-700"
+                  onClick={() => replayInputRef.current?.click()}
+                >
+                  Watch Replay
+                </Button>
+                {replayError && (
+                  <p className="text-red-400 text-sm">{replayError}</p>
+                )}
+              </>
+            )}
+          
+            {onOpenEditor && (
+              <Button 
+                variant="outline"
+                className="w-[200px] bg-transparent hover:bg-amber-900/60 text-amber-300 border border-amber-700"
+                onClick={onOpenEditor}
+              >
+                Level Editor
+              </Button>
+            )}
+          
+            <Button 
+              variant="outline"
+              className="w-[200px] bg-transparent hover:bg-amber-900/60 text-amber-300 border border-amber-700"
+              onClick={() => setPanel('controls')}
+            >
+              Controls
+            </Button>
+            
+            <Button 
+              variant="outline"
+              className="w-[200px] bg-transparent hover:bg-amber-900/60 text-amber-300 border border-amber-700"
+              onClick={() => setPanel('accessibility')}
+            >
+              Accessibility
+            </Button>
+            
             <Button 
               variant="outline"
-              className="w-[200px] bg-amber-900/70 hover:bg-amber-800 text-amber-300 border border-amber-700 mt-2"
-              onClick={showLeaderboard}
+              className="w-[200px] bg-transparent hover:bg-amber-900/60 text-amber-300 border border-amber-700"
+              onClick={() => setPanel('sound')}
             >
-              Most Wanted List
+              Sound
             </Button>
-          )}
-        </CardFooter>
-      </Card>
+          </CardFooter>
+        </Card>
+      )}
     </div>
   );
 };
@@ -0,0 +1,40 @@
+import React from "react";
+import { ChevronDown, ChevronLeft, ChevronRight, ChevronUp } from "lucide-react";
+import type { InputAction } from "@/lib/input";
+
+interface TouchControlsProps {
+  onPress: (action: InputAction) => void;
+}
+
+const BUTTONS: { action: InputAction; label: string; Icon: typeof ChevronUp; position: string }[] = [
+  { action: "moveUp", label: "Up", Icon: ChevronUp, position: "col-start-2 row-start-1" },
+  { action: "moveLeft", label: "Left", Icon: ChevronLeft, position: "col-start-1 row-start-2" },
+  { action: "moveRight", label: "Right", Icon: ChevronRight, position: "col-start-3 row-start-2" },
+  { action: "moveDown", label: "Down", Icon: ChevronDown, position: "col-start-2 row-start-3" },
+];
+
+/**
+ * Translucent on-screen D-pad for phones
+ */
+const TouchControls: React.FC<TouchControlsProps> = ({ onPress }) => {
+  return (
+    <div className="absolute bottom-6 right-6 grid grid-cols-3 grid-rows-3 gap-1 opacity-60">
+      {BUTTONS.map(({ action, label, Icon, position }) => (
+        <button
+          key={label}
+          aria-label={label}
+          className={`${position} flex h-14 w-14 items-center justify-center rounded-full bg-black/50 text-white active:bg-amber-700/80`}
+          // Pointer down rather than click, so a hop doesn't wait for the finger to lift
+          onPointerDown={(e) => {
+            e.preventDefault();
+            onPress(action);
+          }}
+        >
+          <Icon className="h-8 w-8" />
+        </button>
+      ))}
+    </div>
+  );
+};
+
+export default TouchControls;
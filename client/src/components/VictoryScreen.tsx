@@ -1,18 +1,21 @@
 import React, { useEffect, useState } from 'react';
 import { Card, CardContent, CardFooter } from './ui/card';
 import { Button } from './ui/button';
-import { PartyPopper, Trophy } from 'lucide-react';
+import { Download, PartyPopper, Trophy } from 'lucide-react';
+import { useConfirmAction } from '@/hooks/use-confirm-action';
 
 interface VictoryScreenProps {
   finalScore: number;
   onRestart: () => void;
   showLeaderboard: () => void;
+  onDownloadReplay?: () => void;
 }
 
 const VictoryScreen: React.FC<VictoryScreenProps> = ({ 
   finalScore, 
   onRestart,
-  showLeaderboard
+  showLeaderboard,
+  onDownloadReplay
 }) => {
   const [qualifiesForHighScore, setQualifiesForHighScore] = useState(false);
   
@@ -32,6 +35,9 @@ const VictoryScreen: React.FC<VictoryScreenProps> = ({
     // Trigger high score state in Game component
     window.dispatchEvent(new CustomEvent('show-high-score-entry'));
   };
+  
+  // A controller's A button posts a qualifying score, or rides again
+  useConfirmAction(qualifiesForHighScore ? handleNextClick : onRestart);
   return (
     <div 
       className="absolute inset-0 flex items-center justify-center"
@@ -94,6 +100,18 @@ const VictoryScreen: React.FC<VictoryScreenProps> = ({
             View Most Wanted
           </Button>
           
+          {onDownloadReplay && (
+            <Button 
+              variant="outline"
+              size="sm" 
+              onClick={onDownloadReplay} 
+              className="w-[200px] bg-transparent hover:bg-amber-900/60 text-amber-300 border border-amber-700"
+            >
+              <Download className="h-4 w-4 mr-2" />
+              Download Replay
+            </Button>
+          )}
+          
           {qualifiesForHighScore && (
             <p className="text-amber-300 text-sm mt-2 font-bold">
               New high score! Post your bounty to the most wanted list
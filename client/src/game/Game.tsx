@@ -1,44 +1,86 @@
 import { useEffect, useRef, useState } from 'react';
 import p5 from 'p5';
 import { GameManager } from './GameManager';
+import { SimulationClock } from './SimulationClock';
 import StartScreen from '../components/StartScreen';
 import GameOverScreen from '../components/GameOverScreen';
 import LevelCompleteScreen from '../components/LevelCompleteScreen';
 import VictoryScreen from '../components/VictoryScreen';
 import HUD from '../components/HUD';
+import PauseMenu from '../components/PauseMenu';
+import TouchControls from '../components/TouchControls';
+import Announcer, { type Announcement } from '../components/Announcer';
 import { useAudio } from '../lib/stores/useAudio';
-import { KEYS, PLAYER_MOVE_COOLDOWN, GameState } from './constants';
+import { useDifficulty } from '../lib/stores/useDifficulty';
+import { useTouchControls } from '../lib/stores/useTouchControls';
+import { useAccessibility } from '../lib/stores/useAccessibility';
+import { useIsMobile } from '../hooks/use-is-mobile';
+import { recognizeGesture, type TouchSample } from '../lib/gestures';
+import { GamepadPoller, type GamepadFrame } from '../lib/gamepad';
+import {
+  getActionForKey,
+  getActionDirection,
+  moveButtonFocus,
+  confirmFocused,
+  isFormField,
+  type InputAction,
+} from '../lib/input';
+import { useKeyBindings } from '../lib/stores/useKeyBindings';
+import { PLAYER_MOVE_COOLDOWN, GameState, type GameMode } from './constants';
+import type { ComboMeter, PowerUpTimer } from './GameManager';
+import { createSeed } from '@shared/game/random';
 import HighScoreEntry from '../components/HighScoreEntry';
 import LeaderboardDisplay from '../components/LeaderboardDisplay';
 import { isHighScore } from '../lib/leaderboard';
+import { downloadReplay } from '../lib/replay';
+import { createReplay, type Replay } from '@shared/game/replay';
+import type { LevelConfig } from '@shared/game/levels';
+import { createBreakdown, type ScoreBreakdown } from '@shared/game/scoring';
+import LevelEditor from '../components/LevelEditor';
+import { useLevelEditor, type PlaytestResult } from '../lib/stores/useLevelEditor';
+import { fetchDailyChallenge, type DailyAttempt } from '../lib/daily';
+import { getDailyChallenge, type DailyChallenge } from '@shared/game/daily';
+import { Pause } from 'lucide-react';
 import '../styles/leaderboard.css';
 
 // Game component that manages the p5.js sketch
 // Extended game states to include high score and leaderboard
-type GameStateType = 'start' | 'playing' | 'gameOver' | 'levelComplete' | 'victory' | 'highScore' | 'leaderboard';
+type GameStateType = 'start' | 'playing' | 'gameOver' | 'levelComplete' | 'victory' | 'highScore' | 'leaderboard' | 'editor';
 
 const Game = () => {
   const gameContainerRef = useRef<HTMLDivElement>(null);
   const p5InstanceRef = useRef<p5 | null>(null);
   const gameManagerRef = useRef<GameManager | null>(null);
+  const clockRef = useRef(new SimulationClock());
   const gameStateRef = useRef<GameStateType>('start');
+  const watchingReplayRef = useRef<Replay | null>(null); // Recording being played back, if any
+  const playtestLevelRef = useRef<LevelConfig | null>(null); // Editor draft being play-tested, if any
+  const dailyAttemptRef = useRef<DailyAttempt | null>(null); // Ranked attempt at the daily bounty being ridden, if any
+  const gameModeRef = useRef<GameMode>('story');
+  const pausedRef = useRef(false);
+  const runResultRef = useRef<'gameOver' | 'victory'>('gameOver'); // How the last run ended, for returning from the leaderboard
   const [gameState, setGameState] = useState<GameStateType>('start');
+  const [gameMode, setGameMode] = useState<GameMode>('story');
+  const [dailyChallenge, setDailyChallenge] = useState<DailyChallenge | null>(null); // Bounty being played in daily mode
   const [currentLevel, setCurrentLevel] = useState(1);
   const [score, setScore] = useState(0);
+  const [distance, setDistance] = useState(0); // Rows travelled in endless mode
+  const [powerUps, setPowerUps] = useState<PowerUpTimer[]>([]); // Timed power-ups still running
+  const [combo, setCombo] = useState<ComboMeter>({ multiplier: 1, progress: 0 });
+  const [timeRemaining, setTimeRemaining] = useState<number | null>(null); // Whole seconds left on the level clock
+  const [announcement, setAnnouncement] = useState<Announcement | null>(null); // Latest game event for screen readers
+  const [levelBreakdown, setLevelBreakdown] = useState<ScoreBreakdown>(createBreakdown); // Points scored in the level just finished
   const [lives, setLives] = useState(3);
+  const [runSeed, setRunSeed] = useState(createSeed);
   const [isInitialized, setIsInitialized] = useState(false);
   const [showingLeaderboard, setShowingLeaderboard] = useState(false);
+  const [watchingReplay, setWatchingReplay] = useState(false);
+  const [playtesting, setPlaytesting] = useState(false);
+  const [paused, setPaused] = useState(false);
+  const isMobile = useIsMobile();
+  const showDPad = useTouchControls(state => state.showDPad);
   
-  const { 
-    setBackgroundMusic, 
-    setHitSound, 
-    setSuccessSound,
-    setGruntSound,
-    setGameOverSound,
-    setWompWompSound,
-    toggleMute, 
-    backgroundMusic 
-  } = useAudio();
+  const difficulty = useDifficulty(state => state.difficulty);
   
   // Update ref when gameState changes
   useEffect(() => {
@@ -46,141 +88,16 @@ const Game = () => {
     console.log("Game state ref updated to:", gameState);
   }, [gameState]);
 
-  // Helper function to test audio loading
-  const testLoadAudio = (path: string): Promise<boolean> => {
-    return new Promise((resolve) => {
-      const audio = new Audio(path);
-      audio.addEventListener('canplaythrough', () => {
-        console.log(`Audio file loaded successfully: ${path}`);
-        resolve(true);
-      });
-      audio.addEventListener('error', (e) => {
-        console.error(`Error loading audio file: ${path}`, e);
-        resolve(false);
-      });
-      // Set a timeout in case the event never fires
-      setTimeout(() => {
-        if (!audio.readyState) {
-          console.warn(`Audio loading timed out: ${path}`);
-          resolve(false);
-        }
-      }, 3000);
-    });
-  };
+  useEffect(() => {
+    gameModeRef.current = gameMode;
+  }, [gameMode]);
 
-  // Initialize audio
+  // Load the sounds into the mixer, and fade the music out if the game goes away
   useEffect(() => {
     console.log("Initializing audio...");
-    
-    // Try multiple base URL patterns for more robust loading
-    // First try the current origin, then try relative paths
-    const baseUrlOptions = [
-      window.location.origin,
-      '',
-      '.',
-      '/client/public'
-    ];
-    
-    // Try multiple directory patterns
-    const dirOptions = [
-      '/assets/sounds/',
-      '/sounds/'
-    ];
-    
-    console.log("Trying multiple base URL options for audio:", baseUrlOptions);
-    
-    // Function to try loading audio from multiple base URLs and directories
-    const tryLoadAudio = async (filename: string, volume: number = 0.5): Promise<HTMLAudioElement> => {
-      // Try each base URL and directory combination
-      for (const baseUrl of baseUrlOptions) {
-        for (const dir of dirOptions) {
-          const fullPath = `${baseUrl}${dir}${filename}`;
-          console.log(`Attempting to load audio from: ${fullPath}`);
-          try {
-            // First test if we can load it
-            const success = await testLoadAudio(fullPath);
-            if (success) {
-              console.log(`Successfully loaded audio from: ${fullPath}`);
-              const audio = new Audio(fullPath);
-              audio.volume = volume;
-              return audio;
-            }
-          } catch (error) {
-            console.warn(`Failed to load audio from ${fullPath}:`, error);
-          }
-        }
-      }
-      
-      // If we get here, we couldn't load from any path
-      console.error(`Failed to load audio file ${filename} from any path`);
-      
-      // Use hit.mp3 as a fallback for most sounds since we know it works
-      if (filename !== 'hit.mp3' && filename !== 'background.mp3') {
-        try {
-          console.log(`Trying to use hit.mp3 as fallback for ${filename}`);
-          for (const baseUrl of baseUrlOptions) {
-            const fallbackPath = `${baseUrl}/assets/sounds/hit.mp3`;
-            const success = await testLoadAudio(fallbackPath);
-            if (success) {
-              console.log(`Using fallback audio from: ${fallbackPath} for ${filename}`);
-              const audio = new Audio(fallbackPath);
-              audio.volume = volume;
-              return audio;
-            }
-          }
-        } catch (error) {
-          console.error(`Fallback also failed:`, error);
-        }
-      }
-      
-      // Last resort - create dummy audio element
-      return new Audio();
-    };
-    
-    let bgMusic: HTMLAudioElement;
-    
-    // We'll only use standard audio files
-
-    // We'll use the standard grunt.mp3 which is working fine
-
-    // Load all audio files with the robust method
-    Promise.all([
-      tryLoadAudio('background.mp3', 0.3),
-      tryLoadAudio('hit.mp3', 0.5),
-      tryLoadAudio('success.mp3', 0.5),
-      tryLoadAudio('grunt.mp3', 1.0), // Use the regular grunt sound as a backup
-      tryLoadAudio('gameover.mp3', 0.5),
-      tryLoadAudio('wompwomp.mp3', 0.6)
-    ]).then(results => {
-      const [bgMusicLoaded, hitSfx, successSfx, gruntSfx, gameOverSfx, wompWompSfx] = results;
-      console.log("All audio files loaded (or attempted to load)");
-      
-      // Set properties
-      bgMusicLoaded.loop = true;
-      bgMusic = bgMusicLoaded;
-      
-      // Store in global state
-      setBackgroundMusic(bgMusicLoaded);
-      setHitSound(hitSfx);
-      setSuccessSound(successSfx);
-      // Just use the regular grunt sound
-      setGruntSound(gruntSfx);
-      setGameOverSound(gameOverSfx);
-      setWompWompSound(wompWompSfx);
-      
-      console.log("Audio initialization complete");
-    }).catch(error => {
-      console.error("Audio loading failed:", error);
-    });
-    
-    // Clean up
-    return () => {
-      if (bgMusic) {
-        bgMusic.pause();
-        bgMusic.currentTime = 0;
-      }
-    };
-  }, [setBackgroundMusic, setHitSound, setSuccessSound, setGruntSound, setGameOverSound, setWompWompSound]);
+    useAudio.getState().loadSounds();
+    return () => useAudio.getState().stopBackgroundMusic();
+  }, []);
 
   // Initialize p5.js sketch
   useEffect(() => {
@@ -194,10 +111,22 @@ const Game = () => {
       const gameManager = new GameManager(p, {
         onGameOver: async () => {
           console.log("Game over!");
+          runResultRef.current = 'gameOver';
+          
+          if (playtestLevelRef.current) {
+            endPlaytest('failed');
+            return;
+          }
+          
+          if (!isRankedRun()) {
+            sessionStorage.removeItem('qualifiesForHighScore');
+            setGameState('gameOver');
+            return;
+          }
           
           // Check if the score qualifies for the leaderboard
           try {
-            const qualifiesForHighScore = await isHighScore(score);
+            const qualifiesForHighScore = await isHighScore(score, gameModeRef.current, gameManagerRef.current?.getReplay().difficulty);
             console.log("High score qualification check result:", qualifiesForHighScore);
             
             // Always show game over screen first
@@ -216,9 +145,14 @@ const Game = () => {
             setGameState('gameOver');
           }
         },
-        onLevelComplete: (levelScore: number) => {
+        onLevelComplete: (runScore: number, breakdown: ScoreBreakdown) => {
           console.log("Level complete!");
-          setScore(prevScore => prevScore + levelScore);
+          if (playtestLevelRef.current) {
+            endPlaytest('complete');
+            return;
+          }
+          setScore(runScore);
+          setLevelBreakdown(breakdown);
           setGameState('levelComplete');
         },
         onLifeLost: (remainingLives: number) => {
@@ -228,13 +162,40 @@ const Game = () => {
         updateScore: (newScore: number) => {
           setScore(newScore);
         },
+        updateDistance: (newDistance: number) => {
+          setDistance(newDistance);
+        },
+        updatePowerUps: (timers: PowerUpTimer[]) => {
+          setPowerUps(timers);
+        },
+        updateCombo: (meter: ComboMeter) => {
+          setCombo(meter);
+        },
+        updateTimeRemaining: (seconds: number | null) => {
+          setTimeRemaining(seconds);
+        },
+        announce: (message: string) => {
+          setAnnouncement(current => ({ id: (current?.id ?? 0) + 1, message }));
+        },
         onVictory: async (finalScore: number) => {
           console.log("Victory! Game completed with score:", finalScore);
           setScore(finalScore);
+          runResultRef.current = 'victory';
+          
+          if (playtestLevelRef.current) {
+            endPlaytest('complete');
+            return;
+          }
+          
+          if (!isRankedRun()) {
+            sessionStorage.removeItem('qualifiesForHighScore');
+            setGameState('victory');
+            return;
+          }
           
           // Check if the score qualifies for the leaderboard
           try {
-            const qualifiesForHighScore = await isHighScore(finalScore);
+            const qualifiesForHighScore = await isHighScore(finalScore, gameModeRef.current, gameManagerRef.current?.getReplay().difficulty);
             console.log("High score qualification check result:", qualifiesForHighScore);
             
             // Always show victory screen first
@@ -256,6 +217,7 @@ const Game = () => {
       });
       
       gameManagerRef.current = gameManager;
+      const clock = clockRef.current;
       
       // No subscription needed - we'll use the gameStateRef directly
 
@@ -280,6 +242,8 @@ const Game = () => {
       };
 
       p.draw = () => {
+        handleGamepad(gamepad.poll());
+        
         // Always draw something even if not playing - helps with debugging
         p.background(200);
         
@@ -294,12 +258,22 @@ const Game = () => {
             console.log("Game is playing, frame:", p.frameCount);
           }
           
+          if (pausedRef.current) {
+            // Hold the last frame - the clock banks no time until resumed
+            gameManager.draw(clock.getAlpha());
+            return;
+          }
+          
           // Check for keyboard input
           checkKeys();
           
-          // Update and draw game
-          gameManager.update();
-          gameManager.draw();
+          // Run as many fixed simulation steps as real time allows,
+          // then draw interpolated between the last two steps
+          const alpha = clock.advance(p.millis(), (dt) => gameManager.update(dt));
+          gameManager.draw(alpha);
+        } else {
+          // Don't bank time spent on menus
+          clock.stop();
         }
       };
 
@@ -314,12 +288,78 @@ const Game = () => {
         }
       };
 
+      // Menus are driven by the same actions as play: moves step through the
+      // buttons and confirm presses the focused one
+      const handleMenuAction = (action: InputAction) => {
+        const container = gameContainerRef.current;
+        if (!container) return;
+        
+        if (action === 'confirm') {
+          confirmFocused(container);
+          return;
+        }
+        
+        // Up and left step back through a menu's buttons, down and right step forward
+        const direction = getActionDirection(action);
+        if (direction) {
+          moveButtonFocus(container, direction === 'up' || direction === 'left' ? -1 : 1);
+        }
+      };
+      
+      // Controllers play like the keyboard in a level and drive the menus everywhere else
+      const gamepad = new GamepadPoller();
+      const handleGamepad = (frame: GamepadFrame) => {
+        if (gameStateRef.current === 'editor') return;
+        
+        if (gameStateRef.current === 'playing') {
+          if (frame.start) {
+            togglePause();
+            return;
+          }
+          if (!pausedRef.current) {
+            const direction = getActionDirection(frame.move);
+            if (direction) {
+              gameManager.handleMove(direction);
+            }
+            return;
+          }
+        }
+        
+        if (frame.move !== null) {
+          handleMenuAction(frame.move);
+        }
+        if (frame.confirm || frame.start) {
+          handleMenuAction('confirm');
+        }
+      };
+      
       // Store key states for continuous key detection
       const keyStates: Record<number, boolean> = {};
-      const lastKeyHandled: Record<number, number> = {};
       
       // Handle keyboard input - record key down events
       p.keyPressed = () => {
+        // The level editor's form fields need their keystrokes, as do the
+        // high score name entry and any other form field
+        if (gameStateRef.current === 'editor' || isFormField(document.activeElement)) {
+          return true;
+        }
+        
+        const action = getActionForKey(useKeyBindings.getState().bindings, p.keyCode);
+        
+        if (gameStateRef.current === 'playing' && action === 'pause') {
+          togglePause();
+          return false;
+        }
+        
+        if (gameStateRef.current !== 'playing' || pausedRef.current) {
+          // Moves pressed while paused are dropped rather than played on resume
+          if (action) {
+            handleMenuAction(action);
+            return false;
+          }
+          return true; // Let Tab and other unbound keys work as usual in menus
+        }
+        
         keyStates[p.keyCode] = true;
         return false; // prevent default browser behavior
       };
@@ -337,20 +377,23 @@ const Game = () => {
       // Check for keys that were just pressed
       const checkKeys = () => {
         if (gameStateRef.current === 'playing') {
-          // Only process keys that are pressed (true in keyStates) and haven't been handled yet
-          [KEYS.UP, KEYS.DOWN, KEYS.LEFT, KEYS.RIGHT, KEYS.W, KEYS.A, KEYS.S, KEYS.D].forEach(keyCode => {
+          const bindings = useKeyBindings.getState().bindings;
+          
+          Object.keys(keyStates).map(Number).forEach(keyCode => {
             // Only handle the key if it's pressed and hasn't been handled before
             if (keyStates[keyCode] && !keyPressed[keyCode]) {
               // Mark this key as handled to prevent continuous movement
               keyPressed[keyCode] = true;
               
-              // Try to move the player
-              gameManager.handleKeyPress(keyCode);
+              // Try to move the player if the key is bound to a move
+              const direction = getActionDirection(getActionForKey(bindings, keyCode));
+              if (direction) {
+                gameManager.handleMove(direction);
+              }
             } 
             // If key is released, reset its handled state
             else if (!keyStates[keyCode]) {
               keyPressed[keyCode] = false;
-              delete lastKeyHandled[keyCode];
             }
           });
         }
@@ -390,64 +433,285 @@ const Game = () => {
     };
   }, []);
   
+  // Swipes and taps on the canvas move like the arrow keys
+  useEffect(() => {
+    const container = gameContainerRef.current;
+    if (!container) return;
+    
+    let start: (TouchSample & { id: number }) | null = null;
+    
+    const handleTouchStart = (event: TouchEvent) => {
+      // Overlay buttons handle their own touches
+      if (!(event.target instanceof HTMLCanvasElement) || event.touches.length > 1) {
+        start = null;
+        return;
+      }
+      
+      const touch = event.changedTouches[0];
+      start = { id: touch.identifier, x: touch.clientX, y: touch.clientY, time: event.timeStamp };
+    };
+    
+    const handleTouchEnd = (event: TouchEvent) => {
+      const touch = Array.from(event.changedTouches).find(t => t.identifier === start?.id);
+      if (!start || !touch) return;
+      
+      const action = recognizeGesture(start, { x: touch.clientX, y: touch.clientY, time: event.timeStamp });
+      start = null;
+      if (action !== null) {
+        handleTouchMove(action);
+      }
+    };
+    
+    container.addEventListener('touchstart', handleTouchStart, { passive: true });
+    container.addEventListener('touchend', handleTouchEnd, { passive: true });
+    
+    return () => {
+      container.removeEventListener('touchstart', handleTouchStart);
+      container.removeEventListener('touchend', handleTouchEnd);
+    };
+  }, []);
+  
+  // Pause when the player switches tabs or windows away from a level
+  useEffect(() => {
+    const handleVisibilityChange = () => {
+      if (document.hidden) {
+        pauseGame();
+      }
+    };
+    
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    window.addEventListener('blur', pauseGame);
+    
+    return () => {
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+      window.removeEventListener('blur', pauseGame);
+    };
+  }, []);
+  
   // Update game manager when level changes
   useEffect(() => {
     console.log("Game state or level changed:", gameState, currentLevel);
+    pausedRef.current = false;
+    setPaused(false);
     if (gameManagerRef.current && gameState === 'playing') {
-      console.log("Starting level:", currentLevel);
-      gameManagerRef.current.startLevel(currentLevel);
-      
-      // Get audio functions from store
-      const audioStore = useAudio.getState();
-      
-      // Play background music when game is playing
-      if (audioStore.backgroundMusic && !audioStore.isMuted) {
-        console.log("Attempting to play background music");
-        audioStore.playBackgroundMusic();
+      const playback = watchingReplayRef.current?.levels.find(level => level.level === currentLevel) || null;
+      // Replays play back on the difficulty they were recorded on
+      gameManagerRef.current.setDifficulty(
+        watchingReplayRef.current?.difficulty ?? useDifficulty.getState().difficulty
+      );
+      gameManagerRef.current.setSlowTraffic(
+        watchingReplayRef.current?.slowTraffic ?? useAccessibility.getState().slowTraffic
+      );
+      gameManagerRef.current.setMoveBufferWindow(
+        watchingReplayRef.current?.moveBufferWindow ?? useAccessibility.getState().moveBufferWindow
+      );
+      if (gameMode === 'endless') {
+        console.log("Starting endless run");
+        gameManagerRef.current.startEndless(runSeed, playback);
+      } else if (gameMode === 'daily' && dailyChallenge) {
+        console.log("Starting daily bounty for", dailyChallenge.date);
+        gameManagerRef.current.startDaily(dailyChallenge, playback);
+      } else {
+        console.log("Starting level:", currentLevel);
+        gameManagerRef.current.startLevel(currentLevel, runSeed, playback, playtestLevelRef.current);
       }
+      clockRef.current.reset();
+      
+      // Play background music when game is playing - it carries on from
+      // one level to the next
+      useAudio.getState().playBackgroundMusic();
     }
-  }, [currentLevel, gameState]);
+  }, [currentLevel, gameState, runSeed, gameMode, dailyChallenge]);
 
+  // Replays, assisted runs and daily bounty practice runs never qualify for
+  // the leaderboard. Only reads refs, for the p5 sketch's callbacks.
+  const isRankedRun = () => {
+    if (watchingReplayRef.current || gameManagerRef.current?.getReplay().slowTraffic) return false;
+    return gameModeRef.current !== 'daily' || dailyAttemptRef.current !== null;
+  };
+
+  // Freeze the level where it stands. Only reads refs and state setters, so
+  // the p5 sketch and window listeners can hold on to the first render's copy.
+  const pauseGame = () => {
+    if (gameStateRef.current !== 'playing' || pausedRef.current) return;
+    
+    pausedRef.current = true;
+    setPaused(true);
+    clockRef.current.pause();
+    useAudio.getState().pauseBackgroundMusic();
+  };
+  
+  const resumeGame = () => {
+    if (!pausedRef.current) return;
+    
+    pausedRef.current = false;
+    setPaused(false);
+    useAudio.getState().playBackgroundMusic();
+  };
+  
+  const togglePause = () => {
+    if (pausedRef.current) {
+      resumeGame();
+    } else {
+      pauseGame();
+    }
+  };
+  
+  // Move from a touch gesture or the D-pad
+  const handleTouchMove = (action: InputAction) => {
+    const direction = getActionDirection(action);
+    if (gameStateRef.current !== 'playing' || pausedRef.current || !direction) return;
+    gameManagerRef.current?.handleMove(direction);
+  };
+  
+  const restartLevel = () => {
+    if (!gameManagerRef.current) return;
+    
+    console.log("Restarting level");
+    // A ranked daily attempt is spent once it's under way - riding it again
+    // is practice, or a player could restart until they liked the run
+    dailyAttemptRef.current = null;
+    gameManagerRef.current.restartLevel();
+    clockRef.current.reset();
+    resumeGame();
+  };
+  
+  const quitToStart = () => {
+    pausedRef.current = false;
+    setPaused(false);
+    useAudio.getState().stopBackgroundMusic();
+    
+    if (playtestLevelRef.current) {
+      endPlaytest(null);
+    } else {
+      returnToStartScreen();
+    }
+  };
+  
   // Handle game state changes
   const startGame = () => {
     console.log("Starting game");
+    watchingReplayRef.current = null;
+    setWatchingReplay(false);
+    playtestLevelRef.current = null;
+    setPlaytesting(false);
+    setGameMode('story');
     setScore(0);
     setLives(3);
     setCurrentLevel(1);
-    
-    // Get audio functions from store
-    const audioStore = useAudio.getState();
-    
-    // Log audio state for debugging
-    console.log("Audio state when starting game:", {
-      isMuted: audioStore.isMuted,
-      hasGruntSound: !!audioStore.gruntSound,
-      hasGameOverSound: !!audioStore.gameOverSound
-    });
+    setRunSeed(createSeed());
     
     // Update game state to playing
     setGameState('playing');
   };
 
+  // Endless frontier run - one long level that scrolls on until the lives run out
+  const startEndless = () => {
+    console.log("Starting endless run");
+    watchingReplayRef.current = null;
+    setWatchingReplay(false);
+    playtestLevelRef.current = null;
+    setPlaytesting(false);
+    setGameMode('endless');
+    setScore(0);
+    setDistance(0);
+    setCurrentLevel(1);
+    setRunSeed(createSeed());
+    setGameState('playing');
+  };
+
+  // Daily bounty - everyone plays the same generated level today. Only a run
+  // started on a ranked attempt can go on the leaderboard.
+  const startDaily = async (attempt: DailyAttempt | null) => {
+    const challenge = await fetchDailyChallenge();
+    console.log("Starting daily bounty", challenge, attempt ? "ranked" : "practice");
+    dailyAttemptRef.current = attempt;
+    watchingReplayRef.current = null;
+    setWatchingReplay(false);
+    playtestLevelRef.current = null;
+    setPlaytesting(false);
+    setGameMode('daily');
+    setDailyChallenge(challenge);
+    setScore(0);
+    setCurrentLevel(1);
+    setRunSeed(challenge.seed);
+    setGameState('playing');
+  };
+
   const continueToNextLevel = () => {
     console.log("Continuing to next level");
     setCurrentLevel(prev => prev + 1);
     setGameState('playing');
   };
 
+  // Restart in the same mode
   const restartGame = () => {
     console.log("Restarting game");
+    watchingReplayRef.current = null;
+    setWatchingReplay(false);
+    playtestLevelRef.current = null;
+    setPlaytesting(false);
     setScore(0);
+    setDistance(0);
     setLives(3);
     setCurrentLevel(1);
+    // The daily bounty always replays the day's seed, for practice once the
+    // ranked attempt is spent
+    dailyAttemptRef.current = null;
+    setRunSeed(gameMode === 'daily' && dailyChallenge ? dailyChallenge.seed : createSeed());
+    setGameState('playing');
+  };
+  
+  // Play a recorded run back through the engine
+  const watchReplay = (replay: Replay) => {
+    console.log("Watching replay for seed", replay.seed);
+    watchingReplayRef.current = replay;
+    setWatchingReplay(true);
+    playtestLevelRef.current = null;
+    setPlaytesting(false);
+    setGameMode(replay.mode);
+    setDailyChallenge(replay.mode === 'daily' && replay.day ? getDailyChallenge(replay.day) : null);
+    setScore(0);
+    setDistance(0);
+    setLives(3);
+    setCurrentLevel(replay.levels[0].level);
+    setRunSeed(replay.seed);
     setGameState('playing');
   };
   
+  // Run an editor draft straight away, on a fresh seed each time
+  const playTest = (level: LevelConfig) => {
+    console.log("Play-testing level", level.level);
+    watchingReplayRef.current = null;
+    setWatchingReplay(false);
+    playtestLevelRef.current = level;
+    setPlaytesting(true);
+    setGameMode('story');
+    setScore(0);
+    setCurrentLevel(level.level);
+    setRunSeed(createSeed());
+    setGameState('playing');
+  };
+  
+  // Back to the editor once a play-test ends, or when it's stopped early
+  const endPlaytest = (result: PlaytestResult | null) => {
+    useLevelEditor.getState().setLastPlaytest(result);
+    playtestLevelRef.current = null;
+    setPlaytesting(false);
+    setGameState('editor');
+  };
+  
+  const handleDownloadReplay = () => {
+    if (gameManagerRef.current) {
+      downloadReplay(gameManagerRef.current.getReplay());
+    }
+  };
+  
   // Handle high score entry completion
   const handleHighScoreEntryComplete = () => {
     // If we came from victory screen, go back to victory
     // Otherwise, go to game over
-    if (currentLevel >= 3) {
+    if (runResultRef.current === 'victory') {
       setGameState('victory');
     } else {
       setGameState('gameOver');
@@ -468,7 +732,7 @@ const Game = () => {
     
     if (previousState === 'start') {
       setGameState('start');
-    } else if (currentLevel >= 3) {
+    } else if (runResultRef.current === 'victory') {
       setGameState('victory');
     } else {
       setGameState('gameOver');
@@ -477,6 +741,8 @@ const Game = () => {
   
   // Function to return directly to start screen from anywhere
   const returnToStartScreen = () => {
+    dailyAttemptRef.current = null;
+    useAudio.getState().stopBackgroundMusic();
     setGameState('start');
   };
 
@@ -491,14 +757,24 @@ const Game = () => {
         
         {/* Overlay UI based on game state */}
         {gameState === 'start' && (
-          <StartScreen onStart={startGame} showLeaderboard={showLeaderboard} />
+          <StartScreen 
+            onStart={startGame} 
+            onStartEndless={startEndless}
+            onStartDaily={startDaily}
+            showLeaderboard={showLeaderboard} 
+            onWatchReplay={watchReplay}
+            onOpenEditor={() => setGameState('editor')}
+          />
         )}
         
         {gameState === 'gameOver' && (
           <GameOverScreen 
             score={score} 
+            distance={gameMode === 'endless' ? distance : undefined}
+            seed={runSeed}
             onRestart={restartGame}
             showLeaderboard={showLeaderboard}
+            onDownloadReplay={handleDownloadReplay}
           />
         )}
         
@@ -506,12 +782,63 @@ const Game = () => {
           <LevelCompleteScreen 
             level={currentLevel} 
             score={score} 
+            breakdown={levelBreakdown}
+            seed={runSeed}
             onContinue={continueToNextLevel} 
           />
         )}
         
         {gameState === 'playing' && (
-          <HUD score={score} level={currentLevel} lives={lives} />
+          <HUD
+            score={score}
+            level={currentLevel}
+            distance={gameMode === 'endless' ? distance : undefined}
+            modifiers={gameMode === 'daily' ? dailyChallenge?.modifiers : undefined}
+            lives={lives}
+            powerUps={powerUps}
+            combo={combo}
+            timeRemaining={timeRemaining}
+            replay={watchingReplay}
+            playtest={playtesting}
+          />
+        )}
+        
+        {gameState === 'playing' && !paused && (
+          <button
+            className="absolute top-16 left-4 rounded-lg bg-black/50 p-2 text-white backdrop-blur-sm hover:bg-black/70"
+            onClick={pauseGame}
+            title="Pause (Esc)"
+          >
+            <Pause className="h-5 w-5" />
+          </button>
+        )}
+        
+        {gameState === 'playing' && !paused && isMobile && showDPad && !watchingReplay && (
+          <TouchControls onPress={handleTouchMove} />
+        )}
+        
+        <Announcer announcement={announcement} />
+        
+        {gameState === 'playing' && paused && (
+          <PauseMenu
+            onResume={resumeGame}
+            onRestartLevel={restartLevel}
+            onQuit={quitToStart}
+            restartIsPractice={gameMode === 'daily' && dailyAttemptRef.current !== null}
+          />
+        )}
+        
+        {gameState === 'playing' && playtesting && (
+          <button
+            className="absolute bottom-4 left-1/2 -translate-x-1/2 rounded-lg border border-amber-600 bg-black/60 px-4 py-2 text-sm font-bold text-amber-300 hover:bg-amber-900/70"
+            onClick={() => endPlaytest(null)}
+          >
+            Back to Editor
+          </button>
+        )}
+        
+        {gameState === 'editor' && (
+          <LevelEditor onPlayTest={playTest} onExit={returnToStartScreen} />
         )}
 
         {gameState === 'victory' && (
@@ -519,13 +846,16 @@ const Game = () => {
             finalScore={score} 
             onRestart={restartGame}
             showLeaderboard={showLeaderboard}
+            onDownloadReplay={handleDownloadReplay}
           />
         )}
         
         {gameState === 'highScore' && (
           <HighScoreEntry 
             score={score}
-            level={currentLevel}
+            level={gameMode === 'endless' ? distance : currentLevel}
+            replay={gameManagerRef.current?.getReplay() ?? createReplay(runSeed, { mode: gameMode, difficulty })}
+            attempt={gameMode === 'daily' ? dailyAttemptRef.current : null}
             onComplete={handleHighScoreEntryComplete}
           />
         )}
@@ -535,6 +865,8 @@ const Game = () => {
             onBack={hideLeaderboard} 
             onReturnToStart={returnToStartScreen}
             playerScore={score} 
+            mode={gameMode}
+            difficulty={gameManagerRef.current?.getReplay().difficulty ?? difficulty}
           />
         )}
       </div>
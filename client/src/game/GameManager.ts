@@ -1,82 +1,168 @@
 import p5 from 'p5';
 import { Player } from './Player';
 import { Lane } from './Lane';
+import { Terrain } from './Terrain';
 import { Goal } from './Goal';
 import { Coin } from './Coin';
-import { SheriffBadge } from './SheriffBadge';
-import { 
-  GRID_CELLS_X,
-  GRID_CELLS_Y,
+import { PowerUp } from './PowerUp';
+import { Sheriff } from './Sheriff';
+import {
+  BASE_WIDTH,
+  BASE_HEIGHT,
   VISIBLE_CELLS_Y,
+  LANE_PALETTES,
   STARTING_LIVES,
-  POINTS_FOR_CROSSING,
-  POINTS_FOR_MONEYBAG,
-  POINTS_FOR_COIN,
-  POINTS_FOR_BADGE,
-  COIN_WIDTH,
-  COIN_HEIGHT,
-  COINS_PER_LANE,
-  SHERIFF_BADGE_WIDTH,
-  SHERIFF_BADGE_HEIGHT,
-  SHERIFF_BADGES_PER_LEVEL,
-  INVINCIBILITY_DURATION,
-  TIME_BONUS_FACTOR,
-  KEYS,
-  LEVELS,
-  COLORS
+  MOVE_BUFFER_WINDOW,
+  Difficulty,
+  PowerUpType,
+  TIME_WARNING_SECONDS,
+  OBSTACLE_CUE_LEAD,
+  SIMULATION_STEP_MS,
+  HAPTICS
 } from './constants';
 import { useAudio } from '../lib/stores/useAudio';
+import { useAccessibility } from '../lib/stores/useAccessibility';
+import { vibrate } from '../lib/haptics';
 import { loadImage } from './assets';
+import { Random, createSeed, deriveSeed } from '@shared/game/random';
+import type { Direction } from '@shared/game/player';
+import { getPlayerGridPosition, bufferMove, takeBufferedMove } from '@shared/game/player';
+import {
+  createSimulation,
+  createEndlessSimulation,
+  stepSimulation,
+  applyMove,
+  drainEvents,
+  getTimeRemaining,
+  getLaneAt,
+  type SimulationEvent,
+  type SimulationState,
+} from '@shared/game/simulation';
+import {
+  createReplay,
+  beginReplayLevel,
+  recordMove,
+  getMoveDirection,
+  type Replay,
+  type ReplayLevel,
+} from '@shared/game/replay';
+import { isFinalLevel, type LevelConfig } from '@shared/game/levels';
+import { getEndlessDistance } from '@shared/game/endless';
+import { POWER_UPS, type ActivePowerUp } from '@shared/game/powerups';
+import { getComboProgress, createBreakdown, tallyEvent, type ScoreBreakdown } from '@shared/game/scoring';
+import { createDailyLevel, type DailyChallenge } from '@shared/game/daily';
 
 interface GameCallbacks {
   onGameOver: () => void;
-  onLevelComplete: (score: number) => void;
+  onLevelComplete: (score: number, breakdown: ScoreBreakdown) => void; // What the level's points were for
   onLifeLost: (livesRemaining: number) => void;
   updateScore: (score: number) => void;
+  updateDistance: (distance: number) => void; // Rows travelled in endless mode
+  updatePowerUps: (powerUps: PowerUpTimer[]) => void; // Timed power-ups still running
+  updateCombo: (combo: ComboMeter) => void;
+  updateTimeRemaining: (seconds: number | null) => void; // Whole seconds left, null without a time limit
+  announce: (message: string) => void; // Read out to screen readers
   onVictory: (finalScore: number) => void;
 }
 
+export interface PowerUpTimer {
+  type: ActivePowerUp['type'];
+  remaining: number; // Milliseconds left, to the nearest tenth of a second
+  duration: number; // Length of the current timer
+}
+
+export interface ComboMeter {
+  multiplier: number;
+  progress: number; // Towards the next multiplier, from 0 to 1
+}
+
+// Salt for the cosmetic effects stream, kept apart from the simulation's streams
+const EFFECTS_SALT = 0x5eed;
+const ENDLESS_EFFECTS_SALT = 0xf407;
+
+/**
+ * Runs the headless simulation for the current level and turns its state
+ * and events into rendering, sound and UI callbacks
+ */
 export class GameManager {
   private p: p5;
   private callbacks: GameCallbacks;
+  private sim: SimulationState | null;
   private player: Player | null;
-  private lanes: Lane[];
+  private lanes: Map<number, Lane>; // Keyed by lane row
+  private terrain: Terrain | null;
   private goals: Goal[];
-  private coins: Coin[];
-  private sheriffBadges: SheriffBadge[]; // Add sheriff badges array
-  private cellWidth: number;
-  private cellHeight: number;
-  private lives: number;
+  private coins: Map<number, Coin>;
+  private powerUps: Map<number, PowerUp>;
+  private powerUpTimers: PowerUpTimer[]; // Last timers sent to the HUD
+  private comboMeter: ComboMeter; // Last combo sent to the HUD
+  private timeRemaining: number | null; // Last whole seconds sent to the HUD
+  private levelBreakdown: ScoreBreakdown; // Points scored in the current level, by source
+  private sheriff: Sheriff | null;
   private score: number;
+  private distance: number; // Rows travelled in endless mode
   private level: number;
-  private levelStartTime: number;
-  private levelTimeLimit: number;
+  private levelConfig: LevelConfig | null; // Level being played instead of a built-in one, if any
+  private levelStartScore: number; // Score carried into the current level, for restarting it
+  private dailyChallenge: DailyChallenge | null; // Bounty being played in daily mode
+  private difficulty: Difficulty; // Preset for runs started from now on
+  private slowTraffic: boolean; // Slow traffic assist for runs started from now on
+  private moveBufferWindow: number; // Milliseconds mid-hop presses wait, for runs started from now on
   private backgroundImage: p5.Image | null;
-  private cameraOffsetY: number; // Camera offset for scrolling
+  private scale: number; // World units to pixels
+  private offsetX: number; // Horizontal pixel offset that centers the world
+  private cameraOffsetY: number; // Camera offset for scrolling, in world units
+  private prevCameraOffsetY: number; // Camera offset at the previous simulation step
   private targetCameraY: number; // Target camera position for smooth transitions
-  
+  private seed: number; // Run seed, shared by players to reproduce a run
+  private effectsRng: Random; // Cosmetic particles only - never feeds back into the simulation
+  private replay: Replay; // Recording of the current run
+  private replayLevel: ReplayLevel | null; // Moves recorded so far in the current level (also while watching)
+  private playback: ReplayLevel | null; // Recorded level being played back, if watching a replay
+  private playbackIndex: number; // Next recorded move to apply
+  private cuedObstacles: Set<number>; // Obstacles the audio cues have already warned about
+
   constructor(p: p5, callbacks: GameCallbacks) {
     this.p = p;
     this.callbacks = callbacks;
+    this.sim = null;
     this.player = null;
-    this.lanes = [];
+    this.lanes = new Map();
+    this.terrain = null;
     this.goals = [];
-    this.coins = [];
-    this.sheriffBadges = []; // Initialize sheriff badges array
-    this.cellWidth = 0;
-    this.cellHeight = 0;
-    this.lives = STARTING_LIVES;
+    this.coins = new Map();
+    this.powerUps = new Map();
+    this.powerUpTimers = [];
+    this.comboMeter = { multiplier: 1, progress: 0 };
+    this.timeRemaining = null;
+    this.levelBreakdown = createBreakdown();
+    this.sheriff = null;
     this.score = 0;
+    this.distance = 0;
     this.level = 1;
-    this.levelStartTime = 0;
-    this.levelTimeLimit = 0;
+    this.levelConfig = null;
+    this.levelStartScore = 0;
+    this.dailyChallenge = null;
+    this.difficulty = Difficulty.GUNSLINGER;
+    this.slowTraffic = false;
+    this.moveBufferWindow = MOVE_BUFFER_WINDOW;
     this.backgroundImage = null;
+    this.scale = 1;
+    this.offsetX = 0;
     this.cameraOffsetY = 0;
+    this.prevCameraOffsetY = 0;
     this.targetCameraY = 0; // Initialize target camera position
-    
+    this.seed = createSeed();
+    this.effectsRng = new Random(this.seed);
+    this.replay = createReplay(this.seed, { difficulty: this.difficulty });
+    this.replayLevel = null;
+    this.playback = null;
+    this.playbackIndex = 0;
+    this.cuedObstacles = new Set();
+
     this.loadAssets();
   }
-  
+
   private async loadAssets() {
     try {
       this.backgroundImage = await loadImage(this.p, '/assets/background.svg');
@@ -84,569 +170,686 @@ export class GameManager {
       console.error('Failed to load background image:', error);
     }
   }
-  
+
   public setup() {
-    this.calculateGrid();
-    
-    // Initialize player in a position closer to the obstacles
-    const startX = Math.floor(GRID_CELLS_X / 2);
-    // Start player higher up on the screen (only 10% from the bottom)
-    const startY = Math.floor(GRID_CELLS_Y * 0.9);
-    
-    this.player = new Player(this.p, startX, startY, this.cellWidth, this.cellHeight);
-  }
-  
-  private calculateGrid() {
-    this.cellWidth = this.p.width / GRID_CELLS_X;
-    // Increase the height of cells by 80% to make lanes wider vertically
-    this.cellHeight = (this.p.height / GRID_CELLS_Y) * 1.8;
-  }
-  
-  public startLevel(level: number) {
+    this.calculateView();
+    this.player = new Player(this.p);
+    this.terrain = new Terrain(this.p);
+  }
+
+  /**
+   * Fit the fixed-size world to the canvas: uniform scale, centered horizontally
+   */
+  private calculateView() {
+    this.scale = Math.min(this.p.width / BASE_WIDTH, this.p.height / BASE_HEIGHT);
+    this.offsetX = (this.p.width - BASE_WIDTH * this.scale) / 2;
+  }
+
+  /**
+   * Start a level
+   * @param level Level number to load
+   * @param seed Run seed - the same seed and inputs always produce the same level
+   * @param playback Recorded moves to play back instead of taking keyboard input
+   * @param config Level to play instead of the built-in one, e.g. an editor draft
+   */
+  public startLevel(
+    level: number,
+    seed: number = this.seed,
+    playback: ReplayLevel | null = null,
+    config: LevelConfig | null = null
+  ) {
     this.level = level;
-    
-    // Get level configuration
-    const levelConfig = LEVELS[level] || LEVELS[1]; // Fallback to level 1 if config not found
-    
-    // Reset game state
-    this.lanes = [];
-    this.goals = [];
-    this.coins = [];
-    this.sheriffBadges = []; // Reset sheriff badges
-    this.cameraOffsetY = 0; // Reset camera position
-    this.targetCameraY = 0; // Reset target camera position
-    this.levelStartTime = this.p.millis();
-    this.levelTimeLimit = levelConfig.timeLimit * 1000; // Convert to milliseconds
-    
-    // Reset lives based on level number
-    if (level === 1) {
-      // Level 1: Start with default lives (3)
-      this.lives = STARTING_LIVES;
-      this.score = 0;
-      console.log("Starting level 1 with", this.lives, "lives");
-    } else if (level === 2) {
-      // Level 2: Always start with 4 lives regardless of previous level
-      this.lives = 4;
-      console.log("Starting level 2 with", this.lives, "lives");
-    } else if (level === 3) {
-      // Level 3: Always start with 5 lives regardless of previous level
-      this.lives = 5;
-      console.log("Starting level 3 with", this.lives, "lives");
+    this.levelConfig = config;
+    this.seed = seed;
+
+    // A new run starts a new recording; later levels append to it
+    if (level === 1 || seed !== this.replay.seed) {
+      this.replay = createReplay(seed, {
+        difficulty: this.difficulty,
+        slowTraffic: this.slowTraffic,
+        moveBufferWindow: this.moveBufferWindow,
+      });
     }
-    
+    this.playback = playback;
+    this.playbackIndex = 0;
+    this.replayLevel = beginReplayLevel(this.replay, level);
+
+    this.levelStartScore = this.score;
+    this.sim = createSimulation({
+      level,
+      seed,
+      score: this.score,
+      config: config ?? undefined,
+      difficulty: this.replay.difficulty, // Later levels keep the difficulty the run started on
+      slowTraffic: this.replay.slowTraffic,
+      moveBufferWindow: this.replay.moveBufferWindow,
+    });
+    this.score = this.sim.score;
+    this.effectsRng = new Random(deriveSeed(deriveSeed(seed, level), EFFECTS_SALT));
+
+    this.loadSimulation();
+    this.callbacks.announce(`Level ${level}`);
+  }
+
+  /**
+   * Start an endless frontier run
+   * @param seed Run seed - the same seed and inputs always produce the same frontier
+   * @param playback Recorded moves to play back instead of taking keyboard input
+   */
+  public startEndless(seed: number = this.seed, playback: ReplayLevel | null = null) {
+    this.level = 1;
+    this.levelConfig = null;
+    this.seed = seed;
+
+    this.replay = createReplay(seed, {
+      mode: 'endless',
+      difficulty: this.difficulty,
+      slowTraffic: this.slowTraffic,
+      moveBufferWindow: this.moveBufferWindow,
+    });
+    this.playback = playback;
+    this.playbackIndex = 0;
+    this.replayLevel = beginReplayLevel(this.replay, 1);
+
+    this.sim = createEndlessSimulation({
+      seed,
+      lives: STARTING_LIVES,
+      difficulty: this.difficulty,
+      slowTraffic: this.slowTraffic,
+      moveBufferWindow: this.moveBufferWindow,
+    });
+    this.score = this.sim.score;
+    this.effectsRng = new Random(deriveSeed(deriveSeed(seed, ENDLESS_EFFECTS_SALT), EFFECTS_SALT));
+
+    this.loadSimulation();
+    this.callbacks.announce('Endless frontier');
+  }
+
+  /**
+   * Start a daily bounty: the level generated for the day, on the day's seed
+   * @param playback Recorded moves to play back instead of taking keyboard input
+   */
+  public startDaily(challenge: DailyChallenge, playback: ReplayLevel | null = null) {
+    this.level = 1;
+    this.levelConfig = createDailyLevel(challenge);
+    this.dailyChallenge = challenge;
+    this.seed = challenge.seed;
+
+    this.replay = createReplay(challenge.seed, {
+      mode: 'daily',
+      day: challenge.date,
+      difficulty: this.difficulty,
+      slowTraffic: this.slowTraffic,
+      moveBufferWindow: this.moveBufferWindow,
+    });
+    this.playback = playback;
+    this.playbackIndex = 0;
+    this.replayLevel = beginReplayLevel(this.replay, 1);
+
+    this.sim = createSimulation({
+      level: 1,
+      seed: challenge.seed,
+      config: this.levelConfig,
+      difficulty: this.difficulty,
+      slowTraffic: this.slowTraffic,
+      moveBufferWindow: this.moveBufferWindow,
+    });
+    this.score = this.sim.score;
+    this.effectsRng = new Random(deriveSeed(deriveSeed(challenge.seed, 1), EFFECTS_SALT));
+
+    this.loadSimulation();
+    this.callbacks.announce('Daily bounty');
+  }
+
+  /**
+   * Reset the camera and build renderers for a freshly created simulation
+   */
+  private loadSimulation() {
+    if (!this.sim) return;
+
+    // Reset camera
+    this.cameraOffsetY = 0;
+    this.prevCameraOffsetY = 0;
+    this.targetCameraY = 0;
+
+    // Build renderers for the new level
+    this.lanes = new Map();
+    this.coins = new Map();
+    this.powerUps = new Map();
+    this.powerUpTimers = [];
+    this.comboMeter = { multiplier: 1, progress: 0 };
+    this.timeRemaining = this.getSecondsRemaining();
+    this.levelBreakdown = createBreakdown();
+    this.syncLanes();
+    this.goals = this.sim.goals.map(goal => new Goal(this.p, this.effectsRng.fork(), goal));
+    this.syncPickups();
+    this.sheriff = this.sim.sheriff ? new Sheriff(this.p) : null;
+
+    // Sync obstacle renderers with the pre-populated lanes
+    this.sim.lanes.forEach(lane => this.lanes.get(lane.index)?.update(lane, 0));
+
+    this.distance = 0;
+    this.calculateView();
+
     // Update the UI
-    this.callbacks.onLifeLost(this.lives);
+    this.callbacks.onLifeLost(this.sim.lives);
     this.callbacks.updateScore(this.score);
-    
-    // Calculate grid
-    this.calculateGrid();
-    
-    // Calculate starting position based on the level
-    const startX = Math.floor(GRID_CELLS_X / 2);
-    let startY;
-    
-    // For level 3 (the final level), start at the bottom safe zone
-    if (level === 3) {
-      // Start at the bottom safe zone, right above the first obstacle lane
-      // This ensures the player doesn't start in an obstacle lane
-      startY = Math.floor(GRID_CELLS_Y * 0.75);
-      console.log(`Level 3: Starting player at safer position (${startX}, ${startY})`);
-    } else {
-      // Start player at 45% from the bottom for other levels
-      startY = Math.floor(GRID_CELLS_Y * 0.55);
-    }
-    
-    if (this.player) {
-      this.player.reset(startX, startY);
-      this.player.handleResize(this.cellWidth, this.cellHeight);
-    }
-    
-    // Create lanes
-    const laneHeight = this.cellHeight;
-    for (let i = 0; i < levelConfig.lanes.length; i++) {
-      const laneConfig = levelConfig.lanes[i];
-      const laneY = i * laneHeight + laneHeight / 2;
-      
-      const lane = new Lane(
-        this.p,
-        laneY,
-        laneConfig.type,
-        laneConfig.direction === 'right' ? 1 : -1,
-        laneConfig.obstacleType,
-        laneConfig.obstacleFrequency || 0,
-        this.level,
-        this.cellHeight
-      );
-      
-      this.lanes.push(lane);
-      
-      // Add coins ONLY to upper safe zones (with some randomness but better distribution)
-      // Determine if this is an "upper" lane - first 50% of lanes (excluding start and end)
-      const isUpperLane = i > 0 && i < Math.floor(levelConfig.lanes.length * 0.5);
-      
-      if (laneConfig.type === 'safe' && isUpperLane) {
-        // Don't add coins to the start or end zones
-        // More coins in upper lanes (2-5 coins per lane)
-        const coinsForLane = 2 + Math.floor(Math.random() * 4); 
-        
-        if (coinsForLane > 0) {
-          // Create an array of potential positions across the grid
-          const potentialPositions = [];
-          for (let gridX = 0; gridX < GRID_CELLS_X; gridX++) {
-            potentialPositions.push({
-              x: gridX * this.cellWidth + this.cellWidth / 2,
-              y: laneY
-            });
-          }
-          
-          console.log(`Adding ${coinsForLane} coins to upper lane at y=${laneY}`);
-          
-          // Shuffle the positions to randomize which ones get coins
-          this.shuffleArray(potentialPositions);
-          
-          // Place coins at the randomized positions, but only up to the coinsForLane count
-          for (let j = 0; j < Math.min(coinsForLane, potentialPositions.length); j++) {
-            const position = potentialPositions[j];
-            this.coins.push(new Coin(this.p, position.x, position.y, COIN_WIDTH, COIN_HEIGHT));
-          }
-        }
+    this.callbacks.updateDistance(this.distance);
+    this.callbacks.updatePowerUps(this.powerUpTimers);
+    this.callbacks.updateCombo(this.comboMeter);
+    this.callbacks.updateTimeRemaining(this.timeRemaining);
+  }
+
+  /**
+   * Match lane renderers to the simulated lanes - endless mode adds and drops lanes as the player goes
+   */
+  private syncLanes() {
+    if (!this.sim) return;
+
+    const rows = new Set<number>();
+    for (const lane of this.sim.lanes) {
+      rows.add(lane.index);
+      if (!this.lanes.has(lane.index)) {
+        this.lanes.set(lane.index, new Lane(this.p, this.effectsRng.fork()));
       }
     }
-    
-    // Create goals
-    const goalCount = levelConfig.goalCount;
-    const goalWidth = this.p.width / goalCount;
-    
-    for (let i = 0; i < goalCount; i++) {
-      const goalX = i * goalWidth + goalWidth / 2;
-      const goalY = laneHeight / 2; // Top of the screen
-      
-      // Pass the current level to the Goal constructor
-      // Double the height of the end zone (money bags)
-      this.goals.push(new Goal(
-        this.p, 
-        goalX, 
-        goalY, 
-        goalWidth * 0.8, 
-        laneHeight * 1.6, // Doubled from 0.8 to 1.6
-        this.level // Pass the current level
-      ));
-    }
-    
-    console.log(`Created ${goalCount} money bags for level ${this.level}`); // Debug info
-    
-    // Create sheriff badges for invincibility powerups
-    // Scale number of badges with level: 1 for level 1, 2 for level 2, 3 for level 3
-    const badgeCount = Math.min(this.level, levelConfig.lanes.length - 2);
-    
-    // Create a pool of potential badge positions (different from coin positions)
-    const potentialBadgePositions = [];
-    
-    // Only use upper road lanes (more challenging to get the badge)
-    // Use a stricter definition than for coins - first 40% of lanes
-    for (let i = 0; i < levelConfig.lanes.length; i++) {
-      const laneConfig = levelConfig.lanes[i];
-      const isUpperRoadLane = i > 0 && i < Math.floor(levelConfig.lanes.length * 0.4);
-      
-      if (laneConfig.type === 'road' && isUpperRoadLane) {
-        const laneY = i * laneHeight + laneHeight / 2;
-        
-        console.log(`Adding potential badge positions to upper road lane at y=${laneY}`);
-        
-        // Add multiple positions across this lane
-        for (let gridX = 0; gridX < GRID_CELLS_X; gridX += 2) { // Space them out
-          potentialBadgePositions.push({
-            x: gridX * this.cellWidth + this.cellWidth / 2,
-            y: laneY
-          });
-        }
+
+    this.lanes.forEach((_, row) => {
+      if (!rows.has(row)) {
+        this.lanes.delete(row);
+      }
+    });
+  }
+
+  /**
+   * Match coin and power-up renderers to the simulated pickups
+   */
+  private syncPickups() {
+    if (!this.sim) return;
+
+    const coinIds = new Set<number>();
+    for (const coin of this.sim.coins) {
+      coinIds.add(coin.id);
+      if (!this.coins.has(coin.id)) {
+        this.coins.set(coin.id, new Coin(this.p, this.effectsRng.fork(), coin));
       }
     }
-    
-    // Shuffle positions and place badges
-    this.shuffleArray(potentialBadgePositions);
-    
-    for (let i = 0; i < Math.min(badgeCount, potentialBadgePositions.length); i++) {
-      const position = potentialBadgePositions[i];
-      this.sheriffBadges.push(new SheriffBadge(
-        this.p, 
-        position.x, 
-        position.y, 
-        SHERIFF_BADGE_WIDTH, 
-        SHERIFF_BADGE_HEIGHT
-      ));
+
+    this.coins.forEach((_, id) => {
+      if (!coinIds.has(id)) {
+        this.coins.delete(id);
+      }
+    });
+
+    const powerUpIds = new Set<number>();
+    for (const powerUp of this.sim.powerUps) {
+      powerUpIds.add(powerUp.id);
+      if (!this.powerUps.has(powerUp.id)) {
+        this.powerUps.set(powerUp.id, new PowerUp(this.p, this.effectsRng.fork(), powerUp));
+      }
     }
-    
-    console.log(`Created ${Math.min(badgeCount, potentialBadgePositions.length)} sheriff badges for level ${this.level}`);
+
+    this.powerUps.forEach((_, id) => {
+      if (!powerUpIds.has(id)) {
+        this.powerUps.delete(id);
+      }
+    });
   }
-  
+
   // Camera smoothing factor controls how quickly the camera follows the player
   private readonly CAMERA_SMOOTHING = 0.12; // Lower = smoother but slower transitions
-    
-  public update() {
-    if (!this.player) return;
-    
-    // Update player
-    this.player.update();
-    
-    // Update camera position based on player
-    if (this.player) {
-      const playerGridY = this.player.getGridPosition().y;
-      
-      // Adjusted ideal camera position (positioning player 45% from bottom)
-      // This makes the player see more of what's ahead by placing player at the 45% mark
-      const idealCameraY = (playerGridY - (VISIBLE_CELLS_Y * 0.55)) * this.cellHeight;
-      
-      // Set target camera position with bounds checking
-      this.targetCameraY = Math.max(0, Math.min(
-        (GRID_CELLS_Y - VISIBLE_CELLS_Y) * this.cellHeight, // Max camera Y
-        idealCameraY
-      ));
-      
-      // Smoothly interpolate current camera position towards target
-      // This creates a more fluid camera movement
-      const delta = this.targetCameraY - this.cameraOffsetY;
-      
-      // If player is moving, use faster transition for more responsive feel
-      const smoothingFactor = this.player.isMoving() ? this.CAMERA_SMOOTHING * 1.5 : this.CAMERA_SMOOTHING;
-      
-      // Apply smooth transition
-      this.cameraOffsetY += delta * smoothingFactor;
-      
-      // Output debugging info about coins every 60 frames (approximately once per second)
-      if (this.p.frameCount % 60 === 0) {
-        const uncollectedCoins = this.coins.filter(coin => !coin.isCollected()).length;
-        if (uncollectedCoins > 0) {
-          console.log(`Debug: ${uncollectedCoins} uncollected coins remaining on the level`);
-        }
+
+  /**
+   * Advance the game by one fixed simulation step
+   * @param dt Step size in milliseconds
+   */
+  public update(dt: number) {
+    const sim = this.sim;
+    if (!sim || sim.status !== 'playing') return;
+
+    this.prevCameraOffsetY = this.cameraOffsetY;
+
+    // Feed recorded moves in on the same ticks they were originally made
+    if (this.playback) {
+      const moves = this.playback.moves;
+      while (this.playbackIndex < moves.length && moves[this.playbackIndex][0] <= sim.tick) {
+        this.move(getMoveDirection(moves[this.playbackIndex]));
+        this.playbackIndex++;
       }
-    }
-    
-    // Update lanes and check collisions
-    for (const lane of this.lanes) {
-      lane.update(this.p.width);
-      
-      // Skip collision detection if player is still moving or invincible
-      if (this.player.isMoving() || this.player.isInvincible()) continue;
-      
-      // Check collisions with obstacles
-      const playerRect = this.player.getRect();
-      const collisions = lane.checkCollisions(playerRect);
-      
-      if (collisions.length > 0) {
-        console.log("Collision detected!", {
-          playerPos: this.player.getGridPosition(),
-          playerRect,
-          obstacles: collisions.map(o => ({
-            type: o.type,
-            x: o.x,
-            y: o.y,
-            rect: o.getRect()
-          }))
-        });
-        this.handleCollision();
+    } else {
+      // Make a move pressed during the last hop now the player is free - it's
+      // recorded on this tick just like a fresh key press
+      const buffered = takeBufferedMove(sim.player, sim.time, sim.moveBufferWindow);
+      if (buffered) {
+        this.move(buffered);
       }
     }
-    
-    // Check for coin collisions - always check, even when moving
-    if (this.player) {
-      const playerRect = this.player.getRect();
-      
-      for (let i = this.coins.length - 1; i >= 0; i--) {
-        const coin = this.coins[i];
-        
-        // Only check collision if coin hasn't been collected yet
-        if (!coin.isCollected()) {
-          // Note: We pass the player's rect coordinates exactly as they are
-          // since we've fixed the Coin.contains() method to handle rect coordinates correctly
-          if (coin.contains(
-            playerRect.x, 
-            playerRect.y, 
-            playerRect.width, 
-            playerRect.height
-          )) {
-            console.log("Collecting coin at", coin.getPosition(), "player moving:", this.player.isMoving());
-            
-            // Collect the coin
-            coin.collect();
-            
-            // Add points for collecting coin
-            this.score += POINTS_FOR_COIN;
-            this.callbacks.updateScore(this.score);
-            
-            // Play success sound
-            const { playSuccess } = useAudio.getState();
-            playSuccess();
-          }
-        }
-      }
-      
-      // Check for sheriff badge collisions - always check, even when moving
-      for (let i = this.sheriffBadges.length - 1; i >= 0; i--) {
-        const badge = this.sheriffBadges[i];
-        
-        // Only check collision if badge hasn't been collected yet
-        if (!badge.isCollected()) {
-          if (badge.contains(
-            playerRect.x, 
-            playerRect.y, 
-            playerRect.width, 
-            playerRect.height
-          )) {
-            console.log("Collecting sheriff badge at", badge.getPosition(), "player moving:", this.player.isMoving());
-            
-            // Collect the badge
-            badge.collect();
-            
-            // Add points for collecting badge
-            this.score += POINTS_FOR_BADGE;
-            this.callbacks.updateScore(this.score);
-            
-            // Make player invincible for set duration with badge visual indicator
-            this.player.makeInvincible(INVINCIBILITY_DURATION, true);
-            
-            // Play success sound
-            const { playSuccess } = useAudio.getState();
-            playSuccess();
-          }
+
+    stepSimulation(sim);
+    this.syncLanes();
+    this.syncPickups();
+
+    // Advance renderer-side animations and effects
+    sim.lanes.forEach(lane => this.lanes.get(lane.index)?.update(lane, dt));
+    this.coins.forEach(coin => coin.update(dt));
+    this.powerUps.forEach(powerUp => powerUp.update(dt));
+    this.sheriff?.update(dt);
+    for (const goal of this.goals) {
+      goal.update(dt);
+    }
+
+    this.updateCamera();
+    this.processEvents();
+    this.updateObstacleCues();
+  }
+
+  /**
+   * Beep for traffic about to reach the player, in their lane or the one
+   * ahead, panned toward the side it's coming from. Each obstacle is
+   * announced once per approach.
+   */
+  private updateObstacleCues() {
+    const sim = this.sim;
+    if (!sim || sim.status !== 'playing' || !useAccessibility.getState().audioCues) {
+      this.cuedObstacles.clear();
+      return;
+    }
+
+    const { player, cellWidth } = sim;
+    const row = Math.round(player.targetY);
+    const playerX = player.targetX * cellWidth + cellWidth / 2;
+    const approaching = new Set<number>();
+
+    for (const ahead of [false, true]) {
+      const lane = getLaneAt(sim, ahead ? row - 1 : row);
+      if (!lane) continue;
+
+      for (const obstacle of lane.obstacles) {
+        // Distance still to cover before the obstacle's front edge reaches the player
+        const gap = (playerX - obstacle.x) * obstacle.direction - obstacle.width / 2;
+        if (gap <= 0 || obstacle.speed <= 0) continue;
+
+        const timeToReach = (gap / obstacle.speed) * SIMULATION_STEP_MS;
+        if (timeToReach > OBSTACLE_CUE_LEAD) continue;
+
+        approaching.add(obstacle.id);
+        if (!this.cuedObstacles.has(obstacle.id)) {
+          const pan = Math.max(-1, Math.min(1, (obstacle.x - playerX) / (sim.worldWidth / 2)));
+          useAudio.getState().playObstacleCue(pan, ahead);
         }
       }
     }
-    
-    // Check if player reached a money bag
-    const playerPos = this.player.getGridPosition();
-    if (playerPos.y === 0) {
-      let reachedMoneyBag = false;
-      
-      for (const goal of this.goals) {
-        if (!goal.isReached() && goal.contains(playerPos.x * this.cellWidth + this.cellWidth / 2)) {
-          goal.setReached(true);
-          this.score += POINTS_FOR_MONEYBAG;
-          this.callbacks.updateScore(this.score);
-          
-          // Log collection
-          console.log("Money bag collected! Getting rich, pardner!");
-          
-          // Play success sound
-          const { playSuccess } = useAudio.getState();
-          playSuccess();
-          
-          reachedMoneyBag = true;
-          break;
+
+    this.cuedObstacles = approaching;
+  }
+
+  private updateCamera() {
+    if (!this.sim) return;
+
+    const { player, topRow, bottomRow, cellHeight } = this.sim;
+    const playerGridY = getPlayerGridPosition(player).y;
+
+    // Adjusted ideal camera position (positioning player 45% from bottom)
+    // This makes the player see more of what's ahead by placing player at the 45% mark
+    const idealCameraY = (playerGridY - (VISIBLE_CELLS_Y * 0.55)) * cellHeight;
+
+    // Set target camera position with bounds checking - endless mode moves the bounds with the frontier
+    this.targetCameraY = Math.max(topRow * cellHeight, Math.min(
+      (bottomRow + 1 - VISIBLE_CELLS_Y) * cellHeight, // Max camera Y
+      idealCameraY
+    ));
+
+    // Smoothly interpolate current camera position towards target
+    const delta = this.targetCameraY - this.cameraOffsetY;
+
+    // If player is moving, use faster transition for more responsive feel.
+    // With reduced motion the camera cuts straight to its target instead.
+    const smoothingFactor = useAccessibility.getState().reducedMotion
+      ? 1
+      : player.moving ? this.CAMERA_SMOOTHING * 1.5 : this.CAMERA_SMOOTHING;
+
+    this.cameraOffsetY += delta * smoothingFactor;
+  }
+
+  /**
+   * React to what happened in the simulation: effects, sounds and UI updates
+   */
+  private processEvents() {
+    if (!this.sim) return;
+
+    for (const event of drainEvents(this.sim)) {
+      this.handleEvent(event);
+    }
+
+    if (this.score !== this.sim.score) {
+      this.score = this.sim.score;
+      this.callbacks.updateScore(this.score);
+    }
+
+    const distance = this.sim.endless ? getEndlessDistance(this.sim.endless) : 0;
+    if (this.distance !== distance) {
+      this.distance = distance;
+      this.callbacks.updateDistance(this.distance);
+    }
+
+    this.updatePowerUpTimers();
+
+    const combo = { multiplier: this.sim.combo.multiplier, progress: getComboProgress(this.sim.combo) };
+    if (combo.multiplier !== this.comboMeter.multiplier || combo.progress !== this.comboMeter.progress) {
+      this.comboMeter = combo;
+      this.callbacks.updateCombo(combo);
+    }
+
+    this.updateTimeRemaining();
+  }
+
+  /**
+   * Whole seconds left on the level clock, or null in endless mode
+   */
+  private getSecondsRemaining(): number | null {
+    if (!this.sim || !Number.isFinite(this.sim.timeLimit)) return null;
+    return Math.ceil(getTimeRemaining(this.sim) / 1000);
+  }
+
+  /**
+   * Send the HUD the level clock as each second ticks over, with a tick
+   * sound through the closing seconds
+   */
+  private updateTimeRemaining() {
+    const seconds = this.getSecondsRemaining();
+    if (seconds === this.timeRemaining) return;
+
+    this.timeRemaining = seconds;
+    this.callbacks.updateTimeRemaining(seconds);
+
+    if (seconds !== null && seconds > 0 && seconds <= TIME_WARNING_SECONDS) {
+      useAudio.getState().playTick();
+    }
+  }
+
+  /**
+   * Send the HUD the running power-up timers, only when a tenth of a second ticks over
+   */
+  private updatePowerUpTimers() {
+    if (!this.sim) return;
+
+    const time = this.sim.time;
+    const timers = this.sim.activePowerUps.map(active => ({
+      type: active.type,
+      remaining: Math.ceil((active.endTime - time) / 100) * 100,
+      duration: active.endTime - active.startTime,
+    }));
+
+    const changed = timers.length !== this.powerUpTimers.length || timers.some((timer, i) =>
+      timer.type !== this.powerUpTimers[i].type || timer.remaining !== this.powerUpTimers[i].remaining
+    );
+
+    if (changed) {
+      this.powerUpTimers = timers;
+      this.callbacks.updatePowerUps(timers);
+    }
+  }
+
+  private handleEvent(event: SimulationEvent) {
+    const audioState = useAudio.getState();
+    tallyEvent(this.levelBreakdown, event);
+
+    switch (event.type) {
+      case 'coinCollected':
+        this.coins.get(event.id)?.collect(event.points);
+        audioState.playSound('success');
+        this.buzz(HAPTICS.PICKUP);
+        this.callbacks.announce(`Coin, plus ${event.points}`);
+        break;
+      case 'powerUpCollected':
+        this.powerUps.get(event.id)?.collect(event.points);
+        audioState.playSound('success');
+        this.buzz(HAPTICS.PICKUP);
+        this.callbacks.announce(`${POWER_UPS[event.powerUp].name}, plus ${event.points}`);
+        // The lucky horseshoe adds a life
+        if (event.powerUp === PowerUpType.HORSESHOE && this.sim) {
+          this.callbacks.onLifeLost(this.sim.lives);
         }
+        break;
+      case 'goalReached': {
+        this.goals[event.index]?.collect(event.points);
+        audioState.playSound('success');
+        this.buzz(HAPTICS.PICKUP);
+        const goals = this.sim?.goals ?? [];
+        const reached = goals.filter(goal => goal.reached).length;
+        this.callbacks.announce(`Money bag ${reached} of ${goals.length}`);
+        break;
       }
-      
-      if (reachedMoneyBag || !this.player.isMoving()) {
-        // Reset player position to the appropriate starting position based on level
-        const startX = Math.floor(GRID_CELLS_X / 2);
-        let startY;
-        
-        // Use level-specific starting position
-        if (this.level === 3) {
-          startY = Math.floor(GRID_CELLS_Y * 0.75); // Safer position for level 3
-        } else {
-          startY = Math.floor(GRID_CELLS_Y * 0.55); // Default for other levels
+      case 'powerUpExpired':
+        this.callbacks.announce(`${POWER_UPS[event.powerUp].name} wore off`);
+        break;
+      case 'sheriffArrived':
+        this.sheriff?.arrive();
+        this.callbacks.announce('The sheriff is coming');
+        break;
+      case 'hit':
+        if (event.cause === 'water') {
+          audioState.playSound('hit'); // Splash
         }
-        
-        this.player.reset(startX, startY);
-      }
-    }
-    
-    // Check if level is complete (all money bags collected)
-    if (this.goals.every(goal => goal.isReached())) {
-      this.handleLevelComplete();
+        audioState.playSound('grunt');
+        this.buzz(HAPTICS.HIT);
+        this.callbacks.onLifeLost(event.livesRemaining);
+        if (event.livesRemaining > 0) {
+          this.callbacks.announce(`Life lost, ${event.livesRemaining} remaining`);
+        }
+        break;
+      case 'levelComplete':
+        this.callbacks.announce('Level complete');
+        this.handleLevelComplete();
+        break;
+      case 'gameOver':
+        this.callbacks.announce(event.reason === 'time' ? 'Out of time, game over' : 'Game over');
+        this.handleGameOver();
+        break;
     }
-    
-    // Check if time ran out
-    const elapsedTime = this.p.millis() - this.levelStartTime;
-    if (elapsedTime > this.levelTimeLimit) {
-      this.handleGameOver();
+  }
+
+  /**
+   * Vibrate for something that happened to the player - not while watching a replay
+   */
+  private buzz(pattern: number[]) {
+    if (!this.playback) {
+      vibrate(pattern);
     }
   }
-  
-  public draw() {
+
+  /**
+   * Render the current state
+   * @param alpha Interpolation factor between the previous and current simulation step
+   */
+  public draw(alpha: number = 1) {
     // Draw background
-    this.p.background(COLORS.BACKGROUND);
-    
+    this.p.background(LANE_PALETTES[useAccessibility.getState().palette].BACKGROUND);
+
+    const sim = this.sim;
+    if (!sim) return;
+
+    // Visible area in world units - lanes stretch across the full canvas width
+    const visibleLeft = -this.offsetX / this.scale;
+    const visibleWidth = this.p.width / this.scale;
+
     // Save current transformation
     this.p.push();
-    
+
+    // Map world units onto the canvas
+    this.p.translate(this.offsetX, 0);
+    this.p.scale(this.scale);
+
     // Apply camera offset for scrolling
-    this.p.translate(0, -this.cameraOffsetY);
-    
+    this.p.translate(0, -this.p.lerp(this.prevCameraOffsetY, this.cameraOffsetY, alpha));
+
     if (this.backgroundImage) {
-      this.p.image(this.backgroundImage, 0, 0, this.p.width, this.p.height);
+      this.p.image(this.backgroundImage, visibleLeft, 0, visibleWidth, BASE_HEIGHT);
     }
-    
+
     // Draw lanes
-    for (const lane of this.lanes) {
-      lane.draw(this.p.width);
+    sim.lanes.forEach(lane => this.lanes.get(lane.index)?.draw(lane, visibleLeft, visibleWidth, alpha));
+
+    // Draw terrain
+    if (this.terrain) {
+      this.terrain.draw(sim.terrain, sim.cellWidth, sim.cellHeight);
     }
-    
+
     // Draw money bags
     for (const moneyBag of this.goals) {
       moneyBag.draw();
     }
-    
-    // Draw coins (always draw all coins - the Coin class will determine if it should be visible)
-    for (const coin of this.coins) {
-      coin.draw(this.cameraOffsetY);
-    }
-    
-    // Draw sheriff badges
-    for (const badge of this.sheriffBadges) {
-      badge.draw(this.cameraOffsetY);
-    }
-    
+
+    // Draw coins (always draw all coins - the Coin class will determine if it should be visible).
+    // The camera transform is already applied, so they draw at their world position.
+    this.coins.forEach(coin => coin.draw());
+
+    // Draw power-ups
+    this.powerUps.forEach(powerUp => powerUp.draw());
+
     // Draw player
     if (this.player) {
-      this.player.draw();
+      this.player.draw(sim.player, sim.cellWidth, sim.cellHeight, sim.time, alpha);
+    }
+
+    // Draw the sheriff over the player so a catch is easy to see
+    if (this.sheriff && sim.sheriff) {
+      this.sheriff.draw(sim.sheriff, sim.cellWidth, sim.cellHeight, sim.time, alpha);
     }
-    
+
     // Restore transformation
     this.p.pop();
-    
+
     // Draw HUD elements (outside of camera transform)
     // This is intentionally left blank as HUD is handled by React components
   }
-  
-  public handleKeyPress(keyCode: number) {
-    if (!this.player) return false;
-    
-    const moved = this.player.handleKeyPress(keyCode);
-    
+
+  /**
+   * Move the player from live input - keyboard, touch or gamepad
+   */
+  public handleMove(direction: Direction) {
+    // Live input is ignored while watching a replay
+    if (!this.sim || this.playback || this.sim.status !== 'playing') return false;
+
+    // Mid-hop presses wait in the player's buffer for update() to make them
+    if (bufferMove(this.sim.player, direction, this.sim.time, this.sim.moveBufferWindow)) return false;
+
+    const moved = this.move(direction);
     if (moved) {
-      // Award points for moving forward
-      const playerPos = this.player.getGridPosition();
-      
-      // Specific check for upward movement
-      if (keyCode === KEYS.UP || keyCode === KEYS.W) {
-        this.score += POINTS_FOR_CROSSING;
-        this.callbacks.updateScore(this.score);
-      }
+      this.syncLanes();
+      this.syncPickups();
+      this.processEvents();
     }
-    
+
     return moved;
   }
-  
-  private handleCollision() {
-    // Check if player is invincible - if so, ignore the collision
-    if (this.player && this.player.isInvincible()) {
-      console.log("Player is invincible - ignoring collision");
-      return;
-    }
-    
-    // Play hit sound and grunt sound
-    const audioState = useAudio.getState();
-    console.log("Audio state during collision:", {
-      isMuted: audioState.isMuted,
-      hasGruntSound: !!audioState.gruntSound,
-      hasHitSound: !!audioState.hitSound
-    });
-    
-    // Simply play the grunt sound - use the same approach as gameOver
-    // which is known to work correctly
-    console.log("Playing grunt sound on collision");
-    audioState.playGrunt();
-    
-    this.lives--;
-    
-    // Ensure lives never go below 0
-    if (this.lives < 0) {
-      this.lives = 0;
-    }
-    
-    this.callbacks.onLifeLost(this.lives);
-    
-    if (this.lives <= 0) {
-      console.log("No lives remaining, triggering game over");
-      this.handleGameOver();
-    } else {
-      // Instead of resetting position, make player invincible for 2 seconds
-      if (this.player) {
-        // Make player invincible for 2 seconds (2000 milliseconds)
-        this.player.makeInvincible(2000);
-      }
+
+  /**
+   * Apply a move to the simulation and record it if accepted
+   */
+  private move(direction: Direction): boolean {
+    if (!this.sim) return false;
+
+    const moved = applyMove(this.sim, direction);
+    if (moved && this.replayLevel) {
+      recordMove(this.replayLevel, this.sim.tick, direction);
     }
+
+    return moved;
   }
-  
+
   private handleGameOver() {
-    // Stop background music
-    useAudio.getState().stopBackgroundMusic();
-    
-    // Play game over sound effects
+    // Play the game over stingers with the music ducked under them
     const audioState = useAudio.getState();
-    console.log("Audio state during game over:", {
-      isMuted: audioState.isMuted,
-      hasGameOverSound: !!audioState.gameOverSound,
-      hasWompWompSound: !!audioState.wompWompSound
-    });
-    
-    // Play game over sound
-    audioState.playGameOver();
-    
+    audioState.playStinger('gameOver');
+
     // After a short delay, play the womp womp trumpet sound for comic effect
     setTimeout(() => {
-      audioState.playWompWomp();
+      audioState.playStinger('wompWomp');
     }, 600);
-    
+
     // Notify game
     this.callbacks.onGameOver();
   }
-  
+
   private handleLevelComplete() {
-    // Calculate time bonus
-    const elapsedTime = this.p.millis() - this.levelStartTime;
-    const timeRemaining = Math.max(0, this.levelTimeLimit - elapsedTime);
-    const timeBonus = Math.floor(timeRemaining / 1000) * TIME_BONUS_FACTOR;
-    
-    this.score += timeBonus;
+    if (!this.sim) return;
+
+    // The time bonus is already included in the simulation score
+    this.score = this.sim.score;
     this.callbacks.updateScore(this.score);
-    
-    // Check if this was the final level (level 3)
-    if (this.level === 3) {
+
+    // Check if this was the final level - a daily bounty or editor draft is played on its own
+    if (this.levelConfig || isFinalLevel(this.level)) {
       console.log("Game victory! All levels completed!");
       // Play success sound
-      const { playSuccess } = useAudio.getState();
-      playSuccess();
+      useAudio.getState().playSound('success');
       // Trigger victory screen
       this.callbacks.onVictory(this.score);
     } else {
       // Trigger level complete for non-final levels
-      this.callbacks.onLevelComplete(this.score);
+      this.callbacks.onLevelComplete(this.score, this.levelBreakdown);
     }
   }
-  
-  public handleResize() {
-    this.calculateGrid();
-    
-    // Update player and game objects
-    if (this.player) {
-      this.player.handleResize(this.cellWidth, this.cellHeight);
-    }
-    
-    // Update lanes
-    for (const lane of this.lanes) {
-      lane.handleResize(this.cellHeight);
-    }
-    
-    // Update coins
-    for (const coin of this.coins) {
-      coin.handleResize(this.cellWidth, this.cellHeight);
-    }
-    
-    // Update sheriff badges
-    for (const badge of this.sheriffBadges) {
-      badge.handleResize(this.cellWidth, this.cellHeight);
+
+  /**
+   * Play the current level again from the score it started with. Its
+   * recorded moves are dropped so the replay only holds the final attempt.
+   * Endless and daily runs start over on the same seed.
+   */
+  public restartLevel() {
+    if (!this.sim) return;
+
+    const playback = this.playback;
+
+    if (this.replay.mode === 'endless') {
+      this.startEndless(this.seed, playback);
+    } else if (this.replay.mode === 'daily' && this.dailyChallenge) {
+      this.startDaily(this.dailyChallenge, playback);
+    } else {
+      this.replay.levels.pop();
+      this.score = this.levelStartScore;
+      this.startLevel(this.level, this.seed, playback, this.levelConfig);
     }
   }
-  
-  // Helper method to shuffle an array (Fisher-Yates algorithm)
-  private shuffleArray<T>(array: T[]): T[] {
-    for (let i = array.length - 1; i > 0; i--) {
-      const j = Math.floor(Math.random() * (i + 1));
-      [array[i], array[j]] = [array[j], array[i]]; // Swap elements
-    }
-    return array;
+
+  public handleResize() {
+    this.calculateView();
+  }
+
+  /**
+   * Pick the difficulty preset for the next run. A run in progress keeps its own.
+   */
+  public setDifficulty(difficulty: Difficulty) {
+    this.difficulty = difficulty;
+  }
+
+  /**
+   * Turn the slow traffic assist on or off for the next run
+   */
+  public setSlowTraffic(slowTraffic: boolean) {
+    this.slowTraffic = slowTraffic;
+  }
+
+  /**
+   * Set how long a move pressed mid-hop waits for the player, for the next run
+   */
+  public setMoveBufferWindow(window: number) {
+    this.moveBufferWindow = window;
+  }
+
+  public getSeed(): number {
+    return this.seed;
+  }
+
+  /**
+   * Recording of the current run, for download
+   */
+  public getReplay(): Replay {
+    return this.replay;
+  }
+
+  public isPlayingBack(): boolean {
+    return this.playback !== null;
   }
 }
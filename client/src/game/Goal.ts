@@ -1,29 +1,42 @@
 import p5 from 'p5';
-import { COLORS } from './constants';
+import { SIMULATION_STEP_MS } from './constants';
 import { loadImage } from './assets';
+import { PickupEffects, type BurstStyle } from './PickupEffects';
+import { Random } from '@shared/game/random';
+import type { GoalState } from '@shared/game/goal';
+import { useAccessibility } from '../lib/stores/useAccessibility';
 
+// Shower of gold coins when a money bag is grabbed
+const PAYOUT_STYLE: BurstStyle = {
+  speed: [2, 4],
+  size: [5, 9],
+  color: rng => [rng.range(220, 255), rng.range(180, 215), 0],
+  trailColor: [255, 215, 0],
+  trailOpacity: 0.4,
+  trailLength: 3,
+  trailFade: 25,
+  gravity: 0.12,
+  fade: 5,
+};
+
+/**
+ * Draws a money bag from simulation state, with its payout effects
+ */
 export class Goal {
   private p: p5;
-  private x: number;
-  private y: number;
-  private width: number;
-  private height: number;
-  private reached: boolean;
+  private state: GoalState;
   private image: p5.Image | null;
   private animationOffset: number;
-  private level: number; // Store the level for size adjustment
+  private animationTime: number; // Simulation time in milliseconds
+  private effects: PickupEffects;
   
-  constructor(p: p5, x: number, y: number, width: number, height: number, level: number = 1) {
+  constructor(p: p5, rng: Random, state: GoalState) {
     this.p = p;
-    this.x = x;
-    this.y = y;
-    // Store the original width and height
-    this.width = width;
-    this.height = height;
-    this.reached = false;
+    this.state = state;
     this.image = null;
-    this.animationOffset = p.random(0, 2 * p.PI); // Random starting point for animation
-    this.level = level; // Save the current level
+    this.animationOffset = rng.range(0, 2 * p.PI); // Random starting point for animation
+    this.animationTime = 0;
+    this.effects = new PickupEffects(p, rng, PAYOUT_STYLE);
     
     this.loadAssets();
   }
@@ -31,52 +44,61 @@ export class Goal {
   private async loadAssets() {
     try {
       this.image = await loadImage(this.p, '/assets/moneybag.png');
-      
-      // Debug log the creation of this money bag with size info
-      const sizeMultiplier = this.level === 1 ? 0.7 : 1.0;
-      console.log(`Money bag created for Level ${this.level} with size multiplier: ${sizeMultiplier} (${this.width}x${this.height})`);
     } catch (error) {
       console.error('Failed to load money bag image:', error);
     }
   }
   
+  /**
+   * Advance the bobbing animation by one simulation step
+   * @param dt Step size in milliseconds
+   */
+  public update(dt: number) {
+    this.animationTime += dt;
+    this.effects.update();
+  }
+  
+  /**
+   * Play the payout effects once the simulation reports the bag grabbed
+   * @param points Points awarded, shown in the popup
+   */
+  public collect(points: number) {
+    const { x, y, height, sizeMultiplier } = this.state;
+    this.effects.burst(x, y, { count: 40, sizeScale: 1, sparks: 8, sparkSize: [9, 14], sparkSpeed: 0.8 });
+    // Money bags sit on the top row, so float the popup up from below so it stays on screen
+    this.effects.showPopup(x, y + height * sizeMultiplier, points);
+  }
+  
   public draw() {
-    this.p.push();
+    const { x, y, width, height, sizeMultiplier, reached } = this.state;
     
-    // Calculate actual display size based on level
-    // Apply 30% reduction only for Level 1
-    const sizeMultiplier = this.level === 1 ? 0.7 : 1.0; // 70% of original size for level 1
+    this.p.push();
     
     // Calculate the display width and height
     // Note: We're maintaining the aspect ratio of the image even though the end zone is taller
-    const displayWidth = this.width * sizeMultiplier;
-    const displayHeight = this.height * sizeMultiplier;
+    const displayWidth = width * sizeMultiplier;
+    const displayHeight = height * sizeMultiplier;
     
     if (this.image) {
       // Draw with money bag image
       this.p.imageMode(this.p.CENTER);
       
-      // Add a slight bobbing animation
+      // Add a slight bobbing animation, unless motion is reduced
       const animationSpeed = 0.05;
-      const animationAmount = 3; // pixels up/down
-      const yOffset = Math.sin(this.p.frameCount * animationSpeed + this.animationOffset) * animationAmount;
+      const animationAmount = useAccessibility.getState().reducedMotion ? 0 : 3; // pixels up/down
+      const yOffset = Math.sin((this.animationTime / SIMULATION_STEP_MS) * animationSpeed + this.animationOffset) * animationAmount;
       
       // If reached, draw with a subtle glow effect
-      if (this.reached) {
+      if (reached) {
         // Draw a subtle glow background - make it larger for doubled height
         this.p.noStroke();
         this.p.fill(255, 215, 0, 100); // Golden glow
-        this.p.ellipse(this.x, this.y + yOffset, displayWidth * 1.2, displayHeight * 1.2);
+        this.p.ellipse(x, y + yOffset, displayWidth * 1.2, displayHeight * 1.2);
       }
       
       // Draw the money bag image with level-specific size
       // We'll keep the image size proportional even though the zone is taller
-      this.p.image(this.image, this.x, this.y + yOffset, displayWidth, displayHeight);
-      
-      // Debug log in first frame
-      if (this.p.frameCount < 10) {
-        console.log(`Money bag in level ${this.level} drawn at size ${displayWidth.toFixed(1)}x${displayHeight.toFixed(1)} (${sizeMultiplier * 100}% of original) in doubled height zone`);
-      }
+      this.p.image(this.image, x, y + yOffset, displayWidth, displayHeight);
       
     } else {
       // Fallback if image fails to load (similar to old version but with golden color)
@@ -84,7 +106,7 @@ export class Goal {
       this.p.noStroke();
       
       // Draw background with golden color for money bag theme
-      if (this.reached) {
+      if (reached) {
         // Reached goals have a brighter gold color
         this.p.fill(255, 215, 0); // Brighter gold for collected
       } else {
@@ -92,37 +114,17 @@ export class Goal {
       }
       
       // Draw the goal as a rounded rectangle to look like a bag with level-specific size
-      this.p.rect(this.x, this.y, displayWidth, displayHeight, 10);
+      this.p.rect(x, y, displayWidth, displayHeight, 10);
       
       // Draw a $ symbol
       this.p.fill(139, 69, 19); // Brown color for the $ symbol
       this.p.textSize(displayWidth * 0.5);
       this.p.textAlign(this.p.CENTER, this.p.CENTER);
-      this.p.text('$', this.x, this.y);
+      this.p.text('$', x, y);
     }
     
     this.p.pop();
-  }
-  
-  public contains(pointX: number): boolean {
-    // Apply the same 30% reduction for collision detection in Level 1
-    const sizeMultiplier = this.level === 1 ? 0.7 : 1.0;
-    const actualWidth = this.width * sizeMultiplier;
-    
-    // With the doubled height of the end zone, we make the hitbox slightly larger horizontally
-    // to make it easier for players to reach the goal
-    const hitboxMultiplier = 1.2; // 20% wider hitbox for easier gameplay with taller end zone
     
-    // Check if the point is within the adjusted width with hitbox multiplier
-    return pointX > this.x - (actualWidth * hitboxMultiplier) / 2 && 
-           pointX < this.x + (actualWidth * hitboxMultiplier) / 2;
-  }
-  
-  public isReached(): boolean {
-    return this.reached;
-  }
-  
-  public setReached(reached: boolean) {
-    this.reached = reached;
+    this.effects.draw();
   }
 }
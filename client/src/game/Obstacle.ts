@@ -1,10 +1,14 @@
 import p5 from 'p5';
-import { ObstacleType, OBSTACLE_PROPERTIES } from './constants';
+import { ObstacleType } from './constants';
 import { loadImage } from './assets';
+import { Random } from '@shared/game/random';
+import { isObstacleStopping, type ObstacleState } from '@shared/game/obstacle';
+import { useAccessibility } from '../lib/stores/useAccessibility';
 
 // Smoke particle class for train smoke effect
 class SmokeParticle {
   private p: p5;
+  private rng: Random;
   private x: number;
   private y: number;
   private size: number;
@@ -14,21 +18,22 @@ class SmokeParticle {
   private age: number;
   private maxAge: number;
   
-  constructor(p: p5, x: number, y: number) {
+  constructor(p: p5, rng: Random, x: number, y: number) {
     this.p = p;
+    this.rng = rng;
     this.x = x;
     this.y = y;
     // Start with smaller size, will grow as it rises
-    this.size = p.random(4, 8); // Smaller initial size
-    this.alpha = p.random(170, 220); // Start with high alpha (opacity)
+    this.size = rng.range(4, 8); // Smaller initial size
+    this.alpha = rng.range(170, 220); // Start with high alpha (opacity)
     
     // Random velocity - more vertical with slight drift
     // More vertical movement for a chimney-like effect
-    this.vx = p.random(-0.3, 0.3); // Less horizontal drift
-    this.vy = p.random(-1.0, -0.7); // More consistent upward movement
+    this.vx = rng.range(-0.3, 0.3); // Less horizontal drift
+    this.vy = rng.range(-1.0, -0.7); // More consistent upward movement
     
     this.age = 0;
-    this.maxAge = p.random(30, 45); // Shorter lifespan for quicker dissipation
+    this.maxAge = rng.range(30, 45); // Shorter lifespan for quicker dissipation
   }
   
   update() {
@@ -38,7 +43,7 @@ class SmokeParticle {
     
     // Add a slight wiggle effect for more realistic smoke movement
     // This creates a subtle wandering/billowing motion
-    this.vx += this.p.random(-0.03, 0.03);
+    this.vx += this.rng.range(-0.03, 0.03);
     
     // Gradually slow down both horizontal and vertical movement as the particle ages
     // This creates the effect of smoke losing momentum as it rises
@@ -87,45 +92,95 @@ class SmokeParticle {
   }
 }
 
+// Dust particle class for the clouds stagecoach wheels kick up
+class DustParticle {
+  private p: p5;
+  private x: number;
+  private y: number;
+  private size: number;
+  private alpha: number;
+  private vx: number;
+  private vy: number;
+  private age: number;
+  private maxAge: number;
+
+  /**
+   * @param drift Horizontal velocity, usually away from the direction of travel
+   */
+  constructor(p: p5, rng: Random, x: number, y: number, drift: number) {
+    this.p = p;
+    this.x = x;
+    this.y = y;
+    this.size = rng.range(5, 10);
+    this.alpha = rng.range(120, 170);
+
+    // Dust hangs low and trails behind rather than rising like smoke
+    this.vx = drift + rng.range(-0.2, 0.2);
+    this.vy = rng.range(-0.4, -0.1);
+
+    this.age = 0;
+    this.maxAge = rng.range(25, 40);
+  }
+
+  update() {
+    this.x += this.vx;
+    this.y += this.vy;
+
+    // Dust settles quickly
+    this.vx *= 0.95;
+    this.vy *= 0.95;
+
+    this.size += 0.2;
+    this.alpha -= this.alpha / this.maxAge;
+
+    this.age++;
+
+    return this.age < this.maxAge && this.alpha > 5;
+  }
+
+  draw() {
+    this.p.push();
+    this.p.noStroke();
+
+    // Sandy brown to match the trail
+    this.p.fill(190, 160, 115, this.alpha);
+    this.p.ellipseMode(this.p.CENTER);
+    this.p.ellipse(this.x, this.y, this.size, this.size * 0.7);
+
+    this.p.pop();
+  }
+}
+
+/**
+ * Draws an obstacle from simulation state and runs its cosmetic effects
+ */
 export class Obstacle {
   private p: p5;
-  public x: number;
-  public y: number;
-  public width: number;
-  public height: number;
-  public speed: number;
-  public type: ObstacleType;
-  private direction: number;
+  private rng: Random;
+  public state: ObstacleState;
+  private time: number = 0; // Simulation time in milliseconds
   private image: p5.Image | null;
   private animationFrame: number = 0;
   private animationSpeed: number = 0.2; // Controls animation speed
   private rotationAngle: number = 0; // For spinning tumbleweeds
   private smokeParticles: SmokeParticle[] = []; // For train smoke
   private lastSmokeTime: number = 0; // When we last generated smoke
+  private dustParticles: DustParticle[] = []; // For stagecoach dust
+  private lastDustTime: number = 0; // When we last kicked up dust
   
-  constructor(
-    p: p5, 
-    x: number, 
-    y: number, 
-    type: ObstacleType, 
-    speed: number, 
-    direction: number
-  ) {
+  constructor(p: p5, rng: Random, state: ObstacleState) {
     this.p = p;
-    this.x = x;
-    this.y = y;
-    this.type = type;
-    this.speed = speed * OBSTACLE_PROPERTIES[type].speedMultiplier;
-    this.direction = direction; // 1 for right, -1 for left
-    
-    // Set dimensions based on obstacle type
-    this.width = OBSTACLE_PROPERTIES[type].width;
-    this.height = OBSTACLE_PROPERTIES[type].height;
+    this.rng = rng;
+    this.state = state;
     
     this.image = null;
     this.loadAssets();
   }
   
+  private get type(): ObstacleType {
+    return this.state.type;
+  }
+  
   private async loadAssets() {
     try {
       // Use PNG for horse and train, SVG for other types
@@ -139,16 +194,14 @@ export class Obstacle {
     }
   }
   
-  public update(canvasWidth: number) {
-    // Move the obstacle
-    this.x += this.speed * this.direction;
-    
-    // Wrap around when off-screen
-    if (this.direction > 0 && this.x > canvasWidth + this.width / 2) {
-      this.x = -this.width / 2;
-    } else if (this.direction < 0 && this.x < -this.width / 2) {
-      this.x = canvasWidth + this.width / 2;
-    }
+  /**
+   * Advance animation and smoke by one simulation step
+   * @param dt Step size in milliseconds
+   */
+  public update(dt: number) {
+    this.time += dt;
+    const { x, y, direction } = this.state;
+    const reducedMotion = useAccessibility.getState().reducedMotion;
     
     // Update animation frame
     this.animationFrame += this.animationSpeed;
@@ -156,14 +209,14 @@ export class Obstacle {
     // Update rotation for tumbleweeds
     if (this.type === ObstacleType.TUMBLEWEED) {
       // Spin faster in the direction of movement
-      this.rotationAngle += 0.1 * this.direction;
+      this.rotationAngle += 0.1 * direction;
     }
     
     // Generate smoke for trains
     if (this.type === ObstacleType.TRAIN) {
-      const currentTime = this.p.millis();
+      const currentTime = this.time;
       // Create new smoke particles periodically
-      if (currentTime - this.lastSmokeTime > 100) { // Every 100ms
+      if (!reducedMotion && currentTime - this.lastSmokeTime > 100) { // Every 100ms
         this.lastSmokeTime = currentTime;
         
         // Create particles at the precise position of the train's smokestack
@@ -179,30 +232,31 @@ export class Obstacle {
         // Position the smoke at specified position on the train
         // Note: in p5.js, coordinates are centered on the object (0,0 is center)
         // Using specific value of 40.0 as requested
-        const smokeStackX = this.direction > 0 ? 40.0 : -40.0; // Adjust based on train direction
+        const smokeStackX = direction > 0 ? 40.0 : -40.0; // Adjust based on train direction
         
         // Set vertical position to exactly -35.0 as requested in the latest update
         const smokeStackY = -35.0; // Updated vertical position
         
         // Create smoke particles at the train's position plus the smokestack offset
         // This handles the train's position correctly in the game world
-        const particle = new SmokeParticle(this.p, this.x + smokeStackX, this.y + smokeStackY);
+        const particle = new SmokeParticle(this.p, this.rng, x + smokeStackX, y + smokeStackY);
         
         // Give an initial horizontal boost in the train's direction
-        particle.vx += this.direction * 0.2; // Add some initial velocity in train's direction
+        particle.vx += direction * 0.2; // Add some initial velocity in train's direction
         this.smokeParticles.push(particle);
         
         // Occasionally add a second particle for more varied effect
-        if (Math.random() > 0.4) { // Increased probability for more particles
-          const offsetX = this.p.random(-2, 2);
-          const offsetY = this.p.random(-1, 1);
+        if (this.rng.next() > 0.4) { // Increased probability for more particles
+          const offsetX = this.rng.range(-2, 2);
+          const offsetY = this.rng.range(-1, 1);
           const particle2 = new SmokeParticle(
             this.p, 
-            this.x + smokeStackX + offsetX, 
-            this.y + smokeStackY + offsetY
+            this.rng,
+            x + smokeStackX + offsetX, 
+            y + smokeStackY + offsetY
           );
           // Also give this particle a direction boost
-          particle2.vx += this.direction * 0.15;
+          particle2.vx += direction * 0.15;
           this.smokeParticles.push(particle2);
         }
       }
@@ -210,9 +264,38 @@ export class Obstacle {
       // Update existing smoke particles
       this.smokeParticles = this.smokeParticles.filter(particle => particle.update());
     }
+    
+    // Kick up dust behind stagecoach wheels - only a trickle while pulled up
+    if (this.type === ObstacleType.STAGECOACH) {
+      const dustInterval = isObstacleStopping(this.state) ? 400 : 60;
+      
+      if (!reducedMotion && this.time - this.lastDustTime > dustInterval) {
+        this.lastDustTime = this.time;
+        
+        // Both wheels sit at the bottom of the sprite, 30% either side of center
+        const wheelY = y + this.state.height * 0.4;
+        const drift = -direction * this.state.speed * 0.3;
+        
+        for (const wheelOffset of [-0.3, 0.3]) {
+          const wheelX = x + wheelOffset * this.state.width * direction;
+          this.dustParticles.push(new DustParticle(this.p, this.rng, wheelX, wheelY, drift));
+        }
+      }
+      
+      this.dustParticles = this.dustParticles.filter(particle => particle.update());
+    }
   }
   
-  public draw() {
+  /**
+   * Draw the obstacle
+   * @param alpha Interpolation factor between the previous and current simulation step
+   */
+  public draw(alpha: number = 1) {
+    // Don't interpolate across a wrap-around jump
+    const renderX = Math.abs(this.state.x - this.state.prevX) > this.state.width
+      ? this.state.x
+      : this.p.lerp(this.state.prevX, this.state.x, alpha);
+    
     // First, if this is a train, draw smoke particles in world space
     if (this.type === ObstacleType.TRAIN && this.smokeParticles.length > 0) {
       // Draw all smoke particles before the train (to appear behind it)
@@ -220,10 +303,16 @@ export class Obstacle {
         particle.draw();
       }
     }
+    
+    // Stagecoach dust also sits behind the coach
+    for (const particle of this.dustParticles) {
+      particle.draw();
+    }
   
-    // Now draw the obstacle itself
+    // Now draw the obstacle itself - without the gallop and sway under reduced motion
+    const reducedMotion = useAccessibility.getState().reducedMotion;
     this.p.push();
-    this.p.translate(this.x, this.y);
+    this.p.translate(renderX, this.state.y);
     
     // Apply tumbleweed rotation
     if (this.type === ObstacleType.TUMBLEWEED) {
@@ -232,10 +321,10 @@ export class Obstacle {
       this.p.tint(120, 80, 40); // Darker brown
     } else if (this.type === ObstacleType.HORSE) {
       // For horses, apply galloping animation
-      const gallop = Math.sin(this.animationFrame) * 2;
+      const gallop = reducedMotion ? 0 : Math.sin(this.animationFrame) * 2;
       
       // Flip the image if moving left
-      if (this.direction < 0) {
+      if (this.state.direction < 0) {
         this.p.scale(-1, 1);
       }
       
@@ -246,7 +335,7 @@ export class Obstacle {
       this.p.tint(170, 140, 110);
     } else if (this.type === ObstacleType.TRAIN) {
       // Flip the image if moving left
-      if (this.direction < 0) {
+      if (this.state.direction < 0) {
         this.p.scale(-1, 1);
       }
       
@@ -255,9 +344,18 @@ export class Obstacle {
     } else if (this.type === ObstacleType.CACTUS) {
       // Make cacti darker for better visibility
       this.p.tint(0, 120, 0); // Darker green
+    } else if (this.type === ObstacleType.STAGECOACH) {
+      // Flip the image if moving left
+      if (this.state.direction < 0) {
+        this.p.scale(-1, 1);
+      }
+      
+      // Rock on the springs - gently while pulled up, harder at full tilt
+      const sway = reducedMotion ? 0 : this.state.speed / this.state.baseSpeed;
+      this.p.rotate(Math.sin(this.animationFrame * 0.8) * 0.025 * sway);
     } else {
       // Flip the image if moving left
-      if (this.direction < 0) {
+      if (this.state.direction < 0) {
         this.p.scale(-1, 1);
       }
     }
@@ -268,12 +366,12 @@ export class Obstacle {
       
       // For trains, use a slightly reduced visual width to help with overlap issues
       // while maintaining the same hitbox coordinates for collision detection
-      let displayWidth = this.width;
-      let displayHeight = this.height;
+      let displayWidth = this.state.width;
+      let displayHeight = this.state.height;
       
       if (this.type === ObstacleType.TRAIN) {
         // Scale down visual train size but keep the same hitbox
-        displayWidth = this.width * 0.85; // Visually 85% of original width
+        displayWidth = this.state.width * 0.85; // Visually 85% of original width
       }
       
       this.p.image(
@@ -293,6 +391,8 @@ export class Obstacle {
         this.p.fill(70, 70, 70); // Darker gray for trains
       } else if (this.type === ObstacleType.CACTUS) {
         this.p.fill(0, 100, 0); // Darker green for cacti
+      } else if (this.type === ObstacleType.STAGECOACH) {
+        this.p.fill(140, 62, 26); // Coach body red-brown
       } else {
         this.p.fill(100, 60, 20);
       }
@@ -300,11 +400,11 @@ export class Obstacle {
       this.p.rectMode(this.p.CENTER);
       
       // Scale down the visual representation for trains in the fallback drawing too
-      let displayWidth = this.width;
-      let displayHeight = this.height;
+      let displayWidth = this.state.width;
+      let displayHeight = this.state.height;
       
       if (this.type === ObstacleType.TRAIN) {
-        displayWidth = this.width * 0.85; // Match the 85% scale used for images
+        displayWidth = this.state.width * 0.85; // Match the 85% scale used for images
       }
       
       this.p.rect(0, 0, displayWidth, displayHeight);
@@ -315,33 +415,4 @@ export class Obstacle {
     
     this.p.pop();
   }
-  
-  public getRect() {
-    // Make the hitbox smaller than the visual size for more forgiving collisions
-    // Use different hitbox sizes based on obstacle type
-    let hitboxWidthPercentage = 0.9; // Default 90% of visual width
-    let hitboxHeightPercentage = 0.9; // Default 90% of visual height
-    
-    // Make train hitboxes much smaller to help prevent train overlaps
-    if (this.type === ObstacleType.TRAIN) {
-      hitboxWidthPercentage = 0.7; // Only 70% of visual width for trains
-      hitboxHeightPercentage = 0.8; // 80% of visual height
-    } else if (this.type === ObstacleType.HORSE) {
-      hitboxWidthPercentage = 0.8; // 80% of visual width for horses
-    }
-    
-    const hitboxWidth = this.width * hitboxWidthPercentage;
-    const hitboxHeight = this.height * hitboxHeightPercentage;
-    
-    return {
-      x: this.x - hitboxWidth / 2,
-      y: this.y - hitboxHeight / 2,
-      width: hitboxWidth,
-      height: hitboxHeight
-    };
-  }
-  
-  public isDeadly(): boolean {
-    return OBSTACLE_PROPERTIES[this.type].deadly;
-  }
 }
@@ -0,0 +1,194 @@
+import p5 from 'p5';
+import { Random } from '@shared/game/random';
+import { useAccessibility } from '../lib/stores/useAccessibility';
+
+type RGB = [number, number, number];
+
+/**
+ * Look and motion of the particles in a collection burst
+ */
+export interface BurstStyle {
+  speed: [number, number]; // Range of launch speeds
+  size: [number, number]; // Range of particle sizes
+  color: (rng: Random) => RGB;
+  trailColor: RGB;
+  trailOpacity: number; // Trail alpha as a share of the particle's
+  trailLength: number; // Points kept in the trail
+  trailFade: number; // Alpha lost by trail points each step
+  gravity: number;
+  fade: number; // Alpha lost each step
+}
+
+export interface BurstOptions {
+  count: number;
+  sizeScale: number; // Multiplier on the main particles' size
+  sparks: number; // Larger, slower particles mixed in
+  sparkSize: [number, number];
+  sparkSpeed: number; // Multiplier on the sparks' launch speed
+}
+
+// Burst particle with a short fading trail
+class BurstParticle {
+  private p: p5;
+  private style: BurstStyle;
+  private x: number;
+  private y: number;
+  public vx: number;
+  public vy: number;
+  private alpha: number;
+  private color: p5.Color;
+  public size: number;
+  private trail: {x: number, y: number, alpha: number}[];
+
+  constructor(p: p5, rng: Random, style: BurstStyle, x: number, y: number) {
+    this.p = p;
+    this.style = style;
+    this.x = x;
+    this.y = y;
+
+    // Random direction and speed
+    const angle = rng.range(0, p.TWO_PI);
+    const speed = rng.range(style.speed[0], style.speed[1]);
+    this.vx = p.cos(angle) * speed;
+    this.vy = p.sin(angle) * speed;
+
+    // Start fully opaque and fade out
+    this.alpha = 255;
+    this.color = p.color(...style.color(rng));
+    this.size = rng.range(style.size[0], style.size[1]);
+    this.trail = [];
+  }
+
+  update() {
+    // Add current position to trail with current alpha
+    this.trail.push({ x: this.x, y: this.y, alpha: this.alpha });
+    if (this.trail.length > this.style.trailLength) {
+      this.trail.shift();
+    }
+
+    for (const point of this.trail) {
+      point.alpha -= this.style.trailFade;
+    }
+
+    this.x += this.vx;
+    this.y += this.vy;
+    this.vy += this.style.gravity;
+    this.alpha -= this.style.fade;
+
+    // Return true if the particle is still visible
+    return this.alpha > 0;
+  }
+
+  draw() {
+    this.p.push();
+    this.p.noStroke();
+
+    const [r, g, b] = this.style.trailColor;
+    for (const point of this.trail) {
+      this.p.fill(r, g, b, point.alpha * this.style.trailOpacity);
+      const trailSize = this.size * 0.7;
+      this.p.ellipse(point.x, point.y, trailSize, trailSize);
+    }
+
+    this.color.setAlpha(this.alpha);
+    this.p.fill(this.color);
+    this.p.ellipse(this.x, this.y, this.size, this.size);
+
+    this.p.pop();
+  }
+}
+
+/**
+ * The particle burst and floating score popup a pickup plays when it's
+ * collected. Coins and power-ups each own one.
+ */
+export class PickupEffects {
+  private p: p5;
+  private rng: Random;
+  private style: BurstStyle;
+  private particles: BurstParticle[];
+  private popup: { x: number, y: number, value: number, label?: string, alpha: number } | null;
+
+  constructor(p: p5, rng: Random, style: BurstStyle) {
+    this.p = p;
+    this.rng = rng;
+    this.style = style;
+    this.particles = [];
+    this.popup = null;
+  }
+
+  /**
+   * Whether anything is still playing
+   */
+  public get active(): boolean {
+    return this.particles.length > 0 || this.popup !== null;
+  }
+
+  /**
+   * Throw out a burst of particles - skipped with reduced motion
+   */
+  public burst(x: number, y: number, options: BurstOptions) {
+    if (useAccessibility.getState().reducedMotion) return;
+
+    for (let i = 0; i < options.count; i++) {
+      const particle = new BurstParticle(this.p, this.rng, this.style, x, y);
+      particle.size *= options.sizeScale;
+      this.particles.push(particle);
+    }
+
+    for (let i = 0; i < options.sparks; i++) {
+      const spark = new BurstParticle(this.p, this.rng, this.style, x, y);
+      spark.size = this.rng.range(options.sparkSize[0], options.sparkSize[1]);
+      spark.vx *= options.sparkSpeed;
+      spark.vy *= options.sparkSpeed;
+      this.particles.push(spark);
+    }
+  }
+
+  /**
+   * Float the points awarded up from a position, with an optional caption below
+   */
+  public showPopup(x: number, y: number, value: number, label?: string) {
+    this.popup = { x, y, value, label, alpha: 255 };
+  }
+
+  /**
+   * Advance the effects by one simulation step
+   */
+  public update() {
+    if (this.popup) {
+      // The popup fades in place with reduced motion rather than floating up
+      if (!useAccessibility.getState().reducedMotion) {
+        this.popup.y -= 2;
+      }
+      this.popup.alpha -= 5;
+      if (this.popup.alpha <= 0) {
+        this.popup = null;
+      }
+    }
+
+    this.particles = this.particles.filter(particle => particle.update());
+  }
+
+  public draw() {
+    for (const particle of this.particles) {
+      particle.draw();
+    }
+
+    if (!this.popup) return;
+
+    this.p.push();
+    this.p.textAlign(this.p.CENTER);
+    this.p.textStyle(this.p.BOLD);
+    this.p.textSize(24);
+    this.p.fill(255, 215, 0, this.popup.alpha); // Gold
+    this.p.text(`+${this.popup.value}`, this.popup.x, this.popup.y);
+
+    if (this.popup.label) {
+      this.p.textSize(18);
+      this.p.fill(255, 255, 255, this.popup.alpha);
+      this.p.text(this.popup.label, this.popup.x, this.popup.y + 25);
+    }
+    this.p.pop();
+  }
+}
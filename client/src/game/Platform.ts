@@ -0,0 +1,151 @@
+import p5 from 'p5';
+import { PlatformType } from './constants';
+import type { PlatformState } from '@shared/game/platform';
+
+/**
+ * Draws a river platform from simulation state
+ */
+export class Platform {
+  private p: p5;
+  public state: PlatformState;
+  private time: number = 0; // Simulation time in milliseconds
+
+  constructor(p: p5, state: PlatformState) {
+    this.p = p;
+    this.state = state;
+  }
+
+  /**
+   * Advance the bobbing animation by one simulation step
+   * @param dt Step size in milliseconds
+   */
+  public update(dt: number) {
+    this.time += dt;
+  }
+
+  /**
+   * Draw the platform
+   * @param alpha Interpolation factor between the previous and current simulation step
+   */
+  public draw(alpha: number = 1) {
+    // Don't interpolate across a wrap-around jump
+    const renderX = Math.abs(this.state.x - this.state.prevX) > this.state.width
+      ? this.state.x
+      : this.p.lerp(this.state.prevX, this.state.x, alpha);
+
+    // Gentle bob on the current
+    const bob = Math.sin(this.time / 400 + this.state.id) * 1.5;
+
+    this.p.push();
+    this.p.translate(renderX, this.state.y + bob);
+
+    if (this.state.direction < 0) {
+      this.p.scale(-1, 1);
+    }
+
+    this.p.rectMode(this.p.CENTER);
+
+    switch (this.state.type) {
+      case PlatformType.LOG:
+        this.drawLog();
+        break;
+      case PlatformType.RAFT:
+        this.drawRaft();
+        break;
+      case PlatformType.RIVERBOAT:
+        this.drawRiverboat();
+        break;
+    }
+
+    this.p.pop();
+  }
+
+  private drawLog() {
+    const { width, height } = this.state;
+
+    // Trunk
+    this.p.stroke(70, 40, 15);
+    this.p.strokeWeight(2);
+    this.p.fill(125, 80, 40);
+    this.p.rect(0, 0, width, height, height / 2);
+
+    // Bark grain
+    this.p.stroke(95, 60, 25);
+    this.p.strokeWeight(1.5);
+    for (let x = -width / 2 + 25; x < width / 2 - 25; x += 22) {
+      this.p.line(x, -height / 4, x + 12, -height / 4);
+      this.p.line(x + 8, height / 5, x + 20, height / 5);
+    }
+
+    // Cut ends show the rings
+    this.p.stroke(110, 70, 30);
+    this.p.fill(205, 160, 105);
+    this.p.ellipse(width / 2 - height / 4, 0, height / 2, height - 4);
+    this.p.noFill();
+    this.p.ellipse(width / 2 - height / 4, 0, height / 4, (height - 4) / 2);
+  }
+
+  private drawRaft() {
+    const { width, height } = this.state;
+    const plankCount = 5;
+    const plankWidth = width / plankCount;
+
+    // Planks
+    this.p.stroke(90, 55, 20);
+    this.p.strokeWeight(1.5);
+    this.p.fill(175, 125, 70);
+    for (let i = 0; i < plankCount; i++) {
+      const x = -width / 2 + plankWidth * (i + 0.5);
+      this.p.rect(x, 0, plankWidth - 2, height, 3);
+    }
+
+    // Rope lashings across the planks
+    this.p.stroke(215, 190, 140);
+    this.p.strokeWeight(2.5);
+    this.p.line(-width / 2, -height / 3, width / 2, -height / 3);
+    this.p.line(-width / 2, height / 3, width / 2, height / 3);
+  }
+
+  private drawRiverboat() {
+    const { width, height } = this.state;
+
+    // Hull
+    this.p.stroke(60, 25, 20);
+    this.p.strokeWeight(2);
+    this.p.fill(140, 40, 35);
+    this.p.beginShape();
+    this.p.vertex(-width / 2, -height / 2);
+    this.p.vertex(width / 2 - height / 2, -height / 2);
+    this.p.vertex(width / 2, 0);
+    this.p.vertex(width / 2 - height / 2, height / 2);
+    this.p.vertex(-width / 2, height / 2);
+    this.p.endShape(this.p.CLOSE);
+
+    // Deck
+    this.p.noStroke();
+    this.p.fill(230, 215, 180);
+    this.p.rect(-width * 0.05, 0, width * 0.7, height * 0.55, 3);
+
+    // Paddle wheel at the stern
+    this.p.stroke(60, 25, 20);
+    this.p.fill(180, 50, 40);
+    this.p.ellipse(-width / 2 + height / 2, 0, height * 0.8, height * 0.8);
+    const spokeAngle = this.time / 150;
+    for (let i = 0; i < 4; i++) {
+      const angle = spokeAngle + (i * Math.PI) / 4;
+      const r = height * 0.4;
+      this.p.line(
+        -width / 2 + height / 2 - Math.cos(angle) * r,
+        -Math.sin(angle) * r,
+        -width / 2 + height / 2 + Math.cos(angle) * r,
+        Math.sin(angle) * r
+      );
+    }
+
+    // Twin smokestacks
+    this.p.noStroke();
+    this.p.fill(40, 40, 40);
+    this.p.rect(width * 0.15, -height * 0.05, 8, height * 0.45);
+    this.p.rect(width * 0.25, -height * 0.05, 8, height * 0.45);
+  }
+}
@@ -0,0 +1,206 @@
+import p5 from 'p5';
+import { loadImage } from './assets';
+import { PowerUpType, SIMULATION_STEP_MS } from './constants';
+import { PickupEffects, type BurstStyle } from './PickupEffects';
+import { Random } from '@shared/game/random';
+import type { PowerUpState } from '@shared/game/pickups';
+import { useAccessibility } from '../lib/stores/useAccessibility';
+
+type RGB = [number, number, number];
+
+interface PowerUpLook {
+  image?: string; // Sprite, drawn procedurally if not set
+  glow: RGB;
+  label: string; // Caption under the score popup
+}
+
+const POWER_UP_LOOKS: Record<PowerUpType, PowerUpLook> = {
+  [PowerUpType.BADGE]: { image: '/assets/sheriffbadge.png', glow: [255, 215, 0], label: 'INVINCIBLE!' },
+  [PowerUpType.MAGNET]: { glow: [220, 60, 50], label: 'COIN MAGNET!' },
+  [PowerUpType.HOURGLASS]: { glow: [120, 170, 255], label: 'SLOW DOWN!' },
+  [PowerUpType.HORSESHOE]: { glow: [90, 200, 90], label: '+1 LIFE!' },
+  [PowerUpType.SPURS]: { glow: [210, 210, 225], label: 'SPURS!' },
+};
+
+// Gold burst, bigger and faster than the coin fireworks
+const BURST_STYLE: BurstStyle = {
+  speed: [3, 6],
+  size: [5, 10],
+  color: rng => [rng.range(200, 255), rng.range(160, 220), rng.range(0, 50)],
+  trailColor: [255, 215, 0],
+  trailOpacity: 0.6,
+  trailLength: 4,
+  trailFade: 20,
+  gravity: 0.09,
+  fade: 5,
+};
+
+/**
+ * Draws a power-up from simulation state, with its collection effects
+ */
+export class PowerUp {
+  private p: p5;
+  private state: PowerUpState;
+  private look: PowerUpLook;
+  private image: p5.Image | null;
+  private animationOffset: number;
+  private effects: PickupEffects;
+  private animationTime: number; // Simulation time in milliseconds
+
+  constructor(p: p5, rng: Random, state: PowerUpState) {
+    this.p = p;
+    this.state = state;
+    this.look = POWER_UP_LOOKS[state.type];
+    this.image = null;
+    this.animationOffset = rng.range(0, 2 * p.PI); // Random starting point for animation
+    this.effects = new PickupEffects(p, rng, BURST_STYLE);
+    this.animationTime = 0;
+
+    this.loadAssets();
+  }
+
+  private async loadAssets() {
+    if (!this.look.image) return;
+
+    try {
+      this.image = await loadImage(this.p, this.look.image);
+    } catch (error) {
+      console.error(`Failed to load ${this.state.type} image:`, error);
+    }
+  }
+
+  /**
+   * Advance the hover and collection animations by one simulation step
+   * @param dt Step size in milliseconds
+   */
+  public update(dt: number) {
+    this.animationTime += dt;
+    this.effects.update();
+  }
+
+  public draw() {
+    // Collection effects play on after the power-up itself is gone
+    this.effects.draw();
+    if (this.state.collected) return;
+
+    const { x, y, width, height } = this.state;
+
+    // Hover and rotate animation to make it stand out, held still with reduced motion
+    const animationFrame = this.animationTime / SIMULATION_STEP_MS;
+    const still = useAccessibility.getState().reducedMotion;
+    const hoverOffset = still ? 0 : this.p.sin(animationFrame * 0.06 + this.animationOffset) * 6;
+    const rotationAngle = still ? 0 : this.p.sin(animationFrame * 0.03) * 0.1; // Subtle rotation
+
+    const pulseIntensity = (
+      0.4 + // Base opacity of 40%
+      0.15 * this.p.sin(animationFrame * 0.1) // Pulsing effect +/- 15%
+    );
+
+    // The glow matches the pickup hitbox, which is larger near the bottom
+    const glowExpandFactor = y > 300 ? 1.6 : 1.45;
+
+    this.p.push();
+    this.p.noStroke();
+    this.p.fill(...this.look.glow, 70 * pulseIntensity);
+    this.p.ellipseMode(this.p.CENTER);
+    this.p.ellipse(x, y + hoverOffset, width * glowExpandFactor, height * glowExpandFactor);
+
+    this.p.translate(x, y + hoverOffset);
+    this.p.rotate(rotationAngle);
+
+    if (this.image) {
+      this.p.imageMode(this.p.CENTER);
+      this.p.image(this.image, 0, 0, width, height);
+    } else {
+      this.drawIcon(width / 2);
+    }
+
+    this.p.pop();
+  }
+
+  /**
+   * Procedural icon centered on the origin
+   * @param radius Half the power-up's width
+   */
+  private drawIcon(radius: number) {
+    const p = this.p;
+
+    switch (this.state.type) {
+      case PowerUpType.MAGNET:
+        // Red horseshoe magnet with silver tips
+        p.noFill();
+        p.strokeCap(p.SQUARE);
+        p.strokeWeight(radius * 0.35);
+        p.stroke(200, 40, 40);
+        p.arc(0, 0, radius * 1.2, radius * 1.2, 0, p.PI);
+        p.line(-radius * 0.6, 0, -radius * 0.6, -radius * 0.5);
+        p.line(radius * 0.6, 0, radius * 0.6, -radius * 0.5);
+        p.stroke(220, 220, 230);
+        p.line(-radius * 0.6, -radius * 0.5, -radius * 0.6, -radius * 0.8);
+        p.line(radius * 0.6, -radius * 0.5, radius * 0.6, -radius * 0.8);
+        break;
+      case PowerUpType.HOURGLASS:
+        // Wooden frame with sand running through
+        p.noStroke();
+        p.fill(120, 80, 40);
+        p.rectMode(p.CENTER);
+        p.rect(0, -radius * 0.8, radius * 1.3, radius * 0.2);
+        p.rect(0, radius * 0.8, radius * 1.3, radius * 0.2);
+        p.fill(220, 235, 255, 200);
+        p.triangle(-radius * 0.5, -radius * 0.7, radius * 0.5, -radius * 0.7, 0, 0);
+        p.triangle(-radius * 0.5, radius * 0.7, radius * 0.5, radius * 0.7, 0, 0);
+        p.fill(230, 190, 110);
+        p.triangle(-radius * 0.25, -radius * 0.35, radius * 0.25, -radius * 0.35, 0, 0);
+        p.triangle(-radius * 0.45, radius * 0.7, radius * 0.45, radius * 0.7, 0, radius * 0.3);
+        break;
+      case PowerUpType.HORSESHOE:
+        // Iron shoe, open end up for luck
+        p.noFill();
+        p.strokeCap(p.ROUND);
+        p.strokeWeight(radius * 0.3);
+        p.stroke(140, 140, 150);
+        p.arc(0, 0, radius * 1.3, radius * 1.4, -p.PI * 0.1, p.PI * 1.1);
+        p.noStroke();
+        p.fill(60, 60, 70);
+        for (const angle of [0.25, 0.5, 0.75]) {
+          p.ellipse(Math.cos(p.PI * angle) * radius * 0.65, Math.sin(p.PI * angle) * radius * 0.7, 4, 4);
+        }
+        break;
+      case PowerUpType.SPURS:
+        // Spur rowel - a spiked silver wheel
+        p.noStroke();
+        p.fill(200, 200, 215);
+        p.beginShape();
+        for (let i = 0; i < 16; i++) {
+          const r = i % 2 === 0 ? radius * 0.9 : radius * 0.45;
+          const angle = (i * Math.PI) / 8 + this.animationTime * 0.004;
+          p.vertex(Math.cos(angle) * r, Math.sin(angle) * r);
+        }
+        p.endShape(p.CLOSE);
+        p.fill(120, 120, 135);
+        p.ellipse(0, 0, radius * 0.4, radius * 0.4);
+        break;
+      default:
+        // Badge fallback if the image isn't loaded: a five-point star
+        p.noStroke();
+        p.fill(255, 215, 0);
+        p.beginShape();
+        for (let i = 0; i < 10; i++) {
+          const r = i % 2 === 0 ? radius : radius * 0.4;
+          const angle = (i * Math.PI) / 5;
+          p.vertex(Math.cos(angle) * r, Math.sin(angle) * r);
+        }
+        p.endShape(p.CLOSE);
+    }
+  }
+
+  /**
+   * Play the collection effects once the simulation reports the pickup
+   * @param points Points awarded, shown in the popup
+   */
+  public collect(points: number) {
+    const { x, y } = this.state;
+    this.effects.burst(x, y, { count: 70, sizeScale: 1.3, sparks: 15, sparkSize: [10, 18], sparkSpeed: 0.7 });
+    this.effects.showPopup(x, y, points, this.look.label);
+  }
+}
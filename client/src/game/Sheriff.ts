@@ -0,0 +1,124 @@
+import p5 from 'p5';
+import { loadImage } from './assets';
+import { SHERIFF_WIDTH, SHERIFF_HEIGHT, SIMULATION_STEP_MS } from './constants';
+import { isSheriffFleeing, type SheriffState } from '@shared/game/sheriff';
+
+/**
+ * Draws the pursuing sheriff from simulation state, with his arrival banner
+ */
+export class Sheriff {
+  private p: p5;
+  private image: p5.Image | null;
+  private animationTime: number; // Simulation time in milliseconds
+  private banner: { alpha: number } | null; // "Sheriff's in town" banner shown on arrival
+
+  constructor(p: p5) {
+    this.p = p;
+    this.image = null;
+    this.animationTime = 0;
+    this.banner = null;
+
+    this.loadAssets();
+  }
+
+  private async loadAssets() {
+    try {
+      this.image = await loadImage(this.p, '/assets/horse.png');
+    } catch (error) {
+      console.error('Failed to load sheriff image:', error);
+    }
+  }
+
+  /**
+   * Advance the gallop and banner animations by one simulation step
+   * @param dt Step size in milliseconds
+   */
+  public update(dt: number) {
+    this.animationTime += dt;
+
+    if (this.banner) {
+      this.banner.alpha -= 2;
+      if (this.banner.alpha <= 0) {
+        this.banner = null;
+      }
+    }
+  }
+
+  /**
+   * Show the arrival banner once the simulation reports him riding in
+   */
+  public arrive() {
+    this.banner = { alpha: 255 };
+  }
+
+  /**
+   * Draw the sheriff
+   * @param time Simulation time in milliseconds
+   * @param alpha Interpolation factor between the previous and current simulation step
+   */
+  public draw(sheriff: SheriffState, cellWidth: number, cellHeight: number, time: number, alpha: number = 1) {
+    if (!sheriff.arrived) return;
+
+    const pixelX = this.p.lerp(sheriff.prevX, sheriff.x, alpha) * cellWidth + cellWidth / 2;
+    const pixelY = this.p.lerp(sheriff.prevY, sheriff.y, alpha) * cellHeight + cellHeight / 2;
+    const fleeing = isSheriffFleeing(sheriff, time);
+    const animationFrame = this.animationTime / SIMULATION_STEP_MS;
+
+    this.p.push();
+    this.p.translate(pixelX, pixelY);
+
+    // Gallop bob, faster while he's on the run
+    this.p.translate(0, Math.sin(animationFrame * (fleeing ? 0.5 : 0.3)) * 2);
+
+    this.p.push();
+    if (sheriff.facing < 0) {
+      this.p.scale(-1, 1);
+    }
+
+    // Dark horse so he stands out from the road traffic, washed out while fleeing
+    if (fleeing) {
+      this.p.tint(200, 200, 255, 150);
+    } else {
+      this.p.tint(90, 60, 40);
+    }
+
+    if (this.image) {
+      this.p.imageMode(this.p.CENTER);
+      this.p.image(this.image, 0, 0, SHERIFF_WIDTH, SHERIFF_HEIGHT);
+    } else {
+      this.p.noStroke();
+      this.p.fill(70, 45, 25, fleeing ? 150 : 255);
+      this.p.rectMode(this.p.CENTER);
+      this.p.rect(0, 0, SHERIFF_WIDTH * 0.8, SHERIFF_HEIGHT * 0.6, 8);
+    }
+    this.p.pop();
+
+    // Tin star so nobody mistakes him for a stray horse
+    this.p.noStroke();
+    this.p.fill(255, 215, 0, fleeing ? 120 : 255);
+    this.drawStar(0, -SHERIFF_HEIGHT * 0.35, 9);
+
+    this.p.pop();
+
+    if (this.banner) {
+      this.p.push();
+      this.p.textAlign(this.p.CENTER);
+      this.p.textSize(22);
+      this.p.textStyle(this.p.BOLD);
+      this.p.fill(140, 30, 20, this.banner.alpha);
+      this.p.text("THE SHERIFF'S IN TOWN!", pixelX, pixelY - SHERIFF_HEIGHT * 0.7);
+      this.p.pop();
+    }
+  }
+
+  private drawStar(x: number, y: number, radius: number) {
+    const points = 5;
+    this.p.beginShape();
+    for (let i = 0; i < points * 2; i++) {
+      const r = i % 2 === 0 ? radius : radius * 0.45;
+      const angle = (i * Math.PI) / points - Math.PI / 2;
+      this.p.vertex(x + Math.cos(angle) * r, y + Math.sin(angle) * r);
+    }
+    this.p.endShape(this.p.CLOSE);
+  }
+}
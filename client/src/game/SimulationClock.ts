@@ -0,0 +1,81 @@
+import { SIMULATION_STEP_MS, MAX_FRAME_TIME } from './constants';
+
+/**
+ * Fixed-timestep simulation clock.
+ * Real frame time is banked in an accumulator and spent in fixed
+ * SIMULATION_STEP_MS slices, so the game runs at the same speed on a
+ * 60 Hz laptop and a 144 Hz monitor. The leftover fraction of a step is
+ * returned so rendering can interpolate between the last two states.
+ */
+export class SimulationClock {
+  private lastFrameTime: number | null;
+  private accumulator: number;
+  private tick: number;
+
+  constructor() {
+    this.lastFrameTime = null;
+    this.accumulator = 0;
+    this.tick = 0;
+  }
+
+  /**
+   * Advance the clock to the current frame time, running as many fixed steps as are due
+   * @param frameTime Current wall-clock time in milliseconds (e.g. p.millis())
+   * @param step Called once per simulation step with the fixed step size
+   * @returns Interpolation factor (0-1) between the previous and current step
+   */
+  public advance(frameTime: number, step: (dt: number, tick: number) => void): number {
+    if (this.lastFrameTime === null) {
+      this.lastFrameTime = frameTime;
+    }
+
+    // Clamp long frames (tab switches, breakpoints) so we don't try to catch up all at once
+    const frameDelta = Math.min(frameTime - this.lastFrameTime, MAX_FRAME_TIME);
+    this.lastFrameTime = frameTime;
+    this.accumulator += Math.max(0, frameDelta);
+
+    while (this.accumulator >= SIMULATION_STEP_MS) {
+      step(SIMULATION_STEP_MS, this.tick);
+      this.tick++;
+      this.accumulator -= SIMULATION_STEP_MS;
+    }
+
+    return this.getAlpha();
+  }
+
+  /**
+   * Stop counting wall-clock time until the next advance() call
+   */
+  public stop() {
+    this.lastFrameTime = null;
+    this.accumulator = 0;
+  }
+
+  /**
+   * Freeze the clock - wall-clock time passing until the next advance() call
+   * is not banked, but the part of a step already banked is kept
+   */
+  public pause() {
+    this.lastFrameTime = null;
+  }
+
+  /**
+   * Interpolation factor (0-1) between the previous and current step, e.g. to
+   * keep drawing the frozen frame while paused
+   */
+  public getAlpha(): number {
+    return this.accumulator / SIMULATION_STEP_MS;
+  }
+
+  /**
+   * Restart the clock from tick 0 (e.g. at the start of a level)
+   */
+  public reset() {
+    this.stop();
+    this.tick = 0;
+  }
+
+  public getTick(): number {
+    return this.tick;
+  }
+}
@@ -0,0 +1,120 @@
+import p5 from 'p5';
+import { TerrainType } from './constants';
+import { loadImage } from './assets';
+import { isCellBlocked, type TerrainCell, type TerrainState } from '@shared/game/terrain';
+
+/**
+ * Draws the static terrain that blocks movement in safe zones
+ */
+export class Terrain {
+  private p: p5;
+  private cactusImage: p5.Image | null;
+
+  constructor(p: p5) {
+    this.p = p;
+    this.cactusImage = null;
+
+    this.loadAssets();
+  }
+
+  private async loadAssets() {
+    try {
+      this.cactusImage = await loadImage(this.p, '/assets/cactus.svg');
+    } catch (error) {
+      console.error('Failed to load cactus image:', error);
+    }
+  }
+
+  public draw(terrain: TerrainState, cellWidth: number, cellHeight: number) {
+    for (const cell of terrain.cells) {
+      const x = cell.column * cellWidth + cellWidth / 2;
+      const y = cell.row * cellHeight + cellHeight / 2;
+
+      this.p.push();
+      this.p.translate(x, y);
+
+      switch (cell.type) {
+        case TerrainType.CACTUS:
+          this.drawCactus(cellHeight);
+          break;
+        case TerrainType.ROCK:
+          this.drawRock(cellWidth, cellHeight);
+          break;
+        case TerrainType.FENCE:
+          this.drawFence(terrain, cell, cellWidth, cellHeight);
+          break;
+      }
+
+      this.p.pop();
+    }
+  }
+
+  private drawCactus(cellHeight: number) {
+    // Taller than the cell so it reads as an obstacle, rooted at the bottom of the lane
+    const height = cellHeight * 1.6;
+    const width = height * 0.7;
+
+    if (this.cactusImage) {
+      this.p.imageMode(this.p.CENTER);
+      this.p.tint(0, 140, 0); // Match the darker cactus obstacles
+      this.p.image(this.cactusImage, 0, cellHeight / 2 - height / 2, width, height);
+      this.p.noTint();
+    } else {
+      this.p.noStroke();
+      this.p.fill(0, 100, 0);
+      this.p.rectMode(this.p.CENTER);
+      this.p.rect(0, cellHeight / 2 - height / 2, width * 0.35, height, 6);
+    }
+  }
+
+  private drawRock(cellWidth: number, cellHeight: number) {
+    const width = cellWidth * 0.6;
+    const height = cellHeight * 0.85;
+
+    this.p.stroke(70, 60, 50);
+    this.p.strokeWeight(2);
+    this.p.fill(135, 120, 100);
+    this.p.beginShape();
+    this.p.vertex(-width / 2, height / 2);
+    this.p.vertex(-width * 0.4, -height * 0.1);
+    this.p.vertex(-width * 0.15, -height / 2);
+    this.p.vertex(width * 0.25, -height * 0.4);
+    this.p.vertex(width / 2, height * 0.05);
+    this.p.vertex(width * 0.45, height / 2);
+    this.p.endShape(this.p.CLOSE);
+
+    // Highlight on the sunny side
+    this.p.noStroke();
+    this.p.fill(175, 160, 140);
+    this.p.ellipse(-width * 0.1, -height * 0.2, width * 0.3, height * 0.25);
+  }
+
+  private drawFence(terrain: TerrainState, cell: TerrainCell, cellWidth: number, cellHeight: number) {
+    const postHeight = cellHeight * 0.9;
+    const postWidth = 6;
+
+    // Rails run to the cell edge wherever the fence continues into the next cell
+    const joinsLeft = isFence(terrain, cell.column - 1, cell.row);
+    const joinsRight = isFence(terrain, cell.column + 1, cell.row);
+    const railLeft = joinsLeft ? -cellWidth / 2 : -cellWidth * 0.3;
+    const railRight = joinsRight ? cellWidth / 2 : cellWidth * 0.3;
+
+    this.p.stroke(90, 55, 25);
+    this.p.strokeWeight(4);
+    this.p.line(railLeft, -postHeight * 0.25, railRight, -postHeight * 0.25);
+    this.p.line(railLeft, postHeight * 0.15, railRight, postHeight * 0.15);
+
+    this.p.noStroke();
+    this.p.fill(120, 75, 35);
+    this.p.rectMode(this.p.CENTER);
+    this.p.rect(-cellWidth * 0.3, 0, postWidth, postHeight, 2);
+    this.p.rect(cellWidth * 0.3, 0, postWidth, postHeight, 2);
+  }
+}
+
+function isFence(terrain: TerrainState, column: number, row: number): boolean {
+  return (
+    isCellBlocked(terrain, column, row) &&
+    terrain.cells.some(cell => cell.column === column && cell.row === row && cell.type === TerrainType.FENCE)
+  );
+}
@@ -1,77 +1,12 @@
-// Game constants
+// Client-side constants: rendering, input and UI
+export * from '@shared/game/constants';
 
-// Canvas and scaling
-export const BASE_WIDTH = 800;
-export const BASE_HEIGHT = 600;
-export const GRID_CELLS_X = 10;
-export const GRID_CELLS_Y = 30; // Extended for scrolling
+// Camera
 export const VISIBLE_CELLS_Y = 8; // Reduced to zoom in more (was 10)
+export const MAX_FRAME_TIME = 250; // Longest real frame the clock will catch up on
 
-// Player
-export const PLAYER_WIDTH = 65; // Increased from 40 for better visibility
-export const PLAYER_HEIGHT = 65; // Increased from 40 for better visibility
-export const PLAYER_MOVE_COOLDOWN = 80; // Slightly reduced for more responsive controls
-export const PLAYER_MOVE_SPEED = 0.1; // Significantly reduced for tighter movement
-
-// Game mechanics
-export const STARTING_LIVES = 3;
-export const POINTS_FOR_CROSSING = 100;
-export const POINTS_FOR_MONEYBAG = 500; // Points for reaching a money bag
-export const POINTS_FOR_COIN = 1000; // Increased to 1000 to make coins more rewarding
-export const TIME_BONUS_FACTOR = 10;
-
-// Coin settings
-export const COIN_WIDTH = 45; // Increased from 30 for better visibility
-export const COIN_HEIGHT = 45; // Increased from 30 for better visibility
-export const COINS_PER_LANE = 3; // Average number of coins per lane
-
-// Sheriff Badge settings
-export const SHERIFF_BADGE_WIDTH = 55; // Slightly larger than coins for better visibility
-export const SHERIFF_BADGE_HEIGHT = 55; // Slightly larger than coins for better visibility
-export const SHERIFF_BADGES_PER_LEVEL = 0; // Base value - actual count determined by level
-export const INVINCIBILITY_DURATION = 3000; // 3 seconds of invincibility
-export const POINTS_FOR_BADGE = 500; // Points for collecting a sheriff badge
-
-// Level design
-export const INITIAL_OBSTACLE_SPEED = 1;
-export const SPEED_INCREMENT_PER_LEVEL = 0.3;
-export const MAX_OBSTACLE_SPEED = 5;
-
-// Obstacle patterns and types
-export enum ObstacleType {
-  HORSE = 'horse',
-  TUMBLEWEED = 'tumbleweed',
-  TRAIN = 'train',
-  CACTUS = 'cactus'
-}
-
-// Obstacle properties
-export const OBSTACLE_PROPERTIES = {
-  [ObstacleType.HORSE]: {
-    width: 130, // Increased from 80 for better visibility
-    height: 65, // Increased from 40 for better visibility
-    speedMultiplier: 1.5,
-    deadly: true
-  },
-  [ObstacleType.TUMBLEWEED]: {
-    width: 65, // Increased from 40 for better visibility
-    height: 65, // Increased from 40 for better visibility
-    speedMultiplier: 2,
-    deadly: true
-  },
-  [ObstacleType.TRAIN]: {
-    width: 200, // Increased from 140 for better visibility
-    height: 90, // Increased from 60 for better visibility
-    speedMultiplier: 0.8,
-    deadly: true
-  },
-  [ObstacleType.CACTUS]: {
-    width: 65, // Increased from 40 for better visibility
-    height: 90, // Increased from 60 for better visibility
-    speedMultiplier: 0,
-    deadly: true
-  }
-};
+// HUD
+export const TIME_WARNING_SECONDS = 10; // The level clock turns red and ticks from here
 
 // Colors
 export const COLORS = {
@@ -85,16 +20,106 @@ export const COLORS = {
   LIVES: '#8c2f20' // reddish brown
 };
 
-// Control keys
+export type Palette = 'standard' | 'deuteranopia' | 'protanopia' | 'tritanopia';
+
+interface LanePalette {
+  name: string;
+  BACKGROUND: string;
+  SAFE_ZONE: string;
+  ROAD: string;
+  RIVER: string;
+}
+
+// Lane colors for each accessibility palette. The colorblind ones keep road,
+// safe ground and water apart by lightness as well as hue.
+export const LANE_PALETTES: Record<Palette, LanePalette> = {
+  standard: {
+    name: 'Standard',
+    BACKGROUND: COLORS.BACKGROUND,
+    SAFE_ZONE: COLORS.SAFE_ZONE,
+    ROAD: COLORS.ROAD,
+    RIVER: COLORS.RIVER,
+  },
+  deuteranopia: {
+    name: 'Deuteranopia',
+    BACKGROUND: '#ece3c0',
+    SAFE_ZONE: '#e8d9a0', // pale straw
+    ROAD: '#5c4b37', // dark earth
+    RIVER: '#2f6fb5', // strong blue
+  },
+  protanopia: {
+    name: 'Protanopia',
+    BACKGROUND: '#eee6c8',
+    SAFE_ZONE: '#f0e2a8', // pale straw
+    ROAD: '#4f4636', // near-black earth - reds look dark to protans anyway
+    RIVER: '#3a7bd5', // bright blue
+  },
+  tritanopia: {
+    name: 'Tritanopia',
+    BACKGROUND: '#efe6e2',
+    SAFE_ZONE: '#e6d3cf', // pale pink sand
+    ROAD: '#8a3b2e', // red clay
+    RIVER: '#2a9d9f', // teal
+  },
+};
+
+// High-contrast lane borders: a band of alternating dashes along each edge
+export const LANE_BORDER = {
+  WIDTH: 6,
+  DASH: 20,
+  COLORS: {
+    road: ['#000000', '#ffffff'],
+    river: ['#ffffff', '#002a5c'],
+    safe: ['#000000', '#000000'], // Solid, so safe ground reads as plain
+  },
+};
+
+// Key codes used by the default bindings - players can rebind every action
 export const KEYS = {
   UP: 38, // Arrow Up
   DOWN: 40, // Arrow Down
   LEFT: 37, // Arrow Left
   RIGHT: 39, // Arrow Right
-  W: 87, // W
-  S: 83, // S
-  A: 65, // A
-  D: 68, // D
+  W: 87,
+  S: 83,
+  A: 65,
+  D: 68,
+  Z: 90, // AZERTY up
+  Q: 81, // AZERTY left
+  I: 73, // Left-handed up
+  J: 74,
+  K: 75,
+  L: 76,
+  ESCAPE: 27,
+  P: 80,
+  ENTER: 13,
+  SPACE: 32,
+};
+
+// Touch input, in CSS pixels and milliseconds
+export const SWIPE_MIN_DISTANCE = 30; // Shorter drags aren't swipes
+export const TAP_MAX_DISTANCE = 10; // A touch that wanders further isn't a tap
+export const GESTURE_MAX_DURATION = 500; // Slower touches are ignored
+
+// Gamepad input - the stick must pass the deadzone to move and fall back
+// under the release point before it can move again, so one flick is one cell
+export const GAMEPAD_STICK_DEADZONE = 0.5;
+export const GAMEPAD_STICK_RELEASE = 0.3;
+
+// Audio cues warn this many milliseconds before traffic reaches the player,
+// in their lane or the one ahead
+export const OBSTACLE_CUE_LEAD = 1000;
+
+// Audio mixer timings, in milliseconds. The music drops to MUSIC_DUCK_GAIN
+// of its volume under stingers like the game over trumpets.
+export const MUSIC_FADE_MS = 800;
+export const MUSIC_DUCK_FADE_MS = 150;
+export const MUSIC_DUCK_GAIN = 0.25;
+
+// Vibration patterns, in milliseconds
+export const HAPTICS = {
+  HIT: [60, 40, 60],
+  PICKUP: [15],
 };
 
 // Game states
@@ -105,91 +130,3 @@ export enum GameState {
   GAME_OVER = 'gameOver',
   VICTORY = 'victory'
 }
-
-// Level data
-export interface LevelConfig {
-  lanes: LaneConfig[];
-  goalCount: number;
-  timeLimit: number; // in seconds
-}
-
-export interface LaneConfig {
-  type: 'road' | 'river' | 'safe';
-  direction: 'left' | 'right';
-  obstacleType?: ObstacleType;
-  obstacleFrequency?: number; // Obstacles per second
-  obstacleSpeedMultiplier?: number; // Multiplier on the base speed
-}
-
-// Level definitions
-export const LEVELS: Record<number, LevelConfig> = {
-  1: {
-    lanes: [
-      { type: 'safe', direction: 'left' }, // Starting zone
-      { type: 'road', direction: 'left', obstacleType: ObstacleType.HORSE, obstacleFrequency: 0.15 },
-      { type: 'safe', direction: 'left' }, // Safe zone
-      { type: 'road', direction: 'right', obstacleType: ObstacleType.TUMBLEWEED, obstacleFrequency: 0.2 },
-      { type: 'safe', direction: 'left' }, // Safe zone
-      { type: 'road', direction: 'left', obstacleType: ObstacleType.HORSE, obstacleFrequency: 0.15 },
-      { type: 'safe', direction: 'left' }, // Safe zone
-      { type: 'road', direction: 'right', obstacleType: ObstacleType.TRAIN, obstacleFrequency: 0.1 },
-      { type: 'safe', direction: 'left' }, // Safe zone
-      { type: 'road', direction: 'left', obstacleType: ObstacleType.TUMBLEWEED, obstacleFrequency: 0.2 },
-      { type: 'safe', direction: 'left' }, // Safe zone
-      { type: 'road', direction: 'right', obstacleType: ObstacleType.HORSE, obstacleFrequency: 0.15 },
-      { type: 'safe', direction: 'left' }, // Safe zone
-      { type: 'road', direction: 'left', obstacleType: ObstacleType.TRAIN, obstacleFrequency: 0.1 },
-      { type: 'safe', direction: 'left' } // Goal zone
-    ],
-    goalCount: 3,
-    timeLimit: 90,
-  },
-  2: {
-    lanes: [
-      { type: 'safe', direction: 'left' }, // Starting zone
-      { type: 'road', direction: 'left', obstacleType: ObstacleType.HORSE, obstacleFrequency: 0.2 },
-      { type: 'road', direction: 'right', obstacleType: ObstacleType.TUMBLEWEED, obstacleFrequency: 0.25 },
-      { type: 'safe', direction: 'left' }, // Safe zone
-      { type: 'road', direction: 'left', obstacleType: ObstacleType.TRAIN, obstacleFrequency: 0.15 },
-      { type: 'safe', direction: 'left' }, // Safe zone
-      { type: 'road', direction: 'right', obstacleType: ObstacleType.HORSE, obstacleFrequency: 0.2 },
-      { type: 'road', direction: 'left', obstacleType: ObstacleType.TUMBLEWEED, obstacleFrequency: 0.3 },
-      { type: 'safe', direction: 'left' }, // Safe zone
-      { type: 'road', direction: 'right', obstacleType: ObstacleType.TRAIN, obstacleFrequency: 0.15 },
-      { type: 'safe', direction: 'left' }, // Safe zone
-      { type: 'road', direction: 'left', obstacleType: ObstacleType.HORSE, obstacleFrequency: 0.25 },
-      { type: 'road', direction: 'right', obstacleType: ObstacleType.TUMBLEWEED, obstacleFrequency: 0.2 },
-      { type: 'safe', direction: 'left' }, // Safe zone
-      { type: 'road', direction: 'left', obstacleType: ObstacleType.TRAIN, obstacleFrequency: 0.15 },
-      { type: 'safe', direction: 'left' } // Goal zone
-    ],
-    goalCount: 4,
-    timeLimit: 120,
-  },
-  3: {
-    lanes: [
-      { type: 'safe', direction: 'left' }, // Starting zone
-      { type: 'road', direction: 'left', obstacleType: ObstacleType.HORSE, obstacleFrequency: 0.25 },
-      { type: 'road', direction: 'right', obstacleType: ObstacleType.TUMBLEWEED, obstacleFrequency: 0.3 },
-      { type: 'safe', direction: 'left' }, // Safe zone
-      { type: 'road', direction: 'left', obstacleType: ObstacleType.TRAIN, obstacleFrequency: 0.2 },
-      { type: 'road', direction: 'right', obstacleType: ObstacleType.HORSE, obstacleFrequency: 0.25 },
-      { type: 'safe', direction: 'left' }, // Safe zone
-      { type: 'road', direction: 'left', obstacleType: ObstacleType.TUMBLEWEED, obstacleFrequency: 0.3 },
-      { type: 'road', direction: 'right', obstacleType: ObstacleType.TRAIN, obstacleFrequency: 0.2 },
-      { type: 'safe', direction: 'left' }, // Safe zone
-      { type: 'road', direction: 'left', obstacleType: ObstacleType.HORSE, obstacleFrequency: 0.25 },
-      { type: 'road', direction: 'right', obstacleType: ObstacleType.TUMBLEWEED, obstacleFrequency: 0.35 },
-      { type: 'safe', direction: 'left' }, // Safe zone
-      { type: 'road', direction: 'left', obstacleType: ObstacleType.TRAIN, obstacleFrequency: 0.2 },
-      { type: 'road', direction: 'right', obstacleType: ObstacleType.HORSE, obstacleFrequency: 0.3 },
-      { type: 'safe', direction: 'left' }, // Safe zone
-      { type: 'road', direction: 'left', obstacleType: ObstacleType.TUMBLEWEED, obstacleFrequency: 0.35 },
-      { type: 'road', direction: 'right', obstacleType: ObstacleType.TRAIN, obstacleFrequency: 0.25 },
-      { type: 'safe', direction: 'left' } // Goal zone
-    ],
-    goalCount: 5,
-    timeLimit: 150,
-  },
-  // Add more levels as needed
-};
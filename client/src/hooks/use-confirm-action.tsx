@@ -0,0 +1,17 @@
+import * as React from "react"
+import { CONFIRM_EVENT } from "@/lib/input"
+
+/**
+ * Run a screen's main action when confirm is pressed on the keyboard or a
+ * controller with no button focused
+ */
+export function useConfirmAction(onConfirm: () => void) {
+  const onConfirmRef = React.useRef(onConfirm)
+  onConfirmRef.current = onConfirm
+
+  React.useEffect(() => {
+    const handleConfirm = () => onConfirmRef.current()
+    window.addEventListener(CONFIRM_EVENT, handleConfirm)
+    return () => window.removeEventListener(CONFIRM_EVENT, handleConfirm)
+  }, [])
+}
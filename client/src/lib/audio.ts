@@ -0,0 +1,322 @@
+import { MUSIC_DUCK_FADE_MS, MUSIC_DUCK_GAIN, MUSIC_FADE_MS } from '../game/constants';
+
+/**
+ * Web Audio mixer.
+ * Every sound runs through one of three buses - music, sound effects and
+ * the interface's ticks and cues - into a master gain, so each can have its
+ * own volume and mute only has to touch the master. Effects play from
+ * decoded buffers, a fresh source each time, so the same sound can overlap
+ * itself. Music fades in and out rather than cutting, and a duck gain on
+ * the music bus lowers it under stingers.
+ */
+
+export type AudioBus = 'music' | 'sfx' | 'ui';
+
+export const AUDIO_BUSES: AudioBus[] = ['music', 'sfx', 'ui'];
+
+export const BUS_LABELS: Record<AudioBus, string> = {
+  music: 'Music',
+  sfx: 'Sound effects',
+  ui: 'Interface',
+};
+
+export type SoundEffect = 'hit' | 'success' | 'grunt' | 'gameOver' | 'wompWomp';
+
+export type MusicTrack = 'background';
+
+interface Sample {
+  file: string;
+  gain: number; // Level in the mix before the bus volume
+}
+
+const SOUND_EFFECTS: Record<SoundEffect, Sample> = {
+  hit: { file: 'hit.mp3', gain: 0.8 },
+  success: { file: 'success.mp3', gain: 0.8 },
+  grunt: { file: 'grunt.mp3', gain: 1 },
+  gameOver: { file: 'gameover.mp3', gain: 0.5 },
+  wompWomp: { file: 'wompwomp.mp3', gain: 0.6 },
+};
+
+const MUSIC_TRACKS: Record<MusicTrack, Sample> = {
+  background: { file: 'background.mp3', gain: 0.3 },
+};
+
+// Sounds are served from the first of these that has them
+const SOUND_DIRS = ['/assets/sounds/', '/sounds/'];
+
+interface MixerGraph {
+  context: AudioContext;
+  master: GainNode;
+  buses: Record<AudioBus, GainNode>;
+  duck: GainNode; // Between the music bus and the master
+}
+
+interface PlayingTrack {
+  track: MusicTrack;
+  source: AudioBufferSourceNode;
+  fade: GainNode;
+  startedAt: number; // Context time the track's beginning lines up with
+}
+
+export class AudioMixer {
+  private graph: MixerGraph | null;
+  private buffers: Map<SoundEffect | MusicTrack, AudioBuffer>;
+  private volumes: Record<AudioBus, number>;
+  private muted: boolean;
+  private music: PlayingTrack | null;
+  private requestedTrack: MusicTrack | null; // Started as soon as it has loaded
+  private paused: { track: MusicTrack; offset: number } | null; // Where a paused track picks up again
+  private duckUntil: number; // Context time the current duck lifts
+
+  constructor(volumes: Record<AudioBus, number>, muted: boolean) {
+    this.graph = null;
+    this.buffers = new Map();
+    this.volumes = { ...volumes };
+    this.muted = muted;
+    this.music = null;
+    this.requestedTrack = null;
+    this.paused = null;
+    this.duckUntil = 0;
+  }
+
+  /**
+   * Fetch and decode every sound. One that fails to load is left silent.
+   */
+  public async load() {
+    const samples: [SoundEffect | MusicTrack, Sample][] = [
+      ...(Object.entries(SOUND_EFFECTS) as [SoundEffect, Sample][]),
+      ...(Object.entries(MUSIC_TRACKS) as [MusicTrack, Sample][]),
+    ];
+
+    await Promise.all(samples.map(async ([name, { file }]) => {
+      const buffer = await this.loadBuffer(file);
+      if (buffer) {
+        this.buffers.set(name, buffer);
+      }
+    }));
+
+    if (this.requestedTrack && !this.music) {
+      this.playMusic(this.requestedTrack);
+    }
+  }
+
+  public setVolume(bus: AudioBus, volume: number) {
+    this.volumes[bus] = volume;
+    if (this.graph) {
+      this.rampTo(this.graph.buses[bus].gain, volume);
+    }
+  }
+
+  public setMuted(muted: boolean) {
+    this.muted = muted;
+    if (this.graph) {
+      this.rampTo(this.graph.master.gain, muted ? 0 : 1);
+    }
+  }
+
+  /**
+   * Play an effect over anything already playing, the same effect included
+   * @param duck Lower the music until the effect has finished
+   */
+  public playSound(effect: SoundEffect, duck = false) {
+    const buffer = this.buffers.get(effect);
+    if (!buffer) return;
+
+    const { context, buses } = this.getGraph();
+    const source = context.createBufferSource();
+    const gain = context.createGain();
+    source.buffer = buffer;
+    gain.gain.value = SOUND_EFFECTS[effect].gain;
+
+    source.connect(gain).connect(buses.sfx);
+    source.start();
+
+    if (duck) {
+      this.duckMusic(buffer.duration);
+    }
+  }
+
+  /**
+   * A short, sharp click of a high square wave
+   */
+  public playTick() {
+    const { context, buses } = this.getGraph();
+    const now = context.currentTime;
+
+    const oscillator = context.createOscillator();
+    const gain = context.createGain();
+    oscillator.type = 'square';
+    oscillator.frequency.setValueAtTime(1200, now);
+    gain.gain.setValueAtTime(0.15, now);
+    gain.gain.exponentialRampToValueAtTime(0.001, now + 0.05);
+
+    oscillator.connect(gain).connect(buses.ui);
+    oscillator.start(now);
+    oscillator.stop(now + 0.05);
+  }
+
+  /**
+   * Two quick rising beeps panned toward oncoming traffic
+   * @param pan -1 for hard left to 1 for hard right
+   * @param ahead Traffic in the lane ahead rather than the player's own, played lower
+   */
+  public playObstacleCue(pan: number, ahead: boolean) {
+    const { context, buses } = this.getGraph();
+    const now = context.currentTime;
+    const pitch = ahead ? 440 : 660;
+
+    const panner = context.createStereoPanner();
+    panner.pan.setValueAtTime(pan, now);
+    panner.connect(buses.ui);
+
+    for (const [offset, frequency] of [[0, pitch], [0.09, pitch * 1.25]]) {
+      const oscillator = context.createOscillator();
+      const gain = context.createGain();
+      oscillator.type = 'triangle';
+      oscillator.frequency.setValueAtTime(frequency, now + offset);
+      gain.gain.setValueAtTime(0.2, now + offset);
+      gain.gain.exponentialRampToValueAtTime(0.001, now + offset + 0.08);
+
+      oscillator.connect(gain).connect(panner);
+      oscillator.start(now + offset);
+      oscillator.stop(now + offset + 0.08);
+    }
+  }
+
+  /**
+   * Fade a track in, fading out whatever was playing before it. A track
+   * that was paused picks up where it left off. Nothing happens if the
+   * track is already playing, and one that hasn't loaded yet starts once
+   * it has.
+   */
+  public playMusic(track: MusicTrack) {
+    this.requestedTrack = track;
+    if (this.music?.track === track) return;
+
+    const buffer = this.buffers.get(track);
+    if (!buffer) return;
+
+    const { context, buses } = this.getGraph();
+    const now = context.currentTime;
+    const offset = this.paused?.track === track ? this.paused.offset : 0;
+    this.paused = null;
+    this.fadeOutMusic();
+
+    const source = context.createBufferSource();
+    const fade = context.createGain();
+    source.buffer = buffer;
+    source.loop = true;
+    fade.gain.setValueAtTime(0, now);
+    fade.gain.linearRampToValueAtTime(MUSIC_TRACKS[track].gain, now + MUSIC_FADE_MS / 1000);
+
+    source.connect(fade).connect(buses.music);
+    source.start(now, offset);
+    this.music = { track, source, fade, startedAt: now - offset };
+  }
+
+  /**
+   * Fade the music out, remembering its place for the next playMusic()
+   */
+  public pauseMusic() {
+    this.requestedTrack = null;
+    if (!this.music || !this.graph) return;
+
+    const { track, source, startedAt } = this.music;
+    const elapsed = this.graph.context.currentTime - startedAt;
+    this.paused = { track, offset: elapsed % (source.buffer?.duration ?? 1) };
+    this.fadeOutMusic();
+  }
+
+  /**
+   * Fade the music out, so it starts from the top next time
+   */
+  public stopMusic() {
+    this.requestedTrack = null;
+    this.paused = null;
+    this.fadeOutMusic();
+  }
+
+  private fadeOutMusic() {
+    if (!this.music || !this.graph) return;
+
+    const now = this.graph.context.currentTime;
+    const { source, fade } = this.music;
+    fade.gain.cancelScheduledValues(now);
+    fade.gain.setValueAtTime(fade.gain.value, now);
+    fade.gain.linearRampToValueAtTime(0, now + MUSIC_FADE_MS / 1000);
+    source.stop(now + MUSIC_FADE_MS / 1000);
+    this.music = null;
+  }
+
+  /**
+   * Hold the music down for a number of seconds. Overlapping ducks extend
+   * the first rather than lifting in between.
+   */
+  private duckMusic(seconds: number) {
+    const { context, duck } = this.getGraph();
+    const now = context.currentTime;
+    const fade = MUSIC_DUCK_FADE_MS / 1000;
+    this.duckUntil = Math.max(this.duckUntil, now + fade + seconds);
+
+    duck.gain.cancelScheduledValues(now);
+    duck.gain.setValueAtTime(duck.gain.value, now);
+    duck.gain.linearRampToValueAtTime(MUSIC_DUCK_GAIN, now + fade);
+    duck.gain.setValueAtTime(MUSIC_DUCK_GAIN, this.duckUntil);
+    duck.gain.linearRampToValueAtTime(1, this.duckUntil + fade);
+  }
+
+  // Glide to a new gain quickly enough to feel immediate without clicking
+  private rampTo(param: AudioParam, value: number) {
+    param.setTargetAtTime(value, this.getGraph().context.currentTime, 0.02);
+  }
+
+  /**
+   * The context and buses are made on first use. Browsers start a context
+   * suspended until the page has been interacted with, so each use also
+   * tries to resume it.
+   */
+  private getGraph(): MixerGraph {
+    if (!this.graph) {
+      const context = new AudioContext();
+      const master = context.createGain();
+      const duck = context.createGain();
+      master.gain.value = this.muted ? 0 : 1;
+      master.connect(context.destination);
+      duck.connect(master);
+
+      const buses = {} as Record<AudioBus, GainNode>;
+      for (const bus of AUDIO_BUSES) {
+        buses[bus] = context.createGain();
+        buses[bus].gain.value = this.volumes[bus];
+        buses[bus].connect(bus === 'music' ? duck : master);
+      }
+
+      this.graph = { context, master, buses, duck };
+    }
+
+    if (this.graph.context.state === 'suspended') {
+      this.graph.context.resume().catch(() => {
+        // Still waiting on an interaction, the next sound will try again
+      });
+    }
+
+    return this.graph;
+  }
+
+  private async loadBuffer(file: string): Promise<AudioBuffer | null> {
+    const { context } = this.getGraph();
+
+    for (const dir of SOUND_DIRS) {
+      try {
+        const response = await fetch(`${dir}${file}`);
+        if (!response.ok) continue;
+        return await context.decodeAudioData(await response.arrayBuffer());
+      } catch (error) {
+        console.warn(`Could not load ${dir}${file}:`, error);
+      }
+    }
+
+    console.error(`Failed to load audio file ${file} from any path`);
+    return null;
+  }
+}
@@ -0,0 +1,82 @@
+import { apiRequest } from './queryClient';
+import type { HighScore } from '../components/LeaderboardDisplay';
+import type { Difficulty } from '@shared/game/constants';
+import {
+  dailyChallengeSchema,
+  getDailyChallenge,
+  getDailyDate,
+  type DailyChallenge,
+} from '@shared/game/daily';
+
+/**
+ * Fetch today's daily bounty from the server. The challenge only depends on
+ * the date, so if the server can't be reached we work it out locally.
+ */
+export async function fetchDailyChallenge(): Promise<DailyChallenge> {
+  try {
+    const data = await apiRequest('/api/daily', {
+      method: 'GET',
+      on401: 'returnNull'
+    });
+
+    const result = dailyChallengeSchema.safeParse(data);
+    if (result.success) {
+      return result.data;
+    }
+
+    console.error('Invalid daily bounty from the server:', result.error);
+  } catch (error) {
+    console.error('Failed to fetch the daily bounty:', error);
+  }
+
+  return getDailyChallenge(getDailyDate());
+}
+
+// A ranked attempt at today's bounty, claimed from the server before the run
+export interface DailyAttempt {
+  playerName: string;
+  token: string; // Sent back with the score
+}
+
+/**
+ * Claim a player's one ranked attempt at today's bounty. Throws an ApiError
+ * with status 409 if the name has already had its attempt today.
+ */
+export async function startDailyAttempt(playerName: string): Promise<DailyAttempt> {
+  const data = await apiRequest<{ attempt: string; playerName: string }>('/api/daily/attempts', {
+    method: 'POST',
+    body: JSON.stringify({ playerName }),
+    headers: {
+      'Content-Type': 'application/json'
+    },
+    on401: 'throw'
+  });
+
+  return { playerName: data.playerName, token: data.attempt };
+}
+
+// Winners come a week at a time
+export const DAILY_WINNERS_PAGE_SIZE = 7;
+
+/**
+ * Fetch the winners of past daily bounties, most recent first, optionally
+ * only among scores set on one difficulty. Pass the oldest day already
+ * shown as `before` for the page after it.
+ */
+export async function fetchDailyWinners(difficulty?: Difficulty, before?: string): Promise<HighScore[]> {
+  try {
+    const params = new URLSearchParams();
+    if (difficulty) params.set('difficulty', difficulty);
+    if (before) params.set('before', before);
+    const query = params.toString() ? `?${params}` : '';
+    const winners = await apiRequest(`/api/daily/winners${query}`, {
+      method: 'GET',
+      on401: 'returnNull'
+    }) as HighScore[];
+
+    return winners || [];
+  } catch (error) {
+    console.error('Failed to fetch daily winners:', error);
+    return [];
+  }
+}
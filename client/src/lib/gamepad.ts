@@ -0,0 +1,87 @@
+import { GAMEPAD_STICK_DEADZONE, GAMEPAD_STICK_RELEASE } from '../game/constants';
+import type { InputAction } from './input';
+
+// Button indices in the browser's standard gamepad mapping
+const BUTTONS = {
+  A: 0,
+  START: 9,
+  UP: 12,
+  DOWN: 13,
+  LEFT: 14,
+  RIGHT: 15,
+};
+
+/**
+ * What the connected controllers asked for since the last poll. Everything
+ * is edge-triggered: holding a button or the stick only counts once.
+ */
+export interface GamepadFrame {
+  move: InputAction | null; // Newly pressed direction
+  start: boolean;
+  confirm: boolean;
+}
+
+/**
+ * Polls the Gamepad API once a frame. Any connected controller can play.
+ */
+export class GamepadPoller {
+  private heldDirection: InputAction | null;
+  private startHeld: boolean;
+  private confirmHeld: boolean;
+
+  constructor() {
+    this.heldDirection = null;
+    this.startHeld = false;
+    this.confirmHeld = false;
+  }
+
+  public poll(): GamepadFrame {
+    const pads = typeof navigator.getGamepads === 'function' ? navigator.getGamepads() : [];
+
+    let direction: InputAction | null = null;
+    let start = false;
+    let confirm = false;
+
+    for (const pad of Array.from(pads)) {
+      if (!pad || !pad.connected) continue;
+
+      direction = direction ?? readDirection(pad, this.heldDirection);
+      start = start || isPressed(pad, BUTTONS.START);
+      confirm = confirm || isPressed(pad, BUTTONS.A);
+    }
+
+    const frame: GamepadFrame = {
+      move: direction !== null && direction !== this.heldDirection ? direction : null,
+      start: start && !this.startHeld,
+      confirm: confirm && !this.confirmHeld,
+    };
+
+    this.heldDirection = direction;
+    this.startHeld = start;
+    this.confirmHeld = confirm;
+
+    return frame;
+  }
+}
+
+function isPressed(pad: Gamepad, index: number): boolean {
+  return pad.buttons[index]?.pressed ?? false;
+}
+
+/**
+ * The direction a controller is pointing, D-pad first, then the left stick
+ * @param held Direction from the last poll - the stick keeps it until it's nearly centered
+ */
+function readDirection(pad: Gamepad, held: InputAction | null): InputAction | null {
+  if (isPressed(pad, BUTTONS.UP)) return 'moveUp';
+  if (isPressed(pad, BUTTONS.DOWN)) return 'moveDown';
+  if (isPressed(pad, BUTTONS.LEFT)) return 'moveLeft';
+  if (isPressed(pad, BUTTONS.RIGHT)) return 'moveRight';
+
+  const [x = 0, y = 0] = pad.axes;
+  const horizontal = Math.abs(x) > Math.abs(y);
+  const direction: InputAction = horizontal ? (x > 0 ? 'moveRight' : 'moveLeft') : (y > 0 ? 'moveDown' : 'moveUp');
+  const threshold = direction === held ? GAMEPAD_STICK_RELEASE : GAMEPAD_STICK_DEADZONE;
+
+  return Math.max(Math.abs(x), Math.abs(y)) > threshold ? direction : null;
+}
@@ -0,0 +1,29 @@
+import { SWIPE_MIN_DISTANCE, TAP_MAX_DISTANCE, GESTURE_MAX_DURATION } from '../game/constants';
+import type { InputAction } from './input';
+
+export interface TouchSample {
+  x: number;
+  y: number;
+  time: number; // Milliseconds, from the touch event's timeStamp
+}
+
+/**
+ * Work out which move a touch stands for: a swipe moves along its longer
+ * axis and a tap hops forward
+ * @returns Move action, or null if the touch was neither
+ */
+export function recognizeGesture(start: TouchSample, end: TouchSample): InputAction | null {
+  if (end.time - start.time > GESTURE_MAX_DURATION) return null;
+
+  const dx = end.x - start.x;
+  const dy = end.y - start.y;
+  const distance = Math.sqrt(dx * dx + dy * dy);
+
+  if (distance <= TAP_MAX_DISTANCE) return 'moveUp';
+  if (distance < SWIPE_MIN_DISTANCE) return null;
+
+  if (Math.abs(dx) > Math.abs(dy)) {
+    return dx > 0 ? 'moveRight' : 'moveLeft';
+  }
+  return dy > 0 ? 'moveDown' : 'moveUp';
+}
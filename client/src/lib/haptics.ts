@@ -0,0 +1,13 @@
+/**
+ * Buzz the device, where the browser supports vibration (mostly Android)
+ * @param pattern Alternating vibrate and pause lengths in milliseconds
+ */
+export function vibrate(pattern: number[]) {
+  if (typeof navigator === 'undefined' || typeof navigator.vibrate !== 'function') return;
+
+  try {
+    navigator.vibrate(pattern);
+  } catch {
+    // Some browsers throw instead of ignoring vibration without a user gesture
+  }
+}
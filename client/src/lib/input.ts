@@ -0,0 +1,194 @@
+import { KEYS } from '../game/constants';
+import type { Direction } from '@shared/game/player';
+
+/**
+ * Action-based input. Keys, gamepads and touch all turn into these
+ * actions, and only the key bindings know about key codes.
+ */
+export type InputAction = 'moveUp' | 'moveDown' | 'moveLeft' | 'moveRight' | 'pause' | 'confirm';
+
+export type KeyBindings = Record<InputAction, number[]>; // Key codes, in the order they're shown
+
+export const INPUT_ACTIONS: InputAction[] = ['moveUp', 'moveDown', 'moveLeft', 'moveRight', 'pause', 'confirm'];
+
+export const ACTION_LABELS: Record<InputAction, string> = {
+  moveUp: 'Move up',
+  moveDown: 'Move down',
+  moveLeft: 'Move left',
+  moveRight: 'Move right',
+  pause: 'Pause',
+  confirm: 'Confirm',
+};
+
+export const KEYS_PER_ACTION = 2;
+
+export type BindingPreset = 'qwerty' | 'azerty' | 'leftHanded';
+
+export const BINDING_PRESETS: Record<BindingPreset, { name: string; bindings: KeyBindings }> = {
+  qwerty: {
+    name: 'Arrows + WASD',
+    bindings: {
+      moveUp: [KEYS.UP, KEYS.W],
+      moveDown: [KEYS.DOWN, KEYS.S],
+      moveLeft: [KEYS.LEFT, KEYS.A],
+      moveRight: [KEYS.RIGHT, KEYS.D],
+      pause: [KEYS.ESCAPE, KEYS.P],
+      confirm: [KEYS.ENTER, KEYS.SPACE],
+    },
+  },
+  azerty: {
+    name: 'Arrows + ZQSD',
+    bindings: {
+      moveUp: [KEYS.UP, KEYS.Z],
+      moveDown: [KEYS.DOWN, KEYS.S],
+      moveLeft: [KEYS.LEFT, KEYS.Q],
+      moveRight: [KEYS.RIGHT, KEYS.D],
+      pause: [KEYS.ESCAPE, KEYS.P],
+      confirm: [KEYS.ENTER, KEYS.SPACE],
+    },
+  },
+  leftHanded: {
+    name: 'Arrows + IJKL',
+    bindings: {
+      moveUp: [KEYS.UP, KEYS.I],
+      moveDown: [KEYS.DOWN, KEYS.K],
+      moveLeft: [KEYS.LEFT, KEYS.J],
+      moveRight: [KEYS.RIGHT, KEYS.L],
+      pause: [KEYS.ESCAPE, KEYS.P],
+      confirm: [KEYS.ENTER, KEYS.SPACE],
+    },
+  },
+};
+
+export const DEFAULT_BINDINGS = BINDING_PRESETS.qwerty.bindings;
+
+const MOVE_DIRECTIONS: Partial<Record<InputAction, Direction>> = {
+  moveUp: 'up',
+  moveDown: 'down',
+  moveLeft: 'left',
+  moveRight: 'right',
+};
+
+export function getActionDirection(action: InputAction | null): Direction | null {
+  return (action && MOVE_DIRECTIONS[action]) ?? null;
+}
+
+export function getActionForKey(bindings: KeyBindings, keyCode: number): InputAction | null {
+  return INPUT_ACTIONS.find(action => bindings[action].includes(keyCode)) ?? null;
+}
+
+export interface BindingConflict {
+  keyCode: number;
+  actions: InputAction[];
+}
+
+/**
+ * Keys bound to more than one action
+ */
+export function findConflicts(bindings: KeyBindings): BindingConflict[] {
+  const actionsByKey = new Map<number, InputAction[]>();
+  for (const action of INPUT_ACTIONS) {
+    for (const keyCode of Array.from(new Set(bindings[action]))) {
+      actionsByKey.set(keyCode, [...(actionsByKey.get(keyCode) ?? []), action]);
+    }
+  }
+
+  return Array.from(actionsByKey.entries())
+    .filter(([, actions]) => actions.length > 1)
+    .map(([keyCode, actions]) => ({ keyCode, actions }));
+}
+
+/**
+ * Check saved bindings still have the expected shape, e.g. after an update
+ */
+export function isKeyBindings(value: unknown): value is KeyBindings {
+  if (!value || typeof value !== 'object') return false;
+  return INPUT_ACTIONS.every(action => {
+    const keys = (value as Record<string, unknown>)[action];
+    return Array.isArray(keys) && keys.length <= KEYS_PER_ACTION && keys.every(key => Number.isInteger(key));
+  });
+}
+
+const KEY_NAMES: Record<number, string> = {
+  [KEYS.UP]: '↑',
+  [KEYS.DOWN]: '↓',
+  [KEYS.LEFT]: '←',
+  [KEYS.RIGHT]: '→',
+  [KEYS.ESCAPE]: 'Esc',
+  [KEYS.ENTER]: 'Enter',
+  [KEYS.SPACE]: 'Space',
+  8: 'Backspace',
+  9: 'Tab',
+  16: 'Shift',
+  17: 'Ctrl',
+  18: 'Alt',
+  186: ';',
+  187: '=',
+  188: ',',
+  189: '-',
+  190: '.',
+  191: '/',
+  219: '[',
+  221: ']',
+  222: "'",
+};
+
+/**
+ * Short name of a key code for the controls screen
+ */
+export function describeKey(keyCode: number): string {
+  if (KEY_NAMES[keyCode]) return KEY_NAMES[keyCode];
+  if ((keyCode >= 48 && keyCode <= 57) || (keyCode >= 65 && keyCode <= 90)) {
+    return String.fromCharCode(keyCode);
+  }
+  if (keyCode >= 96 && keyCode <= 105) return `Num ${keyCode - 96}`;
+  if (keyCode >= 112 && keyCode <= 123) return `F${keyCode - 111}`;
+  return `Key ${keyCode}`;
+}
+
+// Fired on the window when confirm is pressed with no button focused, for
+// screens to run their main action
+export const CONFIRM_EVENT = 'input-confirm';
+
+/**
+ * Move keyboard focus to the next or previous visible button, so menus can
+ * be driven without a mouse
+ * @param step 1 for the next button, -1 for the previous
+ */
+export function moveButtonFocus(root: HTMLElement, step: number) {
+  const buttons = Array.from(root.querySelectorAll<HTMLButtonElement>('button:not([disabled])'))
+    .filter(button => button.offsetParent !== null);
+  if (buttons.length === 0) return;
+
+  const current = buttons.indexOf(document.activeElement as HTMLButtonElement);
+  const next = current === -1
+    ? (step > 0 ? 0 : buttons.length - 1)
+    : (current + step + buttons.length) % buttons.length;
+
+  buttons[next].focus();
+}
+
+/**
+ * Press the focused button, or let the screen run its main action if
+ * nothing is focused
+ */
+export function confirmFocused(root: HTMLElement) {
+  const focused = document.activeElement;
+  if (focused instanceof HTMLButtonElement && root.contains(focused)) {
+    focused.click();
+  } else {
+    window.dispatchEvent(new CustomEvent(CONFIRM_EVENT));
+  }
+}
+
+/**
+ * Whether an element takes typed text or arrow keys itself, like a volume
+ * slider, so its keystrokes aren't game input
+ */
+export function isFormField(element: Element | null): boolean {
+  return element instanceof HTMLInputElement ||
+    element instanceof HTMLTextAreaElement ||
+    element instanceof HTMLSelectElement ||
+    element?.getAttribute('role') === 'slider' ||
+    (element instanceof HTMLElement && element.isContentEditable);
+}
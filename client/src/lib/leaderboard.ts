@@ -1,46 +1,54 @@
 import { apiRequest } from './queryClient';
 import type { HighScore } from '../components/LeaderboardDisplay';
+import type { Replay } from '@shared/game/replay';
+import type { Difficulty, GameMode } from '@shared/game/constants';
 
-// Cache scores to avoid frequent refetching
-let cachedScores: HighScore[] | null = null;
-let lastFetchTime = 0;
+// Cache scores to avoid frequent refetching - each game mode and difficulty has its own leaderboard
+const cachedScores: Record<string, { scores: HighScore[]; fetchTime: number }> = {};
 const CACHE_DURATION = 60000; // 1 minute cache
 
+function getCacheKey(mode: GameMode, difficulty?: Difficulty): string {
+  return `${mode}:${difficulty ?? 'all'}`;
+}
+
 /**
- * Fetch high scores from the API
+ * Fetch a game mode's high scores from the API, optionally only those set on
+ * one difficulty
  */
-export async function fetchHighScores(): Promise<HighScore[]> {
+export async function fetchHighScores(mode: GameMode = 'story', difficulty?: Difficulty): Promise<HighScore[]> {
   // Use cached scores if available and not expired
   const now = Date.now();
-  if (cachedScores && now - lastFetchTime < CACHE_DURATION) {
-    return cachedScores;
+  const cacheKey = getCacheKey(mode, difficulty);
+  const cached = cachedScores[cacheKey];
+  if (cached && now - cached.fetchTime < CACHE_DURATION) {
+    return cached.scores;
   }
   
   try {
-    const scores = await apiRequest('/api/highscores', {
+    const query = difficulty ? `mode=${mode}&difficulty=${difficulty}` : `mode=${mode}`;
+    const scores = await apiRequest(`/api/highscores?${query}`, {
       method: 'GET',
       on401: 'returnNull'
     }) as HighScore[];
     
     if (scores) {
-      cachedScores = scores;
-      lastFetchTime = now;
+      cachedScores[cacheKey] = { scores, fetchTime: now };
       return scores;
     }
     
     return []; // Return empty array if no scores available
   } catch (error) {
     console.error('Failed to fetch high scores:', error);
-    return cachedScores || []; // Return cached scores on error, or empty array
+    return cached?.scores || []; // Return cached scores on error, or empty array
   }
 }
 
 /**
  * Check if a score qualifies for the leaderboard
  */
-export async function isHighScore(score: number): Promise<boolean> {
+export async function isHighScore(score: number, mode: GameMode = 'story', difficulty?: Difficulty): Promise<boolean> {
   try {
-    const highScores = await fetchHighScores();
+    const highScores = await fetchHighScores(mode, difficulty);
     
     // If there are fewer than 10 scores, any score qualifies
     if (highScores.length < 10) {
@@ -57,12 +65,14 @@ export async function isHighScore(score: number): Promise<boolean> {
 }
 
 /**
- * Submit a high score to the leaderboard
+ * Submit a high score to the leaderboard, with the replay the server
+ * re-simulates to verify it
  */
 export async function submitHighScore(
   playerName: string, 
   score: number, 
-  level: number
+  level: number,
+  replay: Replay
 ): Promise<HighScore | null> {
   try {
     const result = await apiRequest('/api/highscores', {
@@ -70,7 +80,10 @@ export async function submitHighScore(
       body: JSON.stringify({
         playerName: playerName.toUpperCase().slice(0, 4),
         score,
-        level
+        level,
+        mode: replay.mode,
+        difficulty: replay.difficulty,
+        replay
       }),
       headers: {
         'Content-Type': 'application/json'
@@ -79,7 +92,8 @@ export async function submitHighScore(
     }) as HighScore;
     
     // Clear the cache so next fetch gets the updated leaderboard
-    cachedScores = null;
+    delete cachedScores[getCacheKey(replay.mode)];
+    delete cachedScores[getCacheKey(replay.mode, replay.difficulty)];
     
     return result;
   } catch (error) {
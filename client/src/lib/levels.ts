@@ -0,0 +1,54 @@
+import { parseLevel, type LevelConfig } from '@shared/game/levels';
+
+/**
+ * Save a level as a JSON file in the same shape as the files in shared/levels
+ */
+export function downloadLevel(level: LevelConfig) {
+  const blob = new Blob([JSON.stringify(level, null, 2) + '\n'], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `level-${level.level}.json`;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+
+  // Revoking straight after the click can cancel the download in some
+  // browsers, so wait until it has started
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
+
+/**
+ * Read and validate a level file chosen by the designer
+ */
+export async function readLevelFile(file: File): Promise<LevelConfig> {
+  let data: unknown;
+  try {
+    data = JSON.parse(await file.text());
+  } catch {
+    throw new Error('That file is not valid JSON');
+  }
+
+  const result = parseLevel(data);
+  if (!result.success) {
+    console.error('Invalid level file:', result.error.format());
+    throw new Error(describeLevelErrors(result.error.issues)[0] ?? 'That file is not a level');
+  }
+
+  return result.data;
+}
+
+/**
+ * Turn schema issues into short messages that point at the offending lane
+ */
+export function describeLevelErrors(issues: { path: (string | number)[]; message: string }[]): string[] {
+  return issues.map(issue => {
+    const [field, index, ...rest] = issue.path;
+    if (field === 'lanes' && typeof index === 'number') {
+      const detail = rest.length > 0 ? `${rest.join('.')}: ` : '';
+      return `Lane ${index}: ${detail}${issue.message}`;
+    }
+    return issue.path.length > 0 ? `${issue.path.join('.')}: ${issue.message}` : issue.message;
+  });
+}
@@ -13,6 +13,21 @@ export const queryClient = new QueryClient({
   },
 });
 
+/**
+ * Error for non-OK responses, carrying the status and any JSON error body
+ */
+export class ApiError extends Error {
+  status: number;
+  data: { error?: string; details?: unknown } | null;
+
+  constructor(status: number, statusText: string, data: ApiError['data']) {
+    super(`API error: ${status} ${statusText}`);
+    this.name = 'ApiError';
+    this.status = status;
+    this.data = data;
+  }
+}
+
 // API request options interface
 interface ApiRequestOptions extends RequestInit {
   on401?: 'redirect' | 'returnNull' | 'throw';
@@ -52,7 +67,8 @@ export async function apiRequest<T = any>(
 
     // Handle other error responses
     if (!response.ok) {
-      throw new Error(`API error: ${response.status} ${response.statusText}`);
+      const data = await response.json().catch(() => null);
+      throw new ApiError(response.status, response.statusText, data);
     }
 
     // Handle empty responses
@@ -0,0 +1,41 @@
+import { parseReplay, type Replay } from '@shared/game/replay';
+import { formatSeed } from '@shared/game/random';
+
+/**
+ * Save a replay as a JSON file through the browser's download flow
+ */
+export function downloadReplay(replay: Replay) {
+  const blob = new Blob([JSON.stringify(replay)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `high-noon-hustle-${formatSeed(replay.seed)}.json`;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+
+  // Revoking straight after the click can cancel the download in some
+  // browsers, so wait until it has started
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
+
+/**
+ * Read and validate a replay file chosen by the player
+ */
+export async function readReplayFile(file: File): Promise<Replay> {
+  let data: unknown;
+  try {
+    data = JSON.parse(await file.text());
+  } catch {
+    throw new Error('That file is not valid JSON');
+  }
+
+  const result = parseReplay(data);
+  if (!result.success) {
+    console.error('Invalid replay file:', result.error.format());
+    throw new Error('That file is not a High Noon Hustle replay');
+  }
+
+  return result.data;
+}
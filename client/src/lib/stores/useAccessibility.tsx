@@ -0,0 +1,60 @@
+import { create } from "zustand";
+import { getLocalStorage, setLocalStorage } from "../utils";
+import { LANE_PALETTES, MOVE_BUFFER_WINDOW, MAX_MOVE_BUFFER_WINDOW, type Palette } from "../../game/constants";
+
+const STORAGE_KEY = "accessibility";
+
+interface AccessibilitySettings {
+  palette: Palette; // Lane colors
+  highContrast: boolean; // Patterned borders between lanes
+  reducedMotion: boolean; // No particles, bobbing or camera easing
+  slowTraffic: boolean; // Assist for runs started from now on - assisted runs aren't ranked
+  audioCues: boolean; // Panned beeps for traffic about to reach the player
+  moveBufferWindow: number; // Milliseconds a move pressed mid-hop waits, for runs started from now on
+}
+
+interface AccessibilityState extends AccessibilitySettings {
+  // Actions
+  setPalette: (palette: Palette) => void;
+  setHighContrast: (highContrast: boolean) => void;
+  setReducedMotion: (reducedMotion: boolean) => void;
+  setSlowTraffic: (slowTraffic: boolean) => void;
+  setAudioCues: (audioCues: boolean) => void;
+  setMoveBufferWindow: (moveBufferWindow: number) => void;
+}
+
+// Follow the system's reduced motion setting until the player picks their own
+function loadSettings(): AccessibilitySettings {
+  const saved = getLocalStorage(STORAGE_KEY) ?? {};
+  const prefersReducedMotion = window.matchMedia?.("(prefers-reduced-motion: reduce)").matches ?? false;
+
+  return {
+    palette: saved.palette in LANE_PALETTES ? saved.palette : "standard",
+    highContrast: typeof saved.highContrast === "boolean" ? saved.highContrast : false,
+    reducedMotion: typeof saved.reducedMotion === "boolean" ? saved.reducedMotion : prefersReducedMotion,
+    slowTraffic: typeof saved.slowTraffic === "boolean" ? saved.slowTraffic : false,
+    audioCues: typeof saved.audioCues === "boolean" ? saved.audioCues : false,
+    moveBufferWindow: Number.isInteger(saved.moveBufferWindow)
+      ? Math.min(MAX_MOVE_BUFFER_WINDOW, Math.max(0, saved.moveBufferWindow))
+      : MOVE_BUFFER_WINDOW,
+  };
+}
+
+export const useAccessibility = create<AccessibilityState>((set, get) => {
+  const update = (changes: Partial<AccessibilitySettings>) => {
+    const { palette, highContrast, reducedMotion, slowTraffic, audioCues, moveBufferWindow } = { ...get(), ...changes };
+    setLocalStorage(STORAGE_KEY, { palette, highContrast, reducedMotion, slowTraffic, audioCues, moveBufferWindow });
+    set(changes);
+  };
+
+  return {
+    ...loadSettings(),
+
+    setPalette: (palette) => update({ palette }),
+    setHighContrast: (highContrast) => update({ highContrast }),
+    setReducedMotion: (reducedMotion) => update({ reducedMotion }),
+    setSlowTraffic: (slowTraffic) => update({ slowTraffic }),
+    setAudioCues: (audioCues) => update({ audioCues }),
+    setMoveBufferWindow: (moveBufferWindow) => update({ moveBufferWindow }),
+  };
+});
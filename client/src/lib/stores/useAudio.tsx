@@ -1,179 +1,92 @@
 import { create } from "zustand";
+import { getLocalStorage, setLocalStorage } from "../utils";
+import { AUDIO_BUSES, AudioMixer, type AudioBus, type SoundEffect } from "../audio";
 
-interface AudioState {
-  backgroundMusic: HTMLAudioElement | null;
-  hitSound: HTMLAudioElement | null;
-  successSound: HTMLAudioElement | null;
-  gruntSound: HTMLAudioElement | null;
-  gameOverSound: HTMLAudioElement | null;
-  wompWompSound: HTMLAudioElement | null;
+const STORAGE_KEY = "audio";
+
+interface AudioSettings {
+  volumes: Record<AudioBus, number>; // From 0 to 1
   isMuted: boolean;
-  
-  // Setter functions
-  setBackgroundMusic: (music: HTMLAudioElement) => void;
-  setHitSound: (sound: HTMLAudioElement) => void;
-  setSuccessSound: (sound: HTMLAudioElement) => void;
-  setGruntSound: (sound: HTMLAudioElement) => void;
-  setGameOverSound: (sound: HTMLAudioElement) => void;
-  setWompWompSound: (sound: HTMLAudioElement) => void;
-  
-  // Control functions
+}
+
+interface AudioState extends AudioSettings {
+  // Actions
+  loadSounds: () => Promise<void>;
+  setVolume: (bus: AudioBus, volume: number) => void;
   toggleMute: () => void;
-  playHit: () => void;
-  playSuccess: () => void;
-  playGrunt: () => void;
-  playGameOver: () => void;
-  playWompWomp: () => void;
+  playSound: (effect: SoundEffect) => void;
+  playStinger: (effect: SoundEffect) => void; // Ducks the music while it plays
+  playTick: () => void; // Countdown tick for the closing seconds of a level
+  playObstacleCue: (pan: number, ahead: boolean) => void; // Warning of traffic about to reach the player
   playBackgroundMusic: () => void;
   stopBackgroundMusic: () => void;
+  pauseBackgroundMusic: () => void; // Keeps its place, so playBackgroundMusic() picks up where it left off
 }
 
-export const useAudio = create<AudioState>((set, get) => ({
-  backgroundMusic: null,
-  hitSound: null,
-  successSound: null,
-  gruntSound: null,
-  gameOverSound: null,
-  wompWompSound: null,
-  isMuted: false, // We want to hear sounds by default
-  
-  setBackgroundMusic: (music) => set({ backgroundMusic: music }),
-  setHitSound: (sound) => set({ hitSound: sound }),
-  setSuccessSound: (sound) => set({ successSound: sound }),
-  setGruntSound: (sound) => set({ gruntSound: sound }),
-  setGameOverSound: (sound) => set({ gameOverSound: sound }),
-  setWompWompSound: (sound) => set({ wompWompSound: sound }),
-  
-  toggleMute: () => {
-    const { isMuted, backgroundMusic } = get();
-    const newMutedState = !isMuted;
-    
-    // Update the muted state
-    set({ isMuted: newMutedState });
-    
-    // Handle background music
-    if (backgroundMusic) {
-      if (newMutedState) {
-        backgroundMusic.pause();
-      } else {
-        // Try to play or resume background music
-        backgroundMusic.play().catch(error => {
-          console.error("Could not play background music:", error);
-        });
-      }
-    }
-    
-    // Log the change
-    console.log(`Sound ${newMutedState ? 'muted' : 'unmuted'}`);
-  },
+function loadSettings(): AudioSettings {
+  const saved = getLocalStorage(STORAGE_KEY) ?? {};
+  const volumes = {} as Record<AudioBus, number>;
+  for (const bus of AUDIO_BUSES) {
+    const volume = saved.volumes?.[bus];
+    volumes[bus] = typeof volume === "number" ? Math.min(1, Math.max(0, volume)) : 1;
+  }
 
-  playBackgroundMusic: () => {
-    const { backgroundMusic, isMuted } = get();
-    if (backgroundMusic && !isMuted) {
-      console.log("Playing background music");
-      backgroundMusic.play().catch(error => {
-        console.error("Could not play background music:", error);
-      });
-    } else {
-      console.log("Background music not played (muted or not set)");
-    }
-  },
+  return {
+    volumes,
+    isMuted: typeof saved.isMuted === "boolean" ? saved.isMuted : false, // We want to hear sounds by default
+  };
+}
 
-  stopBackgroundMusic: () => {
-    const { backgroundMusic } = get();
-    if (backgroundMusic) {
-      backgroundMusic.pause();
-      backgroundMusic.currentTime = 0;
-    }
-  },
-  
-  playHit: () => {
-    const { hitSound, isMuted } = get();
-    if (hitSound) {
-      // If sound is muted, don't play anything
-      if (isMuted) {
-        console.log("Hit sound skipped (muted)");
-        return;
-      }
-      
-      // Use same pattern as other sounds that work correctly
-      hitSound.currentTime = 0;
-      hitSound.volume = 0.8; // Make it a bit louder
-      console.log("Playing hit sound");
-      hitSound.play().catch(error => {
-        console.error("Hit sound play prevented:", error);
-      });
-    }
-  },
-  
-  playSuccess: () => {
-    const { successSound, isMuted } = get();
-    if (successSound) {
-      // If sound is muted, don't play anything
-      if (isMuted) {
-        console.log("Success sound skipped (muted)");
-        return;
-      }
-      
-      successSound.currentTime = 0;
-      successSound.volume = 0.8; // Make it a bit louder
-      console.log("Playing success sound");
-      successSound.play().catch(error => {
-        console.error("Success sound play prevented:", error);
-      });
-    }
-  },
-  
-  playGrunt: () => {
-    const { gruntSound, isMuted } = get();
-    if (gruntSound) {
-      // If sound is muted, don't play anything
-      if (isMuted) {
-        console.log("Grunt sound skipped (muted)");
-        return;
-      }
-      
-      // This is the EXACT same implementation as playGameOver
-      // which we know works correctly
-      gruntSound.currentTime = 0;
-      gruntSound.volume = 1.0; // Maximum volume
-      console.log("Playing grunt sound exactly like game over sound");
-      gruntSound.play().catch(error => {
-        console.error("Grunt sound play prevented:", error);
-      });
-    }
-  },
-  
-  playGameOver: () => {
-    const { gameOverSound, isMuted } = get();
-    if (gameOverSound) {
-      // If sound is muted, don't play anything
-      if (isMuted) {
-        console.log("Game over sound skipped (muted)");
-        return;
-      }
-      
-      gameOverSound.currentTime = 0;
-      gameOverSound.play().catch(error => {
-        console.error("Game over sound play prevented:", error);
-      });
-    }
-  },
-  
-  playWompWomp: () => {
-    const { wompWompSound, isMuted } = get();
-    if (wompWompSound) {
-      // If sound is muted, don't play anything
-      if (isMuted) {
-        console.log("Womp womp sound skipped (muted)");
-        return;
-      }
-      
-      wompWompSound.currentTime = 0;
-      wompWompSound.volume = 0.6; // Slightly louder for comic effect
-      wompWompSound.play().catch(error => {
-        console.error("Womp womp sound play prevented:", error);
-      });
-    }
+// Browsers without Web Audio, or that refuse a sound, just stay quiet
+function safely(label: string, play: () => void) {
+  try {
+    play();
+  } catch (error) {
+    console.error(`${label} prevented:`, error);
   }
-}));
+}
+
+export const useAudio = create<AudioState>((set, get) => {
+  const settings = loadSettings();
+  const mixer = new AudioMixer(settings.volumes, settings.isMuted);
+
+  const update = (changes: Partial<AudioSettings>) => {
+    const { volumes, isMuted } = { ...get(), ...changes };
+    setLocalStorage(STORAGE_KEY, { volumes, isMuted });
+    set(changes);
+  };
+
+  return {
+    ...settings,
+
+    loadSounds: async () => {
+      try {
+        await mixer.load();
+        console.log("Audio initialization complete");
+      } catch (error) {
+        console.error("Audio loading failed:", error);
+      }
+    },
+
+    setVolume: (bus, volume) => {
+      safely("Volume change", () => mixer.setVolume(bus, volume));
+      update({ volumes: { ...get().volumes, [bus]: volume } });
+    },
+
+    toggleMute: () => {
+      const isMuted = !get().isMuted;
+      safely("Mute", () => mixer.setMuted(isMuted));
+      update({ isMuted });
+      console.log(`Sound ${isMuted ? "muted" : "unmuted"}`);
+    },
+
+    playSound: (effect) => safely(`${effect} sound`, () => mixer.playSound(effect)),
+    playStinger: (effect) => safely(`${effect} sound`, () => mixer.playSound(effect, true)),
+    playTick: () => safely("Tick sound", () => mixer.playTick()),
+    playObstacleCue: (pan, ahead) => safely("Obstacle cue", () => mixer.playObstacleCue(pan, ahead)),
+
+    playBackgroundMusic: () => safely("Background music", () => mixer.playMusic("background")),
+    stopBackgroundMusic: () => safely("Background music", () => mixer.stopMusic()),
+    pauseBackgroundMusic: () => safely("Background music", () => mixer.pauseMusic()),
+  };
+});
@@ -0,0 +1,27 @@
+import { create } from "zustand";
+import { Difficulty } from "@shared/game/constants";
+import { getLocalStorage, setLocalStorage } from "../utils";
+
+const STORAGE_KEY = "difficulty";
+
+interface DifficultyState {
+  difficulty: Difficulty;
+
+  // Actions
+  setDifficulty: (difficulty: Difficulty) => void;
+}
+
+// Remember the player's choice between visits
+function loadDifficulty(): Difficulty {
+  const saved = getLocalStorage(STORAGE_KEY);
+  return Object.values(Difficulty).includes(saved) ? saved : Difficulty.GUNSLINGER;
+}
+
+export const useDifficulty = create<DifficultyState>((set) => ({
+  difficulty: loadDifficulty(),
+
+  setDifficulty: (difficulty) => {
+    setLocalStorage(STORAGE_KEY, difficulty);
+    set({ difficulty });
+  },
+}));
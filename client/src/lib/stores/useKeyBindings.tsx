@@ -0,0 +1,27 @@
+import { create } from "zustand";
+import { getLocalStorage, setLocalStorage } from "../utils";
+import { DEFAULT_BINDINGS, isKeyBindings, type KeyBindings } from "../input";
+
+const STORAGE_KEY = "keyBindings";
+
+interface KeyBindingsState {
+  bindings: KeyBindings;
+
+  // Actions
+  setBindings: (bindings: KeyBindings) => void;
+}
+
+// Bindings are kept per browser, so each keyboard keeps its own layout
+function loadBindings(): KeyBindings {
+  const saved = getLocalStorage(STORAGE_KEY);
+  return isKeyBindings(saved) ? saved : DEFAULT_BINDINGS;
+}
+
+export const useKeyBindings = create<KeyBindingsState>((set) => ({
+  bindings: loadBindings(),
+
+  setBindings: (bindings) => {
+    setLocalStorage(STORAGE_KEY, bindings);
+    set({ bindings });
+  },
+}));
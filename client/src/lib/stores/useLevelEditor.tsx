@@ -0,0 +1,96 @@
+import { create } from "zustand";
+import { GRID_CELLS_Y, ObstacleType, PlatformType } from "@shared/game/constants";
+import { LEVELS, type LaneConfig, type LevelConfig } from "@shared/game/levels";
+
+export type PlaytestResult = "complete" | "failed";
+
+interface LevelEditorState {
+  draft: LevelConfig;
+  selectedLane: number;
+  lastPlaytest: PlaytestResult | null;
+
+  // Actions
+  loadLevel: (level: LevelConfig) => void;
+  updateLevel: (changes: Partial<LevelConfig>) => void;
+  updateLane: (index: number, changes: Partial<LaneConfig>) => void;
+  setLaneType: (index: number, type: LaneConfig["type"]) => void;
+  addLane: (index: number) => void;
+  removeLane: (index: number) => void;
+  moveLane: (index: number, offset: number) => void;
+  selectLane: (index: number) => void;
+  setLastPlaytest: (result: PlaytestResult | null) => void;
+}
+
+// Leave room below the lanes for the start row
+const MAX_LANES = GRID_CELLS_Y - 1;
+
+// A fresh lane of each type with sensible defaults
+function createLaneOfType(type: LaneConfig["type"], direction: LaneConfig["direction"]): LaneConfig {
+  switch (type) {
+    case "road":
+      return { type, direction, obstacleType: ObstacleType.HORSE, obstacleFrequency: 0.2 };
+    case "river":
+      return { type, direction, platformType: PlatformType.LOG, platformGap: 1.5 };
+    case "safe":
+      return { type, direction };
+  }
+}
+
+// The start row always sits below the last lane
+function withLanes(draft: LevelConfig, lanes: LaneConfig[]): LevelConfig {
+  return { ...draft, lanes, startRow: Math.min(GRID_CELLS_Y - 1, Math.max(draft.startRow, lanes.length)) };
+}
+
+export const useLevelEditor = create<LevelEditorState>((set) => ({
+  draft: structuredClone(LEVELS[1]),
+  selectedLane: 0,
+  lastPlaytest: null,
+
+  loadLevel: (level) => set({ draft: structuredClone(level), selectedLane: 0, lastPlaytest: null }),
+
+  updateLevel: (changes) => set((state) => ({ draft: { ...state.draft, ...changes } })),
+
+  updateLane: (index, changes) => set((state) => {
+    const lanes = state.draft.lanes.map((lane, i) => (i === index ? { ...lane, ...changes } : lane));
+    return { draft: { ...state.draft, lanes } };
+  }),
+
+  setLaneType: (index, type) => set((state) => {
+    const lanes = state.draft.lanes.map((lane, i) =>
+      i === index && lane.type !== type ? createLaneOfType(type, lane.direction) : lane
+    );
+    return { draft: { ...state.draft, lanes } };
+  }),
+
+  addLane: (index) => set((state) => {
+    if (state.draft.lanes.length >= MAX_LANES) return {};
+
+    const lanes = [...state.draft.lanes];
+    lanes.splice(index, 0, createLaneOfType("safe", "left"));
+    return { draft: withLanes(state.draft, lanes), selectedLane: index };
+  }),
+
+  removeLane: (index) => set((state) => {
+    // A level needs at least a goal row and one more lane
+    if (state.draft.lanes.length <= 2) return {};
+
+    const lanes = state.draft.lanes.filter((_, i) => i !== index);
+    return {
+      draft: withLanes(state.draft, lanes),
+      selectedLane: Math.min(state.selectedLane, lanes.length - 1),
+    };
+  }),
+
+  moveLane: (index, offset) => set((state) => {
+    const target = index + offset;
+    if (target < 0 || target >= state.draft.lanes.length) return {};
+
+    const lanes = [...state.draft.lanes];
+    [lanes[index], lanes[target]] = [lanes[target], lanes[index]];
+    return { draft: { ...state.draft, lanes }, selectedLane: target };
+  }),
+
+  selectLane: (index) => set({ selectedLane: index }),
+
+  setLastPlaytest: (result) => set({ lastPlaytest: result }),
+}));
@@ -0,0 +1,26 @@
+import { create } from "zustand";
+import { getLocalStorage, setLocalStorage } from "../utils";
+
+const STORAGE_KEY = "touchControls";
+
+interface TouchControlsState {
+  showDPad: boolean; // On-screen D-pad on phones - swipes and taps work either way
+
+  // Actions
+  setShowDPad: (showDPad: boolean) => void;
+}
+
+// Remember the player's choice between visits
+function loadShowDPad(): boolean {
+  const saved = getLocalStorage(STORAGE_KEY);
+  return typeof saved?.showDPad === "boolean" ? saved.showDPad : true;
+}
+
+export const useTouchControls = create<TouchControlsState>((set) => ({
+  showDPad: loadShowDPad(),
+
+  setShowDPad: (showDPad) => {
+    setLocalStorage(STORAGE_KEY, { showDPad });
+    set({ showDPad });
+  },
+}));
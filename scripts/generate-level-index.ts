@@ -0,0 +1,38 @@
+/**
+ * Write shared/levels/index.ts, which imports every level-N.json file in
+ * that folder in level order. Runs before dev, build and check, so adding a
+ * level is only a matter of dropping in its file.
+ */
+import fs from "fs";
+import path, { dirname } from "path";
+import { fileURLToPath } from "url";
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+const LEVELS_DIR = path.resolve(__dirname, "..", "shared", "levels");
+const LEVEL_FILE = /^level-(\d+)\.json$/;
+
+const levels = fs
+  .readdirSync(LEVELS_DIR)
+  .map((file) => ({ file, number: Number(LEVEL_FILE.exec(file)?.[1]) }))
+  .filter(({ number }) => Number.isInteger(number))
+  .sort((a, b) => a.number - b.number);
+
+const source = [
+  "// Generated by scripts/generate-level-index.ts from the level-N.json files",
+  "// in this folder - don't edit it, add or remove a level file instead.",
+  ...levels.map(({ file, number }) => `import level${number} from './${file}';`),
+  "",
+  `export const LEVEL_FILES: unknown[] = [${levels.map(({ number }) => `level${number}`).join(", ")}];`,
+  "",
+].join("\n");
+
+const indexPath = path.join(LEVELS_DIR, "index.ts");
+const current = fs.existsSync(indexPath) ? fs.readFileSync(indexPath, "utf8") : null;
+
+// Leave the file alone when nothing changed so watchers don't rebuild for nothing
+if (current !== source) {
+  fs.writeFileSync(indexPath, source);
+  console.log(`Wrote ${path.relative(process.cwd(), indexPath)} with ${levels.length} levels`);
+}
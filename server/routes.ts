@@ -1,13 +1,95 @@
 import type { Express, Request, Response } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
-import { insertHighScoreSchema } from "../shared/schema";
+import { z } from "zod";
+import { submitHighScoreSchema, startDailyAttemptSchema } from "../shared/schema";
+import { GAME_MODES, Difficulty } from "../shared/game/constants";
+import { getDailyDate, getDailyChallenge, dailyDateSchema } from "../shared/game/daily";
+import { verifyReplay } from "../shared/game/verify";
 
 export async function registerRoutes(app: Express): Promise<Server> {
-  // Get top high scores
-  app.get("/api/highscores", async (_req: Request, res: Response) => {
+  // Today's daily bounty: the seed and modifiers everyone plays
+  app.get("/api/daily", (_req: Request, res: Response) => {
+    res.json(getDailyChallenge(getDailyDate()));
+  });
+  
+  // Claim a player's one ranked attempt at today's bounty, before they ride it.
+  // The token it returns has to come back with the score.
+  app.post("/api/daily/attempts", async (req: Request, res: Response) => {
+    try {
+      const result = startDailyAttemptSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({
+          error: "Player name must be 1 to 5 characters",
+          details: result.error.format()
+        });
+      }
+      
+      const today = getDailyDate();
+      const playerName = result.data.playerName.toUpperCase();
+      const attempt = await storage.startDailyAttempt(today, playerName);
+      if (!attempt) {
+        return res.status(409).json({
+          error: "Already ridden today",
+          details: `${playerName} has already had a ranked attempt at the bounty for ${today}`
+        });
+      }
+      
+      res.status(201).json({ attempt, playerName, date: today });
+    } catch (error) {
+      console.error("Error starting daily attempt:", error);
+      res.status(500).json({ error: "Failed to start daily attempt" });
+    }
+  });
+  
+  // Winners of past daily bounties, a week at a time, most recent first,
+  // optionally for one ?difficulty=. Page back with ?before=YYYY-MM-DD, the
+  // oldest day already shown - today's bounty is still open, so never later.
+  app.get("/api/daily/winners", async (req: Request, res: Response) => {
     try {
-      const highScores = await storage.getHighScores(10); // Get top 10 scores
+      const difficulty = z.nativeEnum(Difficulty).optional().safeParse(req.query.difficulty);
+      if (!difficulty.success) {
+        return res.status(400).json({ error: "Unknown difficulty" });
+      }
+
+      const today = getDailyDate();
+      const before = dailyDateSchema.default(today).safeParse(req.query.before);
+      if (!before.success) {
+        return res.status(400).json({ error: "Invalid date" });
+      }
+
+      const winners = await storage.getDailyWinners(before.data < today ? before.data : today, 7, difficulty.data);
+      res.json(winners);
+    } catch (error) {
+      console.error("Error getting daily winners:", error);
+      res.status(500).json({ error: "Failed to retrieve daily winners" });
+    }
+  });
+
+  // Get top high scores for a game mode (story unless ?mode= says otherwise).
+  // Daily scores are per day: ?date=YYYY-MM-DD, today by default.
+  // Every difficulty is included unless ?difficulty= picks one.
+  app.get("/api/highscores", async (req: Request, res: Response) => {
+    try {
+      const mode = z.enum(GAME_MODES).default("story").safeParse(req.query.mode);
+      if (!mode.success) {
+        return res.status(400).json({ error: "Unknown game mode" });
+      }
+
+      const difficulty = z.nativeEnum(Difficulty).optional().safeParse(req.query.difficulty);
+      if (!difficulty.success) {
+        return res.status(400).json({ error: "Unknown difficulty" });
+      }
+
+      if (mode.data === "daily") {
+        const day = dailyDateSchema.default(getDailyDate()).safeParse(req.query.date);
+        if (!day.success) {
+          return res.status(400).json({ error: "Invalid date" });
+        }
+        return res.json(await storage.getDailyScores(day.data, 10, difficulty.data));
+      }
+
+      const highScores = await storage.getHighScores(10, mode.data, difficulty.data); // Get top 10 scores
       res.json(highScores);
     } catch (error) {
       console.error("Error getting high scores:", error);
@@ -15,11 +97,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
-  // Add a new high score
+  // Add a new high score - the score must be reproducible from its replay
   app.post("/api/highscores", async (req: Request, res: Response) => {
     try {
       // Validate the request body against our schema
-      const result = insertHighScoreSchema.safeParse(req.body);
+      const result = submitHighScoreSchema.safeParse(req.body);
       
       if (!result.success) {
         return res.status(400).json({ 
@@ -35,11 +117,92 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
       }
       
+      // Re-simulate the run and check the claimed score against it
+      const { replay, attempt, ...submission } = result.data;
+      const verification = verifyReplay(replay);
+      
+      if (!verification.valid) {
+        return res.status(422).json({
+          error: "Replay could not be verified",
+          details: verification.reason
+        });
+      }
+      
+      if (verification.score !== submission.score) {
+        return res.status(422).json({
+          error: "Score does not match replay",
+          details: `Submitted ${submission.score} but the replay earns ${verification.score}`,
+          breakdown: verification.breakdown
+        });
+      }
+      
+      if (verification.mode !== submission.mode) {
+        return res.status(422).json({
+          error: "Game mode does not match replay",
+          details: `Submitted a ${submission.mode} score but the replay is a ${verification.mode} run`
+        });
+      }
+      
+      if (verification.difficulty !== submission.difficulty) {
+        return res.status(422).json({
+          error: "Difficulty does not match replay",
+          details: `Submitted a ${submission.difficulty} score but the replay was played on ${verification.difficulty}`
+        });
+      }
+      
+      // Assists make a run easier than its difficulty, so they stay off the board
+      if (verification.slowTraffic) {
+        return res.status(422).json({
+          error: "Assisted runs aren't ranked",
+          details: "The replay was played with the slow traffic assist"
+        });
+      }
+      
+      if (verification.level !== submission.level) {
+        return res.status(422).json({
+          error: "Level does not match replay",
+          details: `Submitted level ${submission.level} but the replay ends on level ${verification.level}`
+        });
+      }
+      
       // Convert name to uppercase
-      result.data.playerName = result.data.playerName.toUpperCase();
+      submission.playerName = submission.playerName.toUpperCase();
+      
+      // Daily bounties only rank from an attempt claimed before the run, so a
+      // player can't ride it until they like a score. The score goes on the
+      // board of the day the attempt was claimed, which stays open through
+      // the next day for runs that cross midnight.
+      if (submission.mode === "daily") {
+        const today = getDailyDate();
+        const yesterday = getDailyDate(Date.now() - 24 * 60 * 60 * 1000);
+        if (replay.day !== today && replay.day !== yesterday) {
+          return res.status(422).json({
+            error: "Daily bounty is closed",
+            details: `The bounty for ${replay.day} has closed - today's is ${today}`
+          });
+        }
+        
+        if (!attempt) {
+          return res.status(422).json({
+            error: "Not a ranked attempt",
+            details: "Daily bounty scores need the attempt token issued when the run started"
+          });
+        }
+        
+        // Checked against the day stored with the attempt, not the date now
+        const dailyScore = await storage.createDailyScore(replay.day!, submission, attempt, true);
+        if (!dailyScore) {
+          return res.status(409).json({
+            error: "Attempt already used",
+            details: `The attempt is spent, from another day or not ${submission.playerName}'s`
+          });
+        }
+        
+        return res.status(201).json(dailyScore);
+      }
       
       // Save the high score
-      const highScore = await storage.createHighScore(result.data);
+      const highScore = await storage.createHighScore(submission, true);
       res.status(201).json(highScore);
     } catch (error) {
       console.error("Error saving high score:", error);
@@ -1,4 +1,7 @@
 import { users, highScores, type User, type InsertUser, type HighScore, type InsertHighScore } from "@shared/schema";
+import { Difficulty, type GameMode } from "@shared/game/constants";
+import { getDailyDate } from "@shared/game/daily";
+import { randomUUID } from "crypto";
 
 // modify the interface with any CRUD methods
 // you might need
@@ -9,19 +12,39 @@ export interface IStorage {
   createUser(user: InsertUser): Promise<User>;
   
   // High score methods
-  getHighScores(limit?: number): Promise<HighScore[]>;
-  createHighScore(score: InsertHighScore): Promise<HighScore>;
+  // Scores from every difficulty unless one is given
+  getHighScores(limit?: number, mode?: GameMode, difficulty?: Difficulty): Promise<HighScore[]>;
+  createHighScore(score: InsertHighScore, verified?: boolean): Promise<HighScore>;
+  
+  // Daily bounty methods - each UTC day is its own leaderboard
+  getDailyScores(day: string, limit?: number, difficulty?: Difficulty): Promise<HighScore[]>;
+  // Claim a player's one ranked attempt for the day before it's played. Returns
+  // the attempt's token, or undefined if the name has already had its attempt.
+  startDailyAttempt(day: string, playerName: string): Promise<string | undefined>;
+  // Rank the score of an attempt. Returns undefined unless the token is an
+  // unused attempt from that day under the score's player name.
+  createDailyScore(day: string, score: InsertHighScore, attempt: string, verified?: boolean): Promise<HighScore | undefined>;
+  // Top score of each day before the given one, most recent day first
+  getDailyWinners(before: string, limit?: number, difficulty?: Difficulty): Promise<HighScore[]>;
+}
+
+interface DailyAttempt {
+  day: string;
+  playerName: string;
+  used: boolean; // A score has been ranked for it
 }
 
 export class MemStorage implements IStorage {
   private users: Map<number, User>;
   private highScores: Map<number, HighScore>;
+  private dailyAttempts: Map<string, DailyAttempt>; // By token
   private userCurrentId: number;
   private scoreCurrentId: number;
 
   constructor() {
     this.users = new Map();
     this.highScores = new Map();
+    this.dailyAttempts = new Map();
     this.userCurrentId = 1;
     this.scoreCurrentId = 1;
     
@@ -46,20 +69,24 @@ export class MemStorage implements IStorage {
     return user;
   }
   
-  async getHighScores(limit: number = 10): Promise<HighScore[]> {
-    // Convert Map to array, sort by score descending, and limit the results
+  async getHighScores(limit: number = 10, mode: GameMode = "story", difficulty?: Difficulty): Promise<HighScore[]> {
+    // Convert Map to array, keep the mode's leaderboard, sort by score descending, and limit the results
     return Array.from(this.highScores.values())
+      .filter((score) => score.mode === mode && score.day === null)
+      .filter((score) => !difficulty || score.difficulty === difficulty)
       .sort((a, b) => b.score - a.score)
       .slice(0, limit);
   }
   
-  async createHighScore(insertScore: InsertHighScore): Promise<HighScore> {
+  async createHighScore(insertScore: InsertHighScore, verified: boolean = false): Promise<HighScore> {
     const id = this.scoreCurrentId++;
     
     // Create the high score with current date
     const highScore: HighScore = { 
       ...insertScore, 
       id, 
+      day: null,
+      verified,
       date: new Date() 
     };
     
@@ -67,19 +94,96 @@ export class MemStorage implements IStorage {
     return highScore;
   }
   
+  async getDailyScores(day: string, limit: number = 10, difficulty?: Difficulty): Promise<HighScore[]> {
+    return Array.from(this.highScores.values())
+      .filter((score) => score.day === day)
+      .filter((score) => !difficulty || score.difficulty === difficulty)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit);
+  }
+  
+  async startDailyAttempt(day: string, playerName: string): Promise<string | undefined> {
+    // One ranked attempt per player name per day
+    const alreadyRidden = Array.from(this.dailyAttempts.values()).some(
+      (attempt) => attempt.day === day && attempt.playerName === playerName
+    );
+    if (alreadyRidden) return undefined;
+    
+    const token = randomUUID();
+    this.dailyAttempts.set(token, { day, playerName, used: false });
+    return token;
+  }
+  
+  async createDailyScore(day: string, insertScore: InsertHighScore, attempt: string, verified: boolean = false): Promise<HighScore | undefined> {
+    const dailyAttempt = this.dailyAttempts.get(attempt);
+    if (!dailyAttempt || dailyAttempt.used || dailyAttempt.day !== day || dailyAttempt.playerName !== insertScore.playerName) {
+      return undefined;
+    }
+    dailyAttempt.used = true;
+    
+    const id = this.scoreCurrentId++;
+    const highScore: HighScore = {
+      ...insertScore,
+      mode: "daily",
+      id,
+      day,
+      verified,
+      date: new Date()
+    };
+    
+    this.highScores.set(id, highScore);
+    return highScore;
+  }
+  
+  async getDailyWinners(before: string, limit: number = 7, difficulty?: Difficulty): Promise<HighScore[]> {
+    const winners = new Map<string, HighScore>();
+    
+    for (const score of Array.from(this.highScores.values())) {
+      if (score.day === null || score.day >= before) continue;
+      if (difficulty && score.difficulty !== difficulty) continue;
+      
+      const best = winners.get(score.day);
+      if (!best || score.score > best.score) {
+        winners.set(score.day, score);
+      }
+    }
+    
+    return Array.from(winners.values())
+      .sort((a, b) => (a.day! < b.day! ? 1 : -1))
+      .slice(0, limit);
+  }
+  
   // Helper method to add some default high scores
   private addDefaultHighScores() {
     const defaultScores = [
-      { playerName: "JOE", score: 9500, level: 3 },
-      { playerName: "MIKE", score: 8200, level: 3 },
-      { playerName: "SARA", score: 7800, level: 3 },
-      { playerName: "BILL", score: 6500, level: 2 },
-      { playerName: "ANNE", score: 5300, level: 2 }
-    ];
+      { playerName: "JOE", score: 9500, level: 3, mode: "story", difficulty: Difficulty.LEGEND },
+      { playerName: "MIKE", score: 8200, level: 3, mode: "story", difficulty: Difficulty.GUNSLINGER },
+      { playerName: "SARA", score: 7800, level: 3, mode: "story", difficulty: Difficulty.GUNSLINGER },
+      { playerName: "BILL", score: 6500, level: 2, mode: "story", difficulty: Difficulty.GREENHORN },
+      { playerName: "ANNE", score: 5300, level: 2, mode: "story", difficulty: Difficulty.GREENHORN },
+      { playerName: "DOC", score: 8400, level: 54, mode: "endless", difficulty: Difficulty.GUNSLINGER },
+      { playerName: "KID", score: 5100, level: 31, mode: "endless", difficulty: Difficulty.GREENHORN },
+      { playerName: "BELLE", score: 3900, level: 29, mode: "endless", difficulty: Difficulty.LEGEND }
+    ] as const;
     
     for (const score of defaultScores) {
       this.createHighScore(score);
     }
+    
+    // And a couple of past daily bounties so the winners list isn't empty
+    const day = 24 * 60 * 60 * 1000;
+    const pastDailyScores = [
+      { daysAgo: 1, playerName: "JESSE", score: 4200 },
+      { daysAgo: 1, playerName: "CASS", score: 3100 },
+      { daysAgo: 2, playerName: "WYATT", score: 3800 }
+    ];
+    
+    for (const { daysAgo, playerName, score } of pastDailyScores) {
+      const date = getDailyDate(Date.now() - daysAgo * day);
+      this.startDailyAttempt(date, playerName).then((attempt) =>
+        this.createDailyScore(date, { playerName, score, level: 1, mode: "daily", difficulty: Difficulty.GUNSLINGER }, attempt!)
+      );
+    }
   }
 }
 
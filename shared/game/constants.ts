@@ -0,0 +1,215 @@
+// Game rules shared by the browser and the server
+
+// World size - the simulation always runs in these units, renderers scale to the canvas
+export const BASE_WIDTH = 800;
+export const BASE_HEIGHT = 600;
+export const GRID_CELLS_X = 10;
+export const GRID_CELLS_Y = 30; // Extended for scrolling
+export const CELL_WIDTH = BASE_WIDTH / GRID_CELLS_X;
+export const CELL_HEIGHT = (BASE_HEIGHT / GRID_CELLS_Y) * 1.8; // 80% taller cells make lanes wider vertically
+
+// Simulation timing
+export const SIMULATION_STEP_MS = 1000 / 60; // Fixed simulation step (60 steps per second)
+
+// Replays are re-simulated on the server, so a recording can't hold moves
+// without end. Time limits end every story and daily level, and endless
+// runs are allowed a stretch of play for each move they hold.
+export const MAX_REPLAY_MOVES = 20000; // Hopping flat out for half an hour makes about 11000
+export const ENDLESS_TICKS_PER_MOVE = Math.ceil(10000 / SIMULATION_STEP_MS); // Endless play allowed per move, on average
+
+// Player
+export const PLAYER_WIDTH = 65; // Increased from 40 for better visibility
+export const PLAYER_HEIGHT = 65; // Increased from 40 for better visibility
+export const PLAYER_MOVE_COOLDOWN = 80; // Slightly reduced for more responsive controls
+export const PLAYER_MOVE_SPEED = 0.1; // Grid cells per simulation step
+export const MOVE_BUFFER_SIZE = 2; // Moves pressed mid-hop that wait their turn rather than being dropped
+export const MOVE_BUFFER_WINDOW = 250; // Milliseconds a buffered move waits for the player before it's discarded, by default
+export const MAX_MOVE_BUFFER_WINDOW = 500; // Longest window a player can pick - 0 turns buffering off
+
+// Game mechanics
+export const STARTING_LIVES = 3;
+export const POINTS_FOR_CROSSING = 100;
+export const POINTS_FOR_MONEYBAG = 500; // Points for reaching a money bag
+export const POINTS_FOR_COIN = 1000; // Increased to 1000 to make coins more rewarding
+export const TIME_BONUS_FACTOR = 10;
+
+// Combo multiplier - forward moves, quick coins and money bags build it, hits and dawdling break it
+export const COMBO_STEP = 8; // Combo built per multiplier step
+export const COMBO_MAX_MULTIPLIER = 5;
+export const COMBO_COIN_WINDOW = 2000; // A coin builds the combo if it follows the last within this many milliseconds
+export const COMBO_IDLE_TIMEOUT = 3000; // Standing still this long breaks the combo
+
+// Coin settings
+export const COIN_WIDTH = 45; // Increased from 30 for better visibility
+export const COIN_HEIGHT = 45; // Increased from 30 for better visibility
+export const COINS_PER_LANE = 3; // Average number of coins per lane
+
+// Sheriff Badge settings
+export const SHERIFF_BADGE_WIDTH = 55; // Slightly larger than coins for better visibility
+export const SHERIFF_BADGE_HEIGHT = 55; // Slightly larger than coins for better visibility
+export const SHERIFF_BADGES_PER_LEVEL = 0; // Base value - actual count determined by level
+export const INVINCIBILITY_DURATION = 3000; // 3 seconds of invincibility
+export const HIT_INVINCIBILITY_DURATION = 2000; // Grace period after losing a life
+export const POINTS_FOR_BADGE = 500; // Points for collecting a sheriff badge
+
+// Power-ups - the sheriff badge and the other pickups found on the road
+export enum PowerUpType {
+  BADGE = 'badge',
+  MAGNET = 'magnet',
+  HOURGLASS = 'hourglass',
+  HORSESHOE = 'horseshoe',
+  SPURS = 'spurs'
+}
+
+export const POWER_UP_WIDTH = 50;
+export const POWER_UP_HEIGHT = 50;
+export const POWER_UP_POINTS = 250; // Points for the pickups other than the badge
+export const MAGNET_DURATION = 8000;
+export const MAGNET_RADIUS = 200; // Coins within this distance of the player drift towards them
+export const MAGNET_PULL_SPEED = 4; // World units per simulation step
+export const HOURGLASS_DURATION = 5000;
+export const HOURGLASS_TIME_SCALE = 0.5; // Lanes run at this fraction of normal speed
+export const SPURS_DURATION = 6000;
+export const SPURS_COOLDOWN_FACTOR = 0.5; // Multiplier on PLAYER_MOVE_COOLDOWN
+export const SPURS_SPEED_FACTOR = 1.5; // Multiplier on PLAYER_MOVE_SPEED
+
+// Pursuing sheriff
+export const SHERIFF_WIDTH = 90;
+export const SHERIFF_HEIGHT = 70;
+export const SHERIFF_MOVE_SPEED = 0.04; // Grid cells per simulation step - well under the player's pace
+export const SHERIFF_RETREAT_DURATION = 2000; // Time the sheriff backs off after catching the player
+
+// Level design
+export const INITIAL_OBSTACLE_SPEED = 1;
+export const SPEED_INCREMENT_PER_LEVEL = 0.3;
+export const MAX_OBSTACLE_SPEED = 5;
+
+// Obstacle patterns and types
+export enum ObstacleType {
+  HORSE = 'horse',
+  TUMBLEWEED = 'tumbleweed',
+  TRAIN = 'train',
+  CACTUS = 'cactus',
+  STAGECOACH = 'stagecoach'
+}
+
+// Obstacle properties
+export const OBSTACLE_PROPERTIES = {
+  [ObstacleType.HORSE]: {
+    width: 130, // Increased from 80 for better visibility
+    height: 65, // Increased from 40 for better visibility
+    speedMultiplier: 1.5,
+    deadly: true
+  },
+  [ObstacleType.TUMBLEWEED]: {
+    width: 65, // Increased from 40 for better visibility
+    height: 65, // Increased from 40 for better visibility
+    speedMultiplier: 2,
+    deadly: true
+  },
+  [ObstacleType.TRAIN]: {
+    width: 200, // Increased from 140 for better visibility
+    height: 90, // Increased from 60 for better visibility
+    speedMultiplier: 0.8,
+    deadly: true
+  },
+  [ObstacleType.CACTUS]: {
+    width: 65, // Increased from 40 for better visibility
+    height: 90, // Increased from 60 for better visibility
+    speedMultiplier: 0,
+    deadly: true
+  },
+  [ObstacleType.STAGECOACH]: {
+    width: 180, // Spans more than two grid cells
+    height: 96,
+    speedMultiplier: 1.3,
+    deadly: true
+  }
+};
+
+// Stagecoaches ease off at regular intervals as if stopping for passengers
+export const STAGECOACH_STOP_INTERVAL = 4000; // Time between stops in milliseconds
+export const STAGECOACH_STOP_DURATION = 1200; // Length of a stop in milliseconds
+export const STAGECOACH_STOP_SPEED_FACTOR = 0.15; // Fraction of full speed at the slowest point
+
+// Floating platforms the player rides across river lanes
+export enum PlatformType {
+  LOG = 'log',
+  RAFT = 'raft',
+  RIVERBOAT = 'riverboat'
+}
+
+// Platform properties
+export const PLATFORM_PROPERTIES = {
+  [PlatformType.LOG]: {
+    width: 170,
+    height: 30,
+    speedMultiplier: 0.8
+  },
+  [PlatformType.RAFT]: {
+    width: 110,
+    height: 32,
+    speedMultiplier: 1.1
+  },
+  [PlatformType.RIVERBOAT]: {
+    width: 240,
+    height: 34,
+    speedMultiplier: 0.6
+  }
+};
+
+export const DEFAULT_PLATFORM_GAP = 1.5; // Gap between platforms in grid cells
+
+// Static terrain that blocks movement in safe zones
+export enum TerrainType {
+  CACTUS = 'cactus',
+  ROCK = 'rock',
+  FENCE = 'fence'
+}
+
+// Difficulty presets - scale a level's rules; Gunslinger plays levels as designed
+export enum Difficulty {
+  GREENHORN = 'greenhorn',
+  GUNSLINGER = 'gunslinger',
+  LEGEND = 'legend'
+}
+
+export const DIFFICULTY_PRESETS = {
+  [Difficulty.GREENHORN]: {
+    name: 'Greenhorn',
+    obstacleSpeed: 0.75, // Multiplier on obstacle and platform speed
+    obstacleFrequency: 0.7, // Multiplier on obstacles per second
+    extraLives: 2, // Added to the level's starting lives
+    invincibility: 1.5, // Multiplier on badge and post-hit invincibility
+    timeLimit: 1.5 // Multiplier on the level's time limit
+  },
+  [Difficulty.GUNSLINGER]: {
+    name: 'Gunslinger',
+    obstacleSpeed: 1,
+    obstacleFrequency: 1,
+    extraLives: 0,
+    invincibility: 1,
+    timeLimit: 1
+  },
+  [Difficulty.LEGEND]: {
+    name: 'Legend',
+    obstacleSpeed: 1.3,
+    obstacleFrequency: 1.25,
+    extraLives: -2, // Never below one life
+    invincibility: 0.6,
+    timeLimit: 0.75
+  }
+};
+
+// Slow traffic assist - an accessibility option, so runs played with it aren't ranked
+export const SLOW_TRAFFIC_SPEED = 0.7; // Multiplier on obstacle and platform speed, on top of the difficulty's
+
+// Game modes - each has its own leaderboard
+export const GAME_MODES = ['story', 'endless', 'daily'] as const;
+export type GameMode = typeof GAME_MODES[number];
+
+// Endless frontier
+export const ENDLESS_START_ROW = 0;
+export const ENDLESS_LANES_AHEAD = 20; // Lanes kept generated past the furthest row reached
+export const ENDLESS_LANES_BEHIND = 14; // Lanes kept behind it before they're discarded - enough to fill the screen
+export const ENDLESS_RAMP_DISTANCE = 150; // Rows travelled before the frontier reaches full difficulty
@@ -0,0 +1,137 @@
+/**
+ * Daily Bounty.
+ * Every UTC day has one seed and a set of modifiers, derived from the date
+ * alone so the server and every player agree on them. The day's level is a
+ * slice of the endless frontier generated from that seed, with the
+ * modifiers applied on top.
+ */
+import { z } from 'zod';
+import { ENDLESS_START_ROW, GRID_CELLS_X } from './constants';
+import { createEndlessState, generateEndlessLane } from './endless';
+import { levelConfigSchema, type LaneConfig, type LevelConfig } from './levels';
+import { Random, deriveSeed } from './random';
+
+export enum DailyModifier {
+  STAMPEDE = 'stampede',
+  GOLD_RUSH = 'goldRush',
+  SHORT_FUSE = 'shortFuse',
+  LIGHT_PURSES = 'lightPurses',
+  LAST_STAND = 'lastStand',
+  TIN_STARS = 'tinStars',
+}
+
+export const DAILY_MODIFIERS: Record<DailyModifier, { name: string; description: string }> = {
+  [DailyModifier.STAMPEDE]: { name: 'Stampede', description: 'Everything on the road runs a third faster' },
+  [DailyModifier.GOLD_RUSH]: { name: 'Gold Rush', description: 'Coins in every safe zone' },
+  [DailyModifier.SHORT_FUSE]: { name: 'Short Fuse', description: 'Only 60 seconds on the clock' },
+  [DailyModifier.LIGHT_PURSES]: { name: 'Light Purses', description: 'Smaller money bags' },
+  [DailyModifier.LAST_STAND]: { name: 'Last Stand', description: 'A single life' },
+  [DailyModifier.TIN_STARS]: { name: 'Tin Stars', description: 'Extra sheriff badges on the road' },
+};
+
+const MODIFIERS_PER_DAY = 2;
+
+// The daily level is a slice of the frontier this many rows out
+const DAILY_DISTANCE = 40;
+const DAILY_LANE_COUNT = 15;
+
+// Salts keep the date hash and the modifier pick apart from other streams
+const DAILY_SALT = 0xda11;
+const MODIFIER_SALT = 0x0d1f;
+
+export const dailyDateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Expected a YYYY-MM-DD date');
+
+export const dailyChallengeSchema = z.object({
+  date: dailyDateSchema, // UTC day
+  seed: z.number().int().nonnegative().max(0xffffffff),
+  modifiers: z.array(z.nativeEnum(DailyModifier)),
+});
+
+export type DailyChallenge = z.infer<typeof dailyChallengeSchema>;
+
+/**
+ * The UTC day a moment falls on, as YYYY-MM-DD
+ */
+export function getDailyDate(time: number = Date.now()): string {
+  return new Date(time).toISOString().slice(0, 10);
+}
+
+export function getDailySeed(date: string): number {
+  let seed = DAILY_SALT;
+  for (let i = 0; i < date.length; i++) {
+    seed = deriveSeed(seed, date.charCodeAt(i));
+  }
+  return seed;
+}
+
+/**
+ * The seed and modifiers for a day
+ */
+export function getDailyChallenge(date: string): DailyChallenge {
+  const seed = getDailySeed(date);
+  const rng = new Random(deriveSeed(seed, MODIFIER_SALT));
+  const modifiers = rng.shuffle(Object.values(DailyModifier)).slice(0, MODIFIERS_PER_DAY);
+
+  return { date, seed, modifiers };
+}
+
+/**
+ * Generate the day's level. Throws if the result isn't a valid level, which
+ * would be a generator bug.
+ */
+export function createDailyLevel(challenge: DailyChallenge): LevelConfig {
+  const endless = createEndlessState(new Random(challenge.seed));
+  endless.topRow = ENDLESS_START_ROW - DAILY_DISTANCE;
+
+  // Safe rows at the bottom and at the money bags, frontier lanes in between
+  const lanes: LaneConfig[] = [{ type: 'safe', direction: 'left' }];
+  while (lanes.length < DAILY_LANE_COUNT - 1) {
+    lanes.unshift(generateEndlessLane(endless).config);
+  }
+  lanes.unshift({ type: 'safe', direction: 'left' });
+
+  const level: LevelConfig = {
+    level: 1,
+    lanes,
+    goalCount: 4,
+    goalScale: 1,
+    timeLimit: 90,
+    startRow: lanes.length + 1,
+    startingLives: 3,
+    coins: { laneFraction: 0.5, minPerLane: 2, maxPerLane: 4 },
+    badges: { count: 1, laneFraction: 0.5 },
+  };
+
+  for (const modifier of challenge.modifiers) {
+    applyModifier(level, modifier);
+  }
+
+  return levelConfigSchema.parse(level);
+}
+
+function applyModifier(level: LevelConfig, modifier: DailyModifier) {
+  switch (modifier) {
+    case DailyModifier.STAMPEDE:
+      for (const lane of level.lanes) {
+        if (lane.type === 'road') {
+          lane.obstacleSpeedMultiplier = (lane.obstacleSpeedMultiplier ?? 1) * 1.33;
+        }
+      }
+      break;
+    case DailyModifier.GOLD_RUSH:
+      level.coins = { laneFraction: 1, minPerLane: 3, maxPerLane: 6 };
+      break;
+    case DailyModifier.SHORT_FUSE:
+      level.timeLimit = 60;
+      break;
+    case DailyModifier.LIGHT_PURSES:
+      level.goalScale = 0.7;
+      break;
+    case DailyModifier.LAST_STAND:
+      level.startingLives = 1;
+      break;
+    case DailyModifier.TIN_STARS:
+      level.badges = { count: Math.floor(GRID_CELLS_X / 2), laneFraction: 1 };
+      break;
+  }
+}
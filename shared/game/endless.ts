@@ -0,0 +1,142 @@
+/**
+ * Endless frontier generation.
+ * Endless runs have no level file: lanes are generated one row at a time
+ * ahead of the player from the run seed, and get busier, faster and more
+ * varied the further the player travels. Generation only depends on the
+ * frontier's own random stream, so a replay regenerates the same frontier.
+ */
+import {
+  ENDLESS_START_ROW,
+  ENDLESS_LANES_BEHIND,
+  ENDLESS_RAMP_DISTANCE,
+  ObstacleType,
+  PlatformType,
+} from './constants';
+import type { LaneConfig } from './levels';
+import { Random } from './random';
+
+export interface EndlessState {
+  rng: Random; // Frontier layout stream
+  topRow: number; // Furthest row generated so far
+  furthestRow: number; // Furthest row the player has reached
+  hazardRun: number; // Road and river lanes generated since the last safe lane
+}
+
+interface ObstacleMix {
+  type: ObstacleType;
+  unlockDistance: number; // Rows travelled before this obstacle appears
+  weight: number;
+  frequency: [number, number]; // Obstacles per second at the start and at full difficulty
+}
+
+const OBSTACLE_MIX: ObstacleMix[] = [
+  { type: ObstacleType.TUMBLEWEED, unlockDistance: 0, weight: 3, frequency: [0.15, 0.35] },
+  { type: ObstacleType.HORSE, unlockDistance: 0, weight: 3, frequency: [0.12, 0.3] },
+  { type: ObstacleType.TRAIN, unlockDistance: 12, weight: 2, frequency: [0.1, 0.25] },
+  { type: ObstacleType.STAGECOACH, unlockDistance: 30, weight: 1, frequency: [0.1, 0.18] },
+];
+
+const PLATFORM_MIX = [PlatformType.LOG, PlatformType.RAFT, PlatformType.RIVERBOAT];
+
+// The rows behind and just past the start are always safe so a run never opens on a hazard
+const SAFE_START_DISTANCE = 2;
+
+// Rivers only show up once the player has found their feet
+const RIVER_UNLOCK_DISTANCE = 20;
+
+export function createEndlessState(rng: Random): EndlessState {
+  return {
+    rng,
+    topRow: ENDLESS_START_ROW + ENDLESS_LANES_BEHIND + 1, // Generation starts on the row below this
+    furthestRow: ENDLESS_START_ROW,
+    hazardRun: 0,
+  };
+}
+
+/**
+ * Rows travelled past the start
+ */
+export function getEndlessDistance(endless: EndlessState): number {
+  return ENDLESS_START_ROW - endless.furthestRow;
+}
+
+/**
+ * How far into the difficulty ramp a row is, from 0 at the start to 1
+ */
+export function getEndlessDifficulty(distance: number): number {
+  return Math.min(1, Math.max(0, distance / ENDLESS_RAMP_DISTANCE));
+}
+
+function lerp(from: number, to: number, amount: number): number {
+  return from + (to - from) * amount;
+}
+
+/**
+ * Generate the next lane above the frontier
+ * @returns The lane's config; the frontier's top row moves up to it
+ */
+export function generateEndlessLane(endless: EndlessState): { row: number; config: LaneConfig } {
+  const rng = endless.rng;
+  const row = endless.topRow - 1;
+  const distance = ENDLESS_START_ROW - row;
+  const difficulty = getEndlessDifficulty(distance);
+  const direction = rng.next() < 0.5 ? 'left' : 'right';
+
+  endless.topRow = row;
+
+  // Safe lanes thin out and hazard runs get longer with distance
+  const maxHazardRun = 2 + Math.floor(difficulty * 3);
+  const safeChance = lerp(0.4, 0.2, difficulty);
+
+  if (
+    distance <= SAFE_START_DISTANCE ||
+    endless.hazardRun >= maxHazardRun ||
+    (endless.hazardRun > 0 && rng.next() < safeChance)
+  ) {
+    endless.hazardRun = 0;
+    return { row, config: { type: 'safe', direction } };
+  }
+
+  endless.hazardRun++;
+
+  const riverChance = distance >= RIVER_UNLOCK_DISTANCE ? lerp(0.15, 0.35, difficulty) : 0;
+  if (rng.next() < riverChance) {
+    return {
+      row,
+      config: {
+        type: 'river',
+        direction,
+        platformType: PLATFORM_MIX[rng.int(PLATFORM_MIX.length)],
+        platformGap: lerp(1.2, 2.5, difficulty),
+        obstacleSpeedMultiplier: lerp(1, 1.6, difficulty),
+      },
+    };
+  }
+
+  const mix = pickObstacle(rng, distance);
+  return {
+    row,
+    config: {
+      type: 'road',
+      direction,
+      obstacleType: mix.type,
+      obstacleFrequency: lerp(mix.frequency[0], mix.frequency[1], difficulty),
+      obstacleSpeedMultiplier: lerp(1, 2.5, difficulty),
+    },
+  };
+}
+
+/**
+ * Weighted pick from the obstacles unlocked at this distance
+ */
+function pickObstacle(rng: Random, distance: number): ObstacleMix {
+  const unlocked = OBSTACLE_MIX.filter(mix => distance >= mix.unlockDistance);
+  const totalWeight = unlocked.reduce((total, mix) => total + mix.weight, 0);
+
+  let roll = rng.range(0, totalWeight);
+  for (const mix of unlocked) {
+    roll -= mix.weight;
+    if (roll < 0) return mix;
+  }
+  return unlocked[unlocked.length - 1];
+}
@@ -0,0 +1,34 @@
+export interface GoalState {
+  x: number; // Center in world units
+  y: number;
+  width: number;
+  height: number;
+  sizeMultiplier: number; // Smaller money bags are drawn (and hit-tested) smaller
+  reached: boolean;
+}
+
+export function createGoal(x: number, y: number, width: number, height: number, sizeMultiplier: number): GoalState {
+  return {
+    x,
+    y,
+    width,
+    height,
+    sizeMultiplier,
+    reached: false,
+  };
+}
+
+/**
+ * Whether a horizontal position falls inside the money bag's catch zone
+ */
+export function goalContains(goal: GoalState, pointX: number): boolean {
+  const actualWidth = goal.width * goal.sizeMultiplier;
+
+  // 20% wider hitbox than the sprite for the taller end zone
+  const hitboxMultiplier = 1.2;
+
+  return (
+    pointX > goal.x - (actualWidth * hitboxMultiplier) / 2 &&
+    pointX < goal.x + (actualWidth * hitboxMultiplier) / 2
+  );
+}
@@ -0,0 +1,348 @@
+import {
+  ObstacleType,
+  OBSTACLE_PROPERTIES,
+  INITIAL_OBSTACLE_SPEED,
+  SPEED_INCREMENT_PER_LEVEL,
+  MAX_OBSTACLE_SPEED,
+  CELL_WIDTH,
+  PlatformType,
+  PLATFORM_PROPERTIES,
+  DEFAULT_PLATFORM_GAP,
+  STAGECOACH_STOP_INTERVAL,
+} from './constants';
+import type { LaneConfig } from './levels';
+import {
+  createObstacle,
+  stepObstacle,
+  getObstacleRect,
+  isObstacleDeadly,
+  rectsOverlap,
+  type ObstacleState,
+} from './obstacle';
+import { createPlatform, stepPlatform, platformSupports, type PlatformState } from './platform';
+import type { Rect } from './player';
+import { Random } from './random';
+
+export type LaneType = LaneConfig['type'];
+
+export interface LaneState {
+  index: number;
+  y: number; // Center of the lane in world units
+  height: number;
+  type: LaneType;
+  direction: number; // 1 for right, -1 for left
+  obstacleType?: ObstacleType;
+  obstacleFrequency: number; // Obstacles per second
+  obstacleSpeed: number; // Base speed before the obstacle type multiplier
+  obstacles: ObstacleState[];
+  lastObstacleTime: number;
+  lastSpawnAttemptTime: number;
+  spawnCooldown: number; // Cooldown before retrying a blocked spawn
+  platformType?: PlatformType;
+  platforms: PlatformState[]; // Only river lanes have platforms
+  platformLoopStart: number; // Platforms circulate on a loop wider than the world
+  platformLoopLength: number;
+  rng: Random;
+}
+
+/**
+ * Hands out entity ids that are unique within a simulation
+ */
+export type IdAllocator = () => number;
+
+export function calculateObstacleSpeed(level: number): number {
+  const speed = INITIAL_OBSTACLE_SPEED + (level - 1) * SPEED_INCREMENT_PER_LEVEL;
+  return Math.min(speed, MAX_OBSTACLE_SPEED);
+}
+
+export function createLane(
+  config: LaneConfig,
+  index: number,
+  y: number,
+  height: number,
+  level: number,
+  rng: Random,
+  worldWidth: number,
+  allocateId: IdAllocator
+): LaneState {
+  const lane: LaneState = {
+    index,
+    y,
+    height,
+    type: config.type,
+    direction: config.direction === 'right' ? 1 : -1,
+    obstacleType: config.obstacleType,
+    obstacleFrequency: config.obstacleFrequency || 0,
+    obstacleSpeed: calculateObstacleSpeed(level) * (config.obstacleSpeedMultiplier ?? 1),
+    obstacles: [],
+    lastObstacleTime: 0,
+    lastSpawnAttemptTime: 0,
+    spawnCooldown: 250,
+    platformType: config.platformType,
+    platforms: [],
+    platformLoopStart: 0,
+    platformLoopLength: 0,
+    rng,
+  };
+
+  // Pre-populate obstacles for smoother gameplay
+  if (lane.type !== 'safe' && lane.obstacleType) {
+    populateInitialObstacles(lane, worldWidth, allocateId);
+  }
+
+  if (lane.type === 'river' && lane.platformType) {
+    populatePlatforms(lane, config.platformGap ?? DEFAULT_PLATFORM_GAP, worldWidth, allocateId);
+  }
+
+  return lane;
+}
+
+/**
+ * Lay evenly spaced platforms along a loop that covers the world plus a
+ * platform's width on each side. Nothing spawns or despawns afterwards, so
+ * the gaps the player has to time stay fixed.
+ * @param gap Gap between platforms in grid cells
+ */
+function populatePlatforms(lane: LaneState, gap: number, worldWidth: number, allocateId: IdAllocator) {
+  if (!lane.platformType) return;
+
+  const platformWidth = PLATFORM_PROPERTIES[lane.platformType].width;
+  const spacing = platformWidth + gap * CELL_WIDTH;
+  const count = Math.ceil((worldWidth + platformWidth * 2) / spacing);
+
+  lane.platformLoopStart = -platformWidth;
+  lane.platformLoopLength = count * spacing;
+
+  // Random phase so lanes with the same layout don't line up
+  const offset = lane.rng.next() * spacing;
+
+  for (let i = 0; i < count; i++) {
+    lane.platforms.push(createPlatform(
+      allocateId(),
+      lane.platformType,
+      lane.platformLoopStart + offset + i * spacing,
+      lane.y,
+      lane.obstacleSpeed,
+      lane.direction
+    ));
+  }
+}
+
+// Offscreen distance new obstacles start at - larger for wider obstacles
+function getOffscreenPadding(type: ObstacleType): number {
+  if (type === ObstacleType.TRAIN) return 500;
+  if (type === ObstacleType.HORSE || type === ObstacleType.STAGECOACH) return 400;
+  return 300;
+}
+
+function populateInitialObstacles(lane: LaneState, worldWidth: number, allocateId: IdAllocator) {
+  if (!lane.obstacleType || lane.type === 'safe') return;
+
+  const minSpacing = getMinimumSpacing(lane.obstacleType);
+  const interval = 1000 / lane.obstacleFrequency;
+  const baseSpacing = lane.obstacleSpeed * interval;
+
+  // Use whichever spacing is larger, plus an extra 150% so obstacles never overlap
+  const spacing = Math.max(baseSpacing, minSpacing) * 2.5;
+
+  const offscreenPadding = getOffscreenPadding(lane.obstacleType);
+  const startX = lane.direction > 0 ? -offscreenPadding : worldWidth + offscreenPadding;
+  const endX = lane.direction > 0 ? worldWidth + offscreenPadding : -offscreenPadding;
+  const totalDistance = Math.abs(endX - startX);
+
+  // At least 5x the obstacle width between obstacles
+  const obstacleWidth = OBSTACLE_PROPERTIES[lane.obstacleType].width;
+  const safeSpacing = Math.max(spacing, obstacleWidth * 5.0);
+  const maxObstacles = Math.floor(totalDistance / safeSpacing);
+
+  // Smaller variation for larger obstacles to prevent any chance of overlap
+  let variationPercentage = 0.05;
+  if (lane.obstacleType === ObstacleType.TRAIN) {
+    variationPercentage = 0.02;
+  } else if (lane.obstacleType === ObstacleType.HORSE || lane.obstacleType === ObstacleType.STAGECOACH) {
+    variationPercentage = 0.03;
+  }
+
+  for (let i = 0; i < maxObstacles; i++) {
+    let position = lane.direction > 0 ? startX + i * safeSpacing : startX - i * safeSpacing;
+    position += (lane.rng.next() * 2 * variationPercentage - variationPercentage) * safeSpacing;
+
+    // Double-check that this position won't overlap already placed obstacles
+    if (!wouldOverlap(lane, position)) {
+      spawnObstacle(lane, position, allocateId);
+    }
+  }
+}
+
+// Minimum spacing based on obstacle width
+function getMinimumSpacing(type: ObstacleType): number {
+  let spacingMultiplier = 3.0;
+
+  if (type === ObstacleType.TRAIN) {
+    spacingMultiplier = 6.0;
+  } else if (type === ObstacleType.HORSE || type === ObstacleType.STAGECOACH) {
+    spacingMultiplier = 4.5;
+  } else if (type === ObstacleType.CACTUS || type === ObstacleType.TUMBLEWEED) {
+    spacingMultiplier = 3.5;
+  }
+
+  return OBSTACLE_PROPERTIES[type].width * spacingMultiplier;
+}
+
+// Check if a new obstacle at position x would overlap existing obstacles
+function wouldOverlap(lane: LaneState, x: number): boolean {
+  if (!lane.obstacleType) return false;
+
+  const newObstacleWidth = OBSTACLE_PROPERTIES[lane.obstacleType].width;
+
+  // Intentionally excessive buffers to guarantee separation
+  let bufferMultiplier = 3.5;
+  let absoluteMinDistance = 250;
+
+  if (lane.obstacleType === ObstacleType.TRAIN) {
+    bufferMultiplier = 8.0;
+    absoluteMinDistance = 1200;
+  } else if (lane.obstacleType === ObstacleType.HORSE) {
+    bufferMultiplier = 5.0;
+    absoluteMinDistance = 600;
+  } else if (lane.obstacleType === ObstacleType.STAGECOACH) {
+    // Coaches slow down on the road, so leave room for the one behind to close in
+    bufferMultiplier = 4.0;
+    absoluteMinDistance = 800;
+  } else if (lane.obstacleType === ObstacleType.TUMBLEWEED || lane.obstacleType === ObstacleType.CACTUS) {
+    bufferMultiplier = 4.0;
+    absoluteMinDistance = 400;
+  }
+
+  const buffer = newObstacleWidth * bufferMultiplier;
+
+  for (const obstacle of lane.obstacles) {
+    const distance = Math.abs(obstacle.x - x);
+    const relativeMinDistance = (obstacle.width + newObstacleWidth) / 2 + buffer;
+
+    if (distance < Math.max(absoluteMinDistance, relativeMinDistance)) {
+      return true;
+    }
+  }
+
+  return false;
+}
+
+function spawnObstacle(lane: LaneState, x: number, allocateId: IdAllocator) {
+  if (!lane.obstacleType) return;
+
+  const obstacle = createObstacle(allocateId(), lane.obstacleType, x, lane.y, lane.obstacleSpeed, lane.direction);
+
+  // Stagger stops so coaches in the same lane don't all pull up together
+  if (obstacle.type === ObstacleType.STAGECOACH) {
+    obstacle.stopTimer = lane.rng.next() * STAGECOACH_STOP_INTERVAL;
+  }
+
+  lane.obstacles.push(obstacle);
+
+  // Limit the number of obstacles to prevent overcrowding
+  let maxObstacles = 10;
+  if (lane.obstacleType === ObstacleType.TRAIN) {
+    maxObstacles = 2;
+  } else if (lane.obstacleType === ObstacleType.STAGECOACH) {
+    maxObstacles = 3;
+  } else if (lane.obstacleType === ObstacleType.HORSE) {
+    maxObstacles = 4;
+  } else if (lane.obstacleType === ObstacleType.TUMBLEWEED) {
+    maxObstacles = 6;
+  }
+
+  // If we're over the limit, remove the oldest obstacle
+  if (lane.obstacles.length > maxObstacles) {
+    lane.obstacles.shift();
+  }
+}
+
+/**
+ * Advance the lane by one simulation step: spawn, move and cull obstacles
+ * @param time Lane clock in milliseconds - runs behind simulation time under the hourglass
+ * @param timeScale Fraction of a normal step to advance
+ */
+export function stepLane(
+  lane: LaneState,
+  time: number,
+  worldWidth: number,
+  allocateId: IdAllocator,
+  timeScale: number = 1
+) {
+  if (lane.type === 'safe') return;
+
+  for (const platform of lane.platforms) {
+    stepPlatform(platform, lane.platformLoopStart, lane.platformLoopLength, timeScale);
+  }
+
+  const obstacleInterval = 1000 / lane.obstacleFrequency;
+
+  if (lane.obstacleType && time - lane.lastObstacleTime > obstacleInterval) {
+    // Check if we're out of the cooldown period for spawn attempts
+    if (time - lane.lastSpawnAttemptTime > lane.spawnCooldown) {
+      lane.lastSpawnAttemptTime = time;
+
+      const offscreenPadding = getOffscreenPadding(lane.obstacleType);
+      const newX = lane.direction > 0 ? -offscreenPadding : worldWidth + offscreenPadding;
+
+      // Only create obstacle if it won't overlap with existing ones near the spawn point
+      if (!wouldOverlap(lane, newX)) {
+        spawnObstacle(lane, newX, allocateId);
+        lane.lastObstacleTime = time;
+      } else {
+        // Back off so we don't keep re-checking a blocked spawn point every step
+        let cooldownIncrease = 100;
+        if (lane.obstacleType === ObstacleType.TRAIN) {
+          cooldownIncrease = 500;
+        } else if (lane.obstacleType === ObstacleType.HORSE || lane.obstacleType === ObstacleType.STAGECOACH) {
+          cooldownIncrease = 300;
+        }
+
+        const maxCooldown = lane.obstacleType === ObstacleType.TRAIN ? 2000 : 1500;
+        lane.spawnCooldown = Math.min(maxCooldown, lane.spawnCooldown + cooldownIncrease);
+      }
+    }
+  }
+
+  for (const obstacle of lane.obstacles) {
+    stepObstacle(obstacle, worldWidth, timeScale);
+  }
+
+  // Remove obstacles that are far offscreen
+  lane.obstacles = lane.obstacles.filter(obstacle => {
+    let offscreenBoundary = 300;
+    if (obstacle.type === ObstacleType.TRAIN) {
+      offscreenBoundary = 600;
+    } else if (obstacle.type === ObstacleType.HORSE || obstacle.type === ObstacleType.STAGECOACH) {
+      offscreenBoundary = 450;
+    }
+
+    return obstacle.x > -offscreenBoundary && obstacle.x < worldWidth + offscreenBoundary;
+  });
+}
+
+/**
+ * Deadly obstacles in this lane that overlap the player's hitbox
+ */
+export function checkLaneCollisions(lane: LaneState, playerRect: Rect): ObstacleState[] {
+  // Only check lanes the player's center is actually in
+  const playerCenterY = playerRect.y + playerRect.height / 2;
+  const laneTop = lane.y - lane.height / 2;
+  const laneBottom = lane.y + lane.height / 2;
+
+  if (playerCenterY < laneTop || playerCenterY > laneBottom) {
+    return [];
+  }
+
+  return lane.obstacles.filter(
+    obstacle => isObstacleDeadly(obstacle) && rectsOverlap(playerRect, getObstacleRect(obstacle))
+  );
+}
+
+/**
+ * The platform under a point on the lane's center line, if any
+ */
+export function findPlatformAt(lane: LaneState, x: number): PlatformState | undefined {
+  return lane.platforms.find(platform => platformSupports(platform, x));
+}
@@ -0,0 +1,137 @@
+/**
+ * Level definitions.
+ * Every level lives in its own JSON file under shared/levels and is checked
+ * against the schema below when the level set loads, so a broken file fails
+ * loudly at startup instead of halfway through a run. Adding a level means
+ * dropping in a level-N.json file - the index of them is regenerated before
+ * every dev, build and check run (npm run levels does it by hand).
+ */
+import { z } from 'zod';
+import { GRID_CELLS_X, GRID_CELLS_Y, ObstacleType, PlatformType, PowerUpType, TerrainType } from './constants';
+import { LEVEL_FILES } from '../levels';
+
+const fraction = z.number().min(0).max(1);
+
+export const terrainPlacementSchema = z.object({
+  type: z.nativeEnum(TerrainType),
+  columns: z.array(z.number().int().min(0).max(GRID_CELLS_X - 1)).min(1),
+});
+
+export const powerUpRuleSchema = z.object({
+  type: z.nativeEnum(PowerUpType),
+  count: z.number().int().min(0),
+  laneFraction: fraction, // Placed in road lanes within this top share of the level
+});
+
+export const laneConfigSchema = z
+  .object({
+    type: z.enum(['road', 'river', 'safe']),
+    direction: z.enum(['left', 'right']),
+    obstacleType: z.nativeEnum(ObstacleType).optional(),
+    obstacleFrequency: z.number().positive().optional(), // Obstacles per second
+    obstacleSpeedMultiplier: z.number().positive().optional(), // Multiplier on the base speed
+    platformType: z.nativeEnum(PlatformType).optional(), // River lanes only
+    platformGap: z.number().positive().optional(), // Gap between platforms in grid cells
+    terrain: z.array(terrainPlacementSchema).optional(), // Safe lanes only
+    coins: z.boolean().optional(), // Force coins on (or off) in a safe lane, overriding the level's coin rules
+    badges: z.boolean().optional(), // Force badges and other power-ups on (or off) in a road lane, overriding the level's rules
+  })
+  .superRefine((lane, ctx) => {
+    if (lane.type === 'road' && lane.obstacleType && !lane.obstacleFrequency) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Road lanes with obstacles need an obstacleFrequency' });
+    }
+    if (lane.type === 'river' && !lane.platformType) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'River lanes need a platformType' });
+    }
+    if (lane.type !== 'safe' && lane.terrain?.length) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Terrain can only be placed in safe lanes' });
+    }
+    if (lane.type !== 'safe' && lane.coins) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Coins can only be placed in safe lanes' });
+    }
+    if (lane.type !== 'road' && lane.badges) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Badges can only be placed in road lanes' });
+    }
+  });
+
+export const levelConfigSchema = z
+  .object({
+    level: z.number().int().positive(),
+    lanes: z.array(laneConfigSchema).min(2),
+    goalCount: z.number().int().min(1).max(GRID_CELLS_X),
+    goalScale: z.number().positive().default(1), // Money bag size, smaller bags are harder to grab
+    timeLimit: z.number().positive(), // In seconds
+    startRow: z.number().int().min(0).max(GRID_CELLS_Y - 1),
+    startingLives: z.number().int().min(1),
+    coins: z.object({
+      laneFraction: fraction, // Coins go in safe lanes within this top share of the level
+      minPerLane: z.number().int().min(0),
+      maxPerLane: z.number().int().min(0),
+    }),
+    badges: z.object({
+      count: z.number().int().min(0),
+      laneFraction: fraction, // Badges go in road lanes within this top share of the level
+    }),
+    powerUps: z.array(powerUpRuleSchema).optional(), // Power-ups besides badges, placed after the badges
+    sheriff: z
+      .object({
+        delay: z.number().min(0), // Seconds into the level before he rides in
+      })
+      .optional(), // Levels without one are never hunted
+  })
+  .superRefine((level, ctx) => {
+    if (level.startRow < level.lanes.length) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'The start row must be below the last lane', path: ['startRow'] });
+    }
+    if (level.coins.maxPerLane < level.coins.minPerLane) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'maxPerLane must be at least minPerLane', path: ['coins'] });
+    }
+  });
+
+export type TerrainPlacement = z.infer<typeof terrainPlacementSchema>;
+export type PowerUpRule = z.infer<typeof powerUpRuleSchema>;
+export type LaneConfig = z.infer<typeof laneConfigSchema>;
+export type LevelConfig = z.infer<typeof levelConfigSchema>;
+
+/**
+ * Validate untrusted level data, e.g. a file from the level editor
+ */
+export function parseLevel(data: unknown) {
+  return levelConfigSchema.safeParse(data);
+}
+
+/**
+ * Validate a set of level files. Levels must be numbered 1, 2, 3...
+ */
+export function loadLevelSet(files: unknown[]): Record<number, LevelConfig> {
+  const levels: Record<number, LevelConfig> = {};
+
+  files.forEach((file, i) => {
+    const result = parseLevel(file);
+    if (!result.success) {
+      throw new Error(`Level file ${i + 1} is invalid: ${result.error.message}`);
+    }
+
+    const level = result.data;
+    if (level.level !== i + 1) {
+      throw new Error(`Expected level ${i + 1} but found level ${level.level}`);
+    }
+
+    levels[level.level] = level;
+  });
+
+  return levels;
+}
+
+export const LEVELS = loadLevelSet(LEVEL_FILES);
+
+export const LEVEL_COUNT = LEVEL_FILES.length;
+
+export function getLevel(level: number): LevelConfig | undefined {
+  return LEVELS[level];
+}
+
+// Completing the last level wins the game
+export function isFinalLevel(level: number): boolean {
+  return level === LEVEL_COUNT;
+}
@@ -0,0 +1,138 @@
+import {
+  ObstacleType,
+  OBSTACLE_PROPERTIES,
+  SIMULATION_STEP_MS,
+  STAGECOACH_STOP_INTERVAL,
+  STAGECOACH_STOP_DURATION,
+  STAGECOACH_STOP_SPEED_FACTOR,
+} from './constants';
+import type { Rect } from './player';
+
+export interface ObstacleState {
+  id: number;
+  type: ObstacleType;
+  x: number;
+  y: number;
+  prevX: number; // Position at the previous step, for render interpolation
+  width: number;
+  height: number;
+  speed: number; // World units per simulation step
+  baseSpeed: number; // Cruising speed, for obstacles that vary their speed
+  direction: number; // 1 for right, -1 for left
+  stopTimer: number; // Milliseconds into the stagecoach stop cycle
+}
+
+export function createObstacle(
+  id: number,
+  type: ObstacleType,
+  x: number,
+  y: number,
+  baseSpeed: number,
+  direction: number
+): ObstacleState {
+  const speed = baseSpeed * OBSTACLE_PROPERTIES[type].speedMultiplier;
+
+  return {
+    id,
+    type,
+    x,
+    y,
+    prevX: x,
+    width: OBSTACLE_PROPERTIES[type].width,
+    height: OBSTACLE_PROPERTIES[type].height,
+    speed,
+    baseSpeed: speed,
+    direction,
+    stopTimer: 0,
+  };
+}
+
+/**
+ * Advance the obstacle by one simulation step
+ * @param worldWidth Width used for wrapping around
+ * @param timeScale Fraction of a normal step to advance, below 1 under the hourglass
+ */
+export function stepObstacle(obstacle: ObstacleState, worldWidth: number, timeScale: number = 1) {
+  obstacle.prevX = obstacle.x;
+
+  if (obstacle.type === ObstacleType.STAGECOACH) {
+    updateStagecoachSpeed(obstacle, timeScale);
+  }
+
+  obstacle.x += obstacle.speed * obstacle.direction * timeScale;
+
+  // Wrap around when off-screen
+  if (obstacle.direction > 0 && obstacle.x > worldWidth + obstacle.width / 2) {
+    obstacle.x = -obstacle.width / 2;
+  } else if (obstacle.direction < 0 && obstacle.x < -obstacle.width / 2) {
+    obstacle.x = worldWidth + obstacle.width / 2;
+  }
+}
+
+/**
+ * Stagecoaches cruise for most of the cycle, then ease down to a crawl and
+ * back up again at the end of it
+ */
+function updateStagecoachSpeed(obstacle: ObstacleState, timeScale: number) {
+  const cycleLength = STAGECOACH_STOP_INTERVAL + STAGECOACH_STOP_DURATION;
+  obstacle.stopTimer = (obstacle.stopTimer + SIMULATION_STEP_MS * timeScale) % cycleLength;
+
+  const stopTime = obstacle.stopTimer - STAGECOACH_STOP_INTERVAL;
+  if (stopTime < 0) {
+    obstacle.speed = obstacle.baseSpeed;
+    return;
+  }
+
+  const slowdown = Math.sin((stopTime / STAGECOACH_STOP_DURATION) * Math.PI);
+  obstacle.speed = obstacle.baseSpeed * (1 - (1 - STAGECOACH_STOP_SPEED_FACTOR) * slowdown);
+}
+
+/**
+ * Whether a stagecoach is currently pulled up for passengers
+ */
+export function isObstacleStopping(obstacle: ObstacleState): boolean {
+  return obstacle.speed < obstacle.baseSpeed * 0.5;
+}
+
+/**
+ * Hitbox smaller than the sprite for more forgiving collisions
+ */
+export function getObstacleRect(obstacle: ObstacleState): Rect {
+  let hitboxWidthPercentage = 0.9; // Default 90% of visual width
+  let hitboxHeightPercentage = 0.9; // Default 90% of visual height
+
+  // Make train hitboxes much smaller to help prevent train overlaps
+  if (obstacle.type === ObstacleType.TRAIN) {
+    hitboxWidthPercentage = 0.7;
+    hitboxHeightPercentage = 0.8;
+  } else if (obstacle.type === ObstacleType.HORSE) {
+    hitboxWidthPercentage = 0.8;
+  } else if (obstacle.type === ObstacleType.STAGECOACH) {
+    // The sprite has empty space around the wheels and the team's reins
+    hitboxWidthPercentage = 0.85;
+    hitboxHeightPercentage = 0.7;
+  }
+
+  const hitboxWidth = obstacle.width * hitboxWidthPercentage;
+  const hitboxHeight = obstacle.height * hitboxHeightPercentage;
+
+  return {
+    x: obstacle.x - hitboxWidth / 2,
+    y: obstacle.y - hitboxHeight / 2,
+    width: hitboxWidth,
+    height: hitboxHeight,
+  };
+}
+
+export function isObstacleDeadly(obstacle: ObstacleState): boolean {
+  return OBSTACLE_PROPERTIES[obstacle.type].deadly;
+}
+
+export function rectsOverlap(a: Rect, b: Rect): boolean {
+  return (
+    a.x < b.x + b.width &&
+    a.x + a.width > b.x &&
+    a.y < b.y + b.height &&
+    a.y + a.height > b.y
+  );
+}
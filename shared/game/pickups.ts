@@ -0,0 +1,120 @@
+import type { PowerUpType } from './constants';
+import type { Rect } from './player';
+
+export interface PickupState {
+  id: number;
+  x: number; // Center in world units
+  y: number;
+  width: number;
+  height: number;
+  collected: boolean;
+}
+
+export type CoinState = PickupState;
+
+export interface PowerUpState extends PickupState {
+  type: PowerUpType;
+}
+
+export function createPickup(id: number, x: number, y: number, width: number, height: number): PickupState {
+  return { id, x, y, width, height, collected: false };
+}
+
+/**
+ * Whether the player's hitbox is close enough to collect a coin.
+ * Coins near the start (bottom area) use much stricter tests so they
+ * aren't picked up by accident; upper coins are more forgiving.
+ */
+export function coinContains(coin: CoinState, player: Rect): boolean {
+  if (coin.collected) return false;
+
+  const isBottomAreaCoin = coin.y > 300;
+  const expandFactor = isBottomAreaCoin ? 1.0 : 1.45;
+
+  const expandedWidth = coin.width * expandFactor;
+  const expandedHeight = coin.height * expandFactor;
+
+  const coinLeft = coin.x - expandedWidth / 2;
+  const coinRight = coin.x + expandedWidth / 2;
+  const coinTop = coin.y - expandedHeight / 2;
+  const coinBottom = coin.y + expandedHeight / 2;
+
+  const playerRight = player.x + player.width;
+  const playerBottom = player.y + player.height;
+
+  // Method 1: AABB collision with the expanded hitbox
+  const boxCollision = !(
+    player.x > coinRight ||
+    playerRight < coinLeft ||
+    player.y > coinBottom ||
+    playerBottom < coinTop
+  );
+
+  // Method 2: centers close enough on both axes
+  const dx = Math.abs(player.x + player.width / 2 - coin.x);
+  const dy = Math.abs(player.y + player.height / 2 - coin.y);
+  const centerProximityFactor = isBottomAreaCoin ? 0.2 : 0.45;
+  const centerProximity =
+    dx < (coin.width + player.width) * centerProximityFactor &&
+    dy < (coin.height + player.height) * centerProximityFactor;
+
+  // Method 3: substantial overlap as a share of the coin's area
+  const overlapWidth = Math.max(0, Math.min(playerRight, coinRight) - Math.max(player.x, coinLeft));
+  const overlapHeight = Math.max(0, Math.min(playerBottom, coinBottom) - Math.max(player.y, coinTop));
+  const overlapRequirement = isBottomAreaCoin ? 0.5 : 0.10;
+  const hasSubstantialOverlap = overlapWidth * overlapHeight > coin.width * coin.height * overlapRequirement;
+
+  // Method 4: straight-line distance between centers
+  const distanceFactor = isBottomAreaCoin ? 0.2 : 0.25;
+  const maxDistance = (coin.width + player.width + coin.height + player.height) * distanceFactor;
+  const proximityCheck = Math.sqrt(dx * dx + dy * dy) < maxDistance;
+
+  if (isBottomAreaCoin) {
+    // Bottom coins must pass at least two tests
+    const passedTests = [boxCollision, centerProximity, hasSubstantialOverlap, proximityCheck]
+      .filter(Boolean).length;
+    return passedTests >= 2;
+  }
+
+  // Upper coins only need one test to pass
+  return boxCollision || centerProximity || hasSubstantialOverlap || proximityCheck;
+}
+
+/**
+ * Whether the player's hitbox is close enough to collect a power-up.
+ * Same idea as coins but with a more generous hitbox.
+ */
+export function powerUpContains(powerUp: PowerUpState, player: Rect): boolean {
+  if (powerUp.collected) return false;
+
+  const isBottomArea = powerUp.y > 300;
+  const expandFactor = isBottomArea ? 1.6 : 1.45;
+
+  const expandedWidth = powerUp.width * expandFactor;
+  const expandedHeight = powerUp.height * expandFactor;
+
+  const left = powerUp.x - expandedWidth / 2;
+  const right = powerUp.x + expandedWidth / 2;
+  const top = powerUp.y - expandedHeight / 2;
+  const bottom = powerUp.y + expandedHeight / 2;
+
+  const boxCollision = !(
+    player.x > right ||
+    player.x + player.width < left ||
+    player.y > bottom ||
+    player.y + player.height < top
+  );
+
+  const dx = Math.abs(player.x + player.width / 2 - powerUp.x);
+  const dy = Math.abs(player.y + player.height / 2 - powerUp.y);
+  const centerProximityFactor = isBottomArea ? 0.55 : 0.45;
+  const centerProximity =
+    dx < (powerUp.width + player.width) * centerProximityFactor &&
+    dy < (powerUp.height + player.height) * centerProximityFactor;
+
+  const distanceFactor = isBottomArea ? 0.3 : 0.25;
+  const maxDistance = (powerUp.width + player.width + powerUp.height + player.height) * distanceFactor;
+  const proximityCheck = Math.sqrt(dx * dx + dy * dy) < maxDistance;
+
+  return boxCollision || centerProximity || proximityCheck;
+}
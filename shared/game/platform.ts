@@ -0,0 +1,59 @@
+import { PlatformType, PLATFORM_PROPERTIES } from './constants';
+
+export interface PlatformState {
+  id: number;
+  type: PlatformType;
+  x: number;
+  y: number;
+  prevX: number; // Position at the previous step, for render interpolation
+  width: number;
+  height: number;
+  speed: number; // World units per simulation step
+  direction: number; // 1 for right, -1 for left
+}
+
+export function createPlatform(
+  id: number,
+  type: PlatformType,
+  x: number,
+  y: number,
+  baseSpeed: number,
+  direction: number
+): PlatformState {
+  return {
+    id,
+    type,
+    x,
+    y,
+    prevX: x,
+    width: PLATFORM_PROPERTIES[type].width,
+    height: PLATFORM_PROPERTIES[type].height,
+    speed: baseSpeed * PLATFORM_PROPERTIES[type].speedMultiplier,
+    direction,
+  };
+}
+
+/**
+ * Advance the platform by one simulation step. Platforms circulate on a
+ * fixed loop so a river lane keeps the same spacing forever.
+ * @param loopStart Left edge of the loop in world units
+ * @param loopLength Length of the loop in world units
+ * @param timeScale Fraction of a normal step to advance, below 1 under the hourglass
+ */
+export function stepPlatform(platform: PlatformState, loopStart: number, loopLength: number, timeScale: number = 1) {
+  platform.prevX = platform.x;
+  platform.x += platform.speed * platform.direction * timeScale;
+
+  if (platform.x > loopStart + loopLength) {
+    platform.x -= loopLength;
+  } else if (platform.x < loopStart) {
+    platform.x += loopLength;
+  }
+}
+
+/**
+ * Whether a point on the platform's center line is standing on it
+ */
+export function platformSupports(platform: PlatformState, x: number): boolean {
+  return x >= platform.x - platform.width / 2 && x <= platform.x + platform.width / 2;
+}
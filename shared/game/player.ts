@@ -0,0 +1,266 @@
+import {
+  PLAYER_WIDTH,
+  PLAYER_HEIGHT,
+  PLAYER_MOVE_COOLDOWN,
+  PLAYER_MOVE_SPEED,
+  MOVE_BUFFER_SIZE,
+  HIT_INVINCIBILITY_DURATION,
+} from './constants';
+
+export type Direction = 'up' | 'down' | 'left' | 'right';
+
+export interface Rect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface BufferedMove {
+  direction: Direction;
+  time: number; // Simulation time its wait started
+}
+
+export interface PlayerState {
+  // Position in grid cell coordinates
+  x: number;
+  y: number;
+  prevX: number; // Position at the previous step, for render interpolation
+  prevY: number;
+  targetX: number;
+  targetY: number;
+  lastMoveTime: number;
+  moveCooldown: number; // Milliseconds between moves
+  moveSpeed: number; // Grid cells per simulation step
+  moving: boolean;
+  moveBuffer: BufferedMove[]; // Moves pressed before the current hop finished, oldest first
+  invincible: boolean;
+  invincibilityTime: number;
+  invincibilityDuration: number; // Duration in milliseconds
+  badgeInvincibility: boolean; // Whether invincibility is from a sheriff badge
+}
+
+export function createPlayer(startX: number, startY: number): PlayerState {
+  return {
+    x: startX,
+    y: startY,
+    prevX: startX,
+    prevY: startY,
+    targetX: startX,
+    targetY: startY,
+    lastMoveTime: -PLAYER_MOVE_COOLDOWN,
+    moveCooldown: PLAYER_MOVE_COOLDOWN,
+    moveSpeed: PLAYER_MOVE_SPEED,
+    moving: false,
+    moveBuffer: [],
+    invincible: false,
+    invincibilityTime: 0,
+    invincibilityDuration: HIT_INVINCIBILITY_DURATION,
+    badgeInvincibility: false,
+  };
+}
+
+/**
+ * Advance the player by one simulation step
+ * @param time Simulation time in milliseconds
+ */
+export function stepPlayer(player: PlayerState, time: number) {
+  player.prevX = player.x;
+  player.prevY = player.y;
+
+  const distX = player.targetX - player.x;
+  const distY = player.targetY - player.y;
+
+  // Calculate total distance to target
+  const totalDist = Math.sqrt(distX * distX + distY * distY);
+
+  if (totalDist > 0.001) {
+    // Normalize movement vector for consistent diagonal speed
+    player.x += (distX / totalDist) * player.moveSpeed;
+    player.y += (distY / totalDist) * player.moveSpeed;
+    player.moving = true;
+
+    // Snap to the target once we're close enough so movement feels tight
+    if (totalDist < 0.25) {
+      player.x = player.targetX;
+      player.y = player.targetY;
+      player.moving = false;
+    }
+  } else {
+    player.x = player.targetX;
+    player.y = player.targetY;
+    player.moving = false;
+  }
+
+  // Check if invincibility has expired
+  if (player.invincible && time - player.invincibilityTime > player.invincibilityDuration) {
+    player.invincible = false;
+  }
+}
+
+/**
+ * Try to start a one-cell move
+ * @param time Simulation time in milliseconds
+ * @param columns Number of grid columns
+ * @param topRow First row the player may enter
+ * @param bottomRow Last row the player may enter
+ * @param canEnter Optional check that refuses moves into blocked cells
+ * @returns Whether the move was accepted
+ */
+export function movePlayer(
+  player: PlayerState,
+  direction: Direction,
+  time: number,
+  columns: number,
+  topRow: number,
+  bottomRow: number,
+  canEnter?: (x: number, y: number) => boolean,
+): boolean {
+  if (isPlayerBusy(player, time)) {
+    return false;
+  }
+
+  let nextX = player.targetX;
+  let nextY = player.targetY;
+  if (direction === 'up' && player.targetY > topRow) {
+    nextY -= 1;
+  } else if (direction === 'down' && player.targetY < bottomRow) {
+    nextY += 1;
+  } else if (direction === 'left' && player.targetX > 0) {
+    nextX -= 1;
+  } else if (direction === 'right' && player.targetX < columns - 1) {
+    nextX += 1;
+  } else {
+    return false;
+  }
+
+  if (canEnter && !canEnter(nextX, nextY)) {
+    return false;
+  }
+
+  player.targetX = nextX;
+  player.targetY = nextY;
+  player.lastMoveTime = time;
+
+  return true;
+}
+
+/**
+ * Whether the player is still mid-hop or cooling down from the last one
+ * @param time Simulation time in milliseconds
+ */
+export function isPlayerBusy(player: PlayerState, time: number): boolean {
+  // Check for cooldown AND if player is already moving
+  if (time - player.lastMoveTime < player.moveCooldown || player.moving) {
+    return true;
+  }
+
+  // Only accept moves once the player has settled on its target cell
+  const distanceToTarget = Math.abs(player.x - player.targetX) + Math.abs(player.y - player.targetY);
+  return distanceToTarget > 0.01;
+}
+
+/**
+ * Hold a move pressed while the player is busy, to be made once the hop
+ * finishes. Moves already waiting go first, and presses beyond
+ * MOVE_BUFFER_SIZE are dropped, as is every press with a window of 0.
+ * @param time Simulation time in milliseconds
+ * @param window Milliseconds the move may wait, the player's setting
+ * @returns Whether the move was taken by the buffer - false if the player
+ * is free to make it straight away
+ */
+export function bufferMove(player: PlayerState, direction: Direction, time: number, window: number): boolean {
+  if (player.moveBuffer.length === 0 && !isPlayerBusy(player, time)) {
+    return false;
+  }
+
+  if (window > 0 && player.moveBuffer.length < MOVE_BUFFER_SIZE) {
+    player.moveBuffer.push({ direction, time });
+  }
+  return true;
+}
+
+/**
+ * Take the next buffered move once the player is free to make it.
+ * Each move waits up to the window, counted from when it was pressed or
+ * the move ahead of it was made, whichever is later.
+ * @param time Simulation time in milliseconds
+ * @param window Milliseconds a move may wait, the player's setting
+ */
+export function takeBufferedMove(player: PlayerState, time: number, window: number): Direction | null {
+  const buffer = player.moveBuffer;
+  while (buffer.length > 0 && time - buffer[0].time > window) {
+    buffer.shift();
+  }
+
+  if (buffer.length === 0 || isPlayerBusy(player, time)) {
+    return null;
+  }
+
+  const { direction } = buffer.shift()!;
+  if (buffer.length > 0) {
+    buffer[0].time = time;
+  }
+  return direction;
+}
+
+export function clearMoveBuffer(player: PlayerState) {
+  player.moveBuffer = [];
+}
+
+export function resetPlayer(player: PlayerState, startX: number, startY: number) {
+  player.x = startX;
+  player.y = startY;
+  player.prevX = startX;
+  player.prevY = startY;
+  player.targetX = startX;
+  player.targetY = startY;
+  player.moving = false;
+  clearMoveBuffer(player);
+
+  // Reset invincibility state when position is reset
+  player.invincible = false;
+  player.badgeInvincibility = false;
+}
+
+/**
+ * Start the invincibility effect
+ * @param duration Optional override for the invincibility duration in milliseconds
+ * @param fromBadge Whether this invincibility is from collecting a sheriff badge
+ */
+export function makePlayerInvincible(
+  player: PlayerState,
+  time: number,
+  duration?: number,
+  fromBadge: boolean = false,
+) {
+  player.invincible = true;
+  player.badgeInvincibility = fromBadge;
+  player.invincibilityTime = time;
+
+  if (duration !== undefined) {
+    player.invincibilityDuration = duration;
+  }
+}
+
+export function getPlayerGridPosition(player: PlayerState) {
+  return {
+    x: Math.round(player.x),
+    y: Math.round(player.y),
+  };
+}
+
+/**
+ * Player hitbox in world units - 70% of the sprite to avoid false collisions
+ */
+export function getPlayerRect(player: PlayerState, cellWidth: number, cellHeight: number): Rect {
+  const hitboxWidth = PLAYER_WIDTH * 0.7;
+  const hitboxHeight = PLAYER_HEIGHT * 0.7;
+
+  return {
+    x: player.x * cellWidth + (PLAYER_WIDTH - hitboxWidth) / 2,
+    y: player.y * cellHeight + (PLAYER_HEIGHT - hitboxHeight) / 2,
+    width: hitboxWidth,
+    height: hitboxHeight,
+  };
+}
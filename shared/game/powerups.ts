@@ -0,0 +1,201 @@
+/**
+ * Power-ups.
+ * Every pickup on the road besides coins is a power-up. Its type's entry in
+ * the registry below says what it does when collected, how long it lasts and
+ * what picking up another one does while it's still running. Timed effects
+ * are tracked on the simulation as active power-ups, so the rules and the
+ * HUD timers read the same clock.
+ */
+import {
+  PowerUpType,
+  POINTS_FOR_BADGE,
+  POWER_UP_POINTS,
+  POWER_UP_WIDTH,
+  POWER_UP_HEIGHT,
+  SHERIFF_BADGE_WIDTH,
+  SHERIFF_BADGE_HEIGHT,
+  INVINCIBILITY_DURATION,
+  MAGNET_DURATION,
+  MAGNET_RADIUS,
+  MAGNET_PULL_SPEED,
+  HOURGLASS_DURATION,
+  SPURS_DURATION,
+  SPURS_COOLDOWN_FACTOR,
+  SPURS_SPEED_FACTOR,
+  PLAYER_MOVE_COOLDOWN,
+  PLAYER_MOVE_SPEED,
+  DIFFICULTY_PRESETS,
+} from './constants';
+import { createPickup, type PowerUpState } from './pickups';
+import { makePlayerInvincible, getPlayerRect } from './player';
+import { scareSheriff } from './sheriff';
+import type { SimulationState } from './simulation';
+
+// What collecting a power-up does while the same type is still active
+export type PowerUpStacking =
+  | 'extend' // Add the new duration to the time left
+  | 'refresh'; // Start the timer over
+
+export interface PowerUpDefinition {
+  name: string;
+  description: string;
+  width: number;
+  height: number;
+  points: number;
+  duration: number; // In milliseconds, 0 for instant effects
+  stacking: PowerUpStacking;
+  scalesWithInvincibility?: boolean; // Duration follows the difficulty's invincibility multiplier
+  onCollect?: (state: SimulationState, duration: number) => void;
+  onStep?: (state: SimulationState) => void; // Runs every step while active
+  onExpire?: (state: SimulationState) => void;
+  isOver?: (state: SimulationState) => boolean; // Ends the effect before its time is up
+}
+
+export interface ActivePowerUp {
+  type: PowerUpType;
+  startTime: number; // Simulation time the current timer started
+  endTime: number;
+}
+
+export const POWER_UPS: Record<PowerUpType, PowerUpDefinition> = {
+  [PowerUpType.BADGE]: {
+    name: 'Sheriff Badge',
+    description: 'Invincible, and the sheriff runs scared',
+    width: SHERIFF_BADGE_WIDTH,
+    height: SHERIFF_BADGE_HEIGHT,
+    points: POINTS_FOR_BADGE,
+    duration: INVINCIBILITY_DURATION,
+    stacking: 'refresh',
+    scalesWithInvincibility: true,
+    onCollect: (state, duration) => {
+      makePlayerInvincible(state.player, state.time, duration, true);
+      if (state.sheriff) {
+        scareSheriff(state.sheriff, state.time + duration);
+      }
+    },
+    // Losing the badge's protection early (e.g. back at the start) ends it
+    isOver: state => !state.player.invincible || !state.player.badgeInvincibility,
+  },
+  [PowerUpType.MAGNET]: {
+    name: 'Coin Magnet',
+    description: 'Nearby coins drift towards you',
+    width: POWER_UP_WIDTH,
+    height: POWER_UP_HEIGHT,
+    points: POWER_UP_POINTS,
+    duration: MAGNET_DURATION,
+    stacking: 'extend',
+    onStep: pullCoins,
+  },
+  [PowerUpType.HOURGLASS]: {
+    name: 'Hourglass',
+    description: 'Everything on the road and river slows down',
+    width: POWER_UP_WIDTH,
+    height: POWER_UP_HEIGHT,
+    points: POWER_UP_POINTS,
+    duration: HOURGLASS_DURATION,
+    stacking: 'refresh',
+  },
+  [PowerUpType.HORSESHOE]: {
+    name: 'Lucky Horseshoe',
+    description: 'An extra life',
+    width: POWER_UP_WIDTH,
+    height: POWER_UP_HEIGHT,
+    points: POWER_UP_POINTS,
+    duration: 0,
+    stacking: 'extend',
+    onCollect: state => {
+      state.lives++;
+    },
+  },
+  [PowerUpType.SPURS]: {
+    name: 'Speed Spurs',
+    description: 'Quicker steps',
+    width: POWER_UP_WIDTH,
+    height: POWER_UP_HEIGHT,
+    points: POWER_UP_POINTS,
+    duration: SPURS_DURATION,
+    stacking: 'extend',
+    onCollect: state => {
+      state.player.moveCooldown = PLAYER_MOVE_COOLDOWN * SPURS_COOLDOWN_FACTOR;
+      state.player.moveSpeed = PLAYER_MOVE_SPEED * SPURS_SPEED_FACTOR;
+    },
+    onExpire: state => {
+      state.player.moveCooldown = PLAYER_MOVE_COOLDOWN;
+      state.player.moveSpeed = PLAYER_MOVE_SPEED;
+    },
+  },
+};
+
+export function createPowerUp(id: number, type: PowerUpType, x: number, y: number): PowerUpState {
+  const { width, height } = POWER_UPS[type];
+  return { ...createPickup(id, x, y, width, height), type };
+}
+
+/**
+ * Apply a collected power-up's effect and start or stack its timer
+ */
+export function activatePowerUp(state: SimulationState, type: PowerUpType) {
+  const definition = POWER_UPS[type];
+  const multiplier = definition.scalesWithInvincibility ? DIFFICULTY_PRESETS[state.difficulty].invincibility : 1;
+  const duration = definition.duration * multiplier;
+
+  definition.onCollect?.(state, duration);
+  if (duration <= 0) return;
+
+  const active = state.activePowerUps.find(powerUp => powerUp.type === type);
+  if (!active) {
+    state.activePowerUps.push({ type, startTime: state.time, endTime: state.time + duration });
+  } else if (definition.stacking === 'extend') {
+    active.endTime += duration;
+  } else {
+    active.startTime = state.time;
+    active.endTime = state.time + duration;
+  }
+}
+
+/**
+ * Run active effects for one step and end the ones whose time is up
+ */
+export function updatePowerUps(state: SimulationState) {
+  const stillActive: ActivePowerUp[] = [];
+
+  for (const active of state.activePowerUps) {
+    const definition = POWER_UPS[active.type];
+
+    if (state.time >= active.endTime || definition.isOver?.(state)) {
+      definition.onExpire?.(state);
+      state.events.push({ type: 'powerUpExpired', powerUp: active.type });
+    } else {
+      definition.onStep?.(state);
+      stillActive.push(active);
+    }
+  }
+
+  state.activePowerUps = stillActive;
+}
+
+export function isPowerUpActive(state: SimulationState, type: PowerUpType): boolean {
+  return state.activePowerUps.some(powerUp => powerUp.type === type);
+}
+
+/**
+ * Draw uncollected coins near the player towards them
+ */
+function pullCoins(state: SimulationState) {
+  const rect = getPlayerRect(state.player, state.cellWidth, state.cellHeight);
+  const centerX = rect.x + rect.width / 2;
+  const centerY = rect.y + rect.height / 2;
+
+  for (const coin of state.coins) {
+    if (coin.collected) continue;
+
+    const dx = centerX - coin.x;
+    const dy = centerY - coin.y;
+    const distance = Math.sqrt(dx * dx + dy * dy);
+    if (distance > MAGNET_RADIUS || distance < 0.001) continue;
+
+    const step = Math.min(distance, MAGNET_PULL_SPEED);
+    coin.x += (dx / distance) * step;
+    coin.y += (dy / distance) * step;
+  }
+}
@@ -0,0 +1,88 @@
+/**
+ * Seedable pseudo-random number generator (mulberry32).
+ * Every random decision in the game goes through one of these so a level
+ * lays out and plays out the same way for the same seed.
+ */
+export class Random {
+  private state: number;
+
+  constructor(seed: number = createSeed()) {
+    this.state = seed >>> 0;
+  }
+
+  /**
+   * Next raw 32-bit unsigned integer
+   */
+  public nextUint(): number {
+    this.state = (this.state + 0x6d2b79f5) >>> 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return (t ^ (t >>> 14)) >>> 0;
+  }
+
+  /**
+   * Float in [0, 1), drop-in replacement for Math.random()
+   */
+  public next(): number {
+    return this.nextUint() / 4294967296;
+  }
+
+  /**
+   * Float in [min, max), mirrors p5's random(min, max)
+   */
+  public range(min: number, max: number): number {
+    return min + this.next() * (max - min);
+  }
+
+  /**
+   * Integer in [0, maxExclusive)
+   */
+  public int(maxExclusive: number): number {
+    return Math.floor(this.next() * maxExclusive);
+  }
+
+  /**
+   * Shuffle an array in place (Fisher-Yates algorithm)
+   */
+  public shuffle<T>(array: T[]): T[] {
+    for (let i = array.length - 1; i > 0; i--) {
+      const j = this.int(i + 1);
+      [array[i], array[j]] = [array[j], array[i]]; // Swap elements
+    }
+    return array;
+  }
+
+  /**
+   * Create an independent generator seeded from this one, so an entity
+   * can draw numbers without shifting everyone else's sequence
+   */
+  public fork(): Random {
+    return new Random(this.nextUint());
+  }
+}
+
+/**
+ * Fresh seed for a new run
+ */
+export function createSeed(): number {
+  return Math.floor(Math.random() * 4294967296) >>> 0;
+}
+
+/**
+ * Derive a per-level seed from the run seed
+ */
+export function deriveSeed(seed: number, salt: number): number {
+  let h = (seed ^ Math.imul(salt + 1, 0x9e3779b1)) >>> 0;
+  h = Math.imul(h ^ (h >>> 16), 0x85ebca6b);
+  h = Math.imul(h ^ (h >>> 13), 0xc2b2ae35);
+  return (h ^ (h >>> 16)) >>> 0;
+}
+
+/**
+ * Format a seed for display so players can share it (e.g. "0F3A-9C21")
+ */
+export function formatSeed(seed: number): string {
+  const hex = (seed >>> 0).toString(16).toUpperCase().padStart(8, '0');
+  return `${hex.slice(0, 4)}-${hex.slice(4)}`;
+}
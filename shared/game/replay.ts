@@ -0,0 +1,110 @@
+/**
+ * Replay recordings.
+ * A replay is the run seed plus every accepted move, tagged with the
+ * simulation tick it was applied on. Because the simulation is fully
+ * deterministic, feeding the same moves back on the same ticks reproduces
+ * the run exactly.
+ */
+import { z } from 'zod';
+import {
+  GAME_MODES,
+  MAX_REPLAY_MOVES,
+  MOVE_BUFFER_WINDOW,
+  MAX_MOVE_BUFFER_WINDOW,
+  Difficulty,
+  type GameMode,
+} from './constants';
+import { dailyDateSchema } from './daily';
+import type { Direction } from './player';
+
+export const REPLAY_VERSION = 1;
+
+// One-letter direction codes keep recordings compact
+const DIRECTION_CODES = {
+  up: 'u',
+  down: 'd',
+  left: 'l',
+  right: 'r',
+} as const satisfies Record<Direction, string>;
+
+const CODE_DIRECTIONS: Record<DirectionCode, Direction> = {
+  u: 'up',
+  d: 'down',
+  l: 'left',
+  r: 'right',
+};
+
+export type DirectionCode = typeof DIRECTION_CODES[Direction];
+
+export const replayMoveSchema = z.tuple([
+  z.number().int().nonnegative(), // Simulation tick the move was applied on
+  z.enum(['u', 'd', 'l', 'r']),
+]);
+
+export const replayLevelSchema = z.object({
+  level: z.number().int().positive(),
+  moves: z.array(replayMoveSchema).max(MAX_REPLAY_MOVES),
+});
+
+export const replaySchema = z
+  .object({
+    version: z.literal(REPLAY_VERSION),
+    seed: z.number().int().nonnegative().max(0xffffffff),
+    mode: z.enum(GAME_MODES).default('story'), // Recordings from before endless mode are story runs
+    difficulty: z.nativeEnum(Difficulty).default(Difficulty.GUNSLINGER), // Recordings from before presets played as designed
+    slowTraffic: z.boolean().default(false), // Slow traffic assist, which recordings from before it never used
+    moveBufferWindow: z.number().int().min(0).max(MAX_MOVE_BUFFER_WINDOW).default(MOVE_BUFFER_WINDOW), // Move buffer setting, which recordings from before it played on the default
+    day: dailyDateSchema.optional(), // UTC day of a daily bounty run
+    levels: z.array(replayLevelSchema).min(1), // Endless and daily runs record a single level 1
+  })
+  .refine(replay => replay.mode !== 'daily' || replay.day !== undefined, {
+    message: 'Daily replays need the day they were played',
+    path: ['day'],
+  });
+
+export type ReplayMove = z.infer<typeof replayMoveSchema>;
+export type ReplayLevel = z.infer<typeof replayLevelSchema>;
+export type Replay = z.infer<typeof replaySchema>;
+
+export interface ReplayOptions {
+  mode?: GameMode;
+  difficulty?: Difficulty;
+  slowTraffic?: boolean;
+  moveBufferWindow?: number; // Milliseconds a move pressed mid-hop waits
+  day?: string; // UTC day of a daily bounty run
+}
+
+export function createReplay(seed: number, options: ReplayOptions = {}): Replay {
+  const {
+    mode = 'story',
+    difficulty = Difficulty.GUNSLINGER,
+    slowTraffic = false,
+    moveBufferWindow = MOVE_BUFFER_WINDOW,
+    day,
+  } = options;
+  return { version: REPLAY_VERSION, seed, mode, difficulty, slowTraffic, moveBufferWindow, day, levels: [] };
+}
+
+/**
+ * Start recording a new level and return its move list
+ */
+export function beginReplayLevel(replay: Replay, level: number): ReplayLevel {
+  const replayLevel: ReplayLevel = { level, moves: [] };
+  replay.levels.push(replayLevel);
+  return replayLevel;
+}
+
+export function recordMove(replayLevel: ReplayLevel, tick: number, direction: Direction) {
+  replayLevel.moves.push([tick, DIRECTION_CODES[direction]]);
+}
+
+export function getMoveDirection(move: ReplayMove): Direction {
+  return CODE_DIRECTIONS[move[1]];
+}
+
+/**
+ * Validate untrusted replay data, e.g. a loaded file or a request body
+ */
+export function parseReplay(data: unknown) {
+  return replaySchema.safeParse(data);
+}
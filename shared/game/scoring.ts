@@ -0,0 +1,173 @@
+/**
+ * Scoring.
+ * Points the simulation awards go through here so the combo multiplier
+ * applies to all of them alike. The combo builds on steady progress -
+ * forward moves, coins grabbed in quick succession and money bags - and
+ * breaks when the player is hit, steps back or stands still too long.
+ * Only the time bonus at the end of a level is left unmultiplied.
+ */
+import {
+  POINTS_FOR_CROSSING,
+  POINTS_FOR_COIN,
+  POINTS_FOR_MONEYBAG,
+  COMBO_STEP,
+  COMBO_MAX_MULTIPLIER,
+  COMBO_COIN_WINDOW,
+  COMBO_IDLE_TIMEOUT,
+  PowerUpType,
+} from './constants';
+import { POWER_UPS } from './powerups';
+import type { SimulationEvent, SimulationState } from './simulation';
+
+export type ComboAction = 'forward' | 'coin' | 'moneyBag';
+
+export interface ComboState {
+  count: number; // Built up since the combo last broke
+  multiplier: number;
+  lastMoveTime: number; // Simulation time of the player's last move, for the idle check
+  lastCoinTime: number; // -Infinity until the first coin
+}
+
+// What a level or run's points were awarded for
+export interface ScoreBreakdown {
+  crossings: number;
+  coins: number;
+  powerUps: Partial<Record<PowerUpType, number>>; // Collected, by type
+  moneyBags: number;
+  timeBonus: number; // Points, not seconds
+  comboBonus: number; // Points the combo multiplier added on top of the rest
+}
+
+// How much each action builds the combo
+const COMBO_VALUES: Record<ComboAction, number> = {
+  forward: 1,
+  coin: 2,
+  moneyBag: COMBO_STEP, // A whole multiplier step
+};
+
+export function createCombo(time: number): ComboState {
+  return { count: 0, multiplier: 1, lastMoveTime: time, lastCoinTime: -Infinity };
+}
+
+export function getComboMultiplier(count: number): number {
+  return Math.min(COMBO_MAX_MULTIPLIER, 1 + Math.floor(count / COMBO_STEP));
+}
+
+/**
+ * How far the combo is towards its next multiplier step, from 0 to 1.
+ * Always 1 at the top multiplier.
+ */
+export function getComboProgress(combo: ComboState): number {
+  if (combo.multiplier >= COMBO_MAX_MULTIPLIER) return 1;
+  return (combo.count % COMBO_STEP) / COMBO_STEP;
+}
+
+/**
+ * Add points to the score at the current multiplier
+ * @returns Points actually awarded
+ */
+export function awardPoints(state: SimulationState, basePoints: number): number {
+  const points = basePoints * state.combo.multiplier;
+  state.score += points;
+  return points;
+}
+
+/**
+ * Build the combo for an action. Coins only count when they follow the
+ * previous coin within COMBO_COIN_WINDOW.
+ */
+export function buildCombo(state: SimulationState, action: ComboAction) {
+  const combo = state.combo;
+
+  if (action === 'coin') {
+    const chained = state.time - combo.lastCoinTime <= COMBO_COIN_WINDOW;
+    combo.lastCoinTime = state.time;
+    if (!chained) return;
+  }
+
+  combo.count += COMBO_VALUES[action];
+  setMultiplier(state, getComboMultiplier(combo.count));
+}
+
+export function breakCombo(state: SimulationState) {
+  state.combo.count = 0;
+  setMultiplier(state, 1);
+}
+
+/**
+ * Note a move for the idle check - stepping back breaks the combo outright
+ */
+export function recordComboMove(state: SimulationState, retreat: boolean) {
+  state.combo.lastMoveTime = state.time;
+  if (retreat) {
+    breakCombo(state);
+  }
+}
+
+/**
+ * Break the combo once the player has stood still too long
+ */
+export function updateCombo(state: SimulationState) {
+  const combo = state.combo;
+  if (combo.count > 0 && state.time - combo.lastMoveTime > COMBO_IDLE_TIMEOUT) {
+    breakCombo(state);
+  }
+}
+
+export function createBreakdown(): ScoreBreakdown {
+  return { crossings: 0, coins: 0, powerUps: {}, moneyBags: 0, timeBonus: 0, comboBonus: 0 };
+}
+
+/**
+ * Count one simulation event towards a breakdown. Events carry the points
+ * after the combo multiplier, so anything above an action's base points is
+ * combo bonus.
+ */
+export function tallyEvent(breakdown: ScoreBreakdown, event: SimulationEvent) {
+  switch (event.type) {
+    case 'moved':
+      if (event.points > 0) {
+        breakdown.crossings++;
+        breakdown.comboBonus += event.points - POINTS_FOR_CROSSING;
+      }
+      break;
+    case 'coinCollected':
+      breakdown.coins++;
+      breakdown.comboBonus += event.points - POINTS_FOR_COIN;
+      break;
+    case 'powerUpCollected':
+      breakdown.powerUps[event.powerUp] = (breakdown.powerUps[event.powerUp] ?? 0) + 1;
+      breakdown.comboBonus += event.points - POWER_UPS[event.powerUp].points;
+      break;
+    case 'goalReached':
+      breakdown.moneyBags++;
+      breakdown.comboBonus += event.points - POINTS_FOR_MONEYBAG;
+      break;
+    case 'levelComplete':
+      breakdown.timeBonus += event.timeBonus;
+      break;
+  }
+}
+
+export function scoreFromBreakdown(breakdown: ScoreBreakdown): number {
+  const powerUpPoints = Object.values(PowerUpType).reduce(
+    (total, type) => total + (breakdown.powerUps[type] ?? 0) * POWER_UPS[type].points,
+    0
+  );
+
+  return (
+    breakdown.crossings * POINTS_FOR_CROSSING +
+    breakdown.coins * POINTS_FOR_COIN +
+    powerUpPoints +
+    breakdown.moneyBags * POINTS_FOR_MONEYBAG +
+    breakdown.timeBonus +
+    breakdown.comboBonus
+  );
+}
+
+function setMultiplier(state: SimulationState, multiplier: number) {
+  if (state.combo.multiplier === multiplier) return;
+
+  state.combo.multiplier = multiplier;
+  state.events.push({ type: 'comboChanged', multiplier });
+}
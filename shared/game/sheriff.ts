@@ -0,0 +1,193 @@
+/**
+ * Pursuing sheriff.
+ * On levels that call for him, a sheriff on horseback rides in after a delay
+ * and hunts the player one grid cell at a time. Each time he reaches a cell
+ * he picks the next one from a breadth-first distance field grown out from
+ * the player, so he routes around terrain and traffic and never wades into
+ * the river. He is slower than the player but never gives up, except while
+ * he's running from a sheriff badge or backing off after a catch.
+ */
+import { SHERIFF_MOVE_SPEED } from './constants';
+import type { GridPosition } from './terrain';
+
+export interface SheriffState {
+  // Position in grid cell coordinates
+  x: number;
+  y: number;
+  prevX: number; // Position at the previous step, for render interpolation
+  prevY: number;
+  targetX: number;
+  targetY: number;
+  speed: number; // Grid cells per simulation step
+  arrivalTime: number; // When he rides in, in milliseconds
+  arrived: boolean;
+  fleeUntil: number; // Runs from the player until this time
+  facing: number; // 1 for right, -1 for left
+}
+
+/**
+ * The cells the sheriff may ride through
+ */
+export interface SheriffGrid {
+  columns: number;
+  topRow: number;
+  bottomRow: number;
+  canEnter: (x: number, y: number) => boolean;
+}
+
+/**
+ * @param arrivalTime When he rides in, in milliseconds
+ * @param speedMultiplier Multiplier on SHERIFF_MOVE_SPEED
+ */
+export function createSheriff(arrivalTime: number, speedMultiplier: number = 1): SheriffState {
+  return {
+    x: 0,
+    y: 0,
+    prevX: 0,
+    prevY: 0,
+    targetX: 0,
+    targetY: 0,
+    speed: SHERIFF_MOVE_SPEED * speedMultiplier,
+    arrivalTime,
+    arrived: false,
+    fleeUntil: 0,
+    facing: 1,
+  };
+}
+
+/**
+ * Bring the sheriff onto the grid at a cell
+ */
+export function placeSheriff(sheriff: SheriffState, x: number, y: number) {
+  sheriff.x = x;
+  sheriff.y = y;
+  sheriff.prevX = x;
+  sheriff.prevY = y;
+  sheriff.targetX = x;
+  sheriff.targetY = y;
+  sheriff.arrived = true;
+}
+
+export function isSheriffFleeing(sheriff: SheriffState, time: number): boolean {
+  return time < sheriff.fleeUntil;
+}
+
+/**
+ * Send the sheriff running from the player until a given time
+ */
+export function scareSheriff(sheriff: SheriffState, until: number) {
+  sheriff.fleeUntil = Math.max(sheriff.fleeUntil, until);
+}
+
+/**
+ * Advance the sheriff by one simulation step
+ * @param time Simulation time in milliseconds
+ * @param player The player's grid cell
+ */
+export function stepSheriff(sheriff: SheriffState, time: number, player: GridPosition, grid: SheriffGrid) {
+  sheriff.prevX = sheriff.x;
+  sheriff.prevY = sheriff.y;
+  if (!sheriff.arrived) return;
+
+  const distX = sheriff.targetX - sheriff.x;
+  const distY = sheriff.targetY - sheriff.y;
+  const totalDist = Math.abs(distX) + Math.abs(distY); // He only ever rides along one axis
+
+  if (totalDist > sheriff.speed) {
+    sheriff.x += Math.sign(distX) * sheriff.speed;
+    sheriff.y += Math.sign(distY) * sheriff.speed;
+    return;
+  }
+
+  sheriff.x = sheriff.targetX;
+  sheriff.y = sheriff.targetY;
+
+  // Settled on a cell - pick the next one straight away
+  const next = chooseNextCell(sheriff, player, grid, isSheriffFleeing(sheriff, time));
+  if (next) {
+    if (next.x !== sheriff.x) {
+      sheriff.facing = Math.sign(next.x - sheriff.x);
+    }
+    sheriff.targetX = next.x;
+    sheriff.targetY = next.y;
+  }
+}
+
+function getNeighbours({ x, y }: GridPosition): GridPosition[] {
+  return [
+    { x, y: y - 1 },
+    { x, y: y + 1 },
+    { x: x - 1, y },
+    { x: x + 1, y },
+  ];
+}
+
+function isOnGrid(grid: SheriffGrid, cell: GridPosition): boolean {
+  return cell.x >= 0 && cell.x < grid.columns && cell.y >= grid.topRow && cell.y <= grid.bottomRow;
+}
+
+/**
+ * Steps from every cell the sheriff can reach to the player's cell. The
+ * player's own cell counts even if he can't enter it, so he still closes in
+ * on a player standing on a raft.
+ */
+function buildDistanceField(player: GridPosition, grid: SheriffGrid): Map<number, number> {
+  const key = (cell: GridPosition) => (cell.y - grid.topRow) * grid.columns + cell.x;
+  const distances = new Map<number, number>();
+  if (!isOnGrid(grid, player)) return distances;
+
+  const queue: GridPosition[] = [player];
+  distances.set(key(player), 0);
+
+  while (queue.length > 0) {
+    const cell = queue.shift()!;
+    const distance = distances.get(key(cell))!;
+
+    for (const next of getNeighbours(cell)) {
+      if (!isOnGrid(grid, next) || distances.has(key(next)) || !grid.canEnter(next.x, next.y)) continue;
+
+      distances.set(key(next), distance + 1);
+      queue.push(next);
+    }
+  }
+
+  return distances;
+}
+
+/**
+ * The neighbouring cell that best closes in on (or gets away from) the
+ * player, or null to hold position. Ties go to the first of up, down, left,
+ * right so the choice is always the same for the same state.
+ */
+function chooseNextCell(
+  sheriff: SheriffState,
+  player: GridPosition,
+  grid: SheriffGrid,
+  fleeing: boolean
+): GridPosition | null {
+  const current = { x: Math.round(sheriff.x), y: Math.round(sheriff.y) };
+  const options = getNeighbours(current).filter(cell => isOnGrid(grid, cell) && grid.canEnter(cell.x, cell.y));
+
+  const distances = buildDistanceField(player, grid);
+  const key = (cell: GridPosition) => (cell.y - grid.topRow) * grid.columns + cell.x;
+
+  // Cut off from the player - fall back to the straight-line distance
+  const cost = distances.has(key(current))
+    ? (cell: GridPosition) => distances.get(key(cell)) ?? Infinity
+    : (cell: GridPosition) => Math.abs(cell.x - player.x) + Math.abs(cell.y - player.y);
+
+  // Fleeing flips the sign so the same search runs away instead
+  const sign = fleeing ? -1 : 1;
+  let best: GridPosition | null = null;
+  let bestCost = sign * cost(current);
+
+  for (const cell of options) {
+    const cellCost = sign * cost(cell);
+    if (cellCost < bestCost) {
+      best = cell;
+      bestCost = cellCost;
+    }
+  }
+
+  return best;
+}
@@ -0,0 +1,728 @@
+/**
+ * Headless simulation core.
+ * Holds the complete rules of a level - positions, collisions, scoring,
+ * goals and timers - as plain state plus step functions, with no p5 or DOM
+ * dependency, so the same rules run in the browser, in Node tests and on
+ * the server. Renderers read the state; side effects (sound, UI) react to
+ * the events the simulation emits.
+ */
+import {
+  BASE_WIDTH,
+  GRID_CELLS_X,
+  GRID_CELLS_Y,
+  CELL_WIDTH,
+  CELL_HEIGHT,
+  SIMULATION_STEP_MS,
+  POINTS_FOR_CROSSING,
+  POINTS_FOR_MONEYBAG,
+  POINTS_FOR_COIN,
+  COIN_WIDTH,
+  COIN_HEIGHT,
+  HIT_INVINCIBILITY_DURATION,
+  HOURGLASS_TIME_SCALE,
+  TIME_BONUS_FACTOR,
+  SHERIFF_RETREAT_DURATION,
+  ENDLESS_START_ROW,
+  ENDLESS_LANES_AHEAD,
+  ENDLESS_LANES_BEHIND,
+  Difficulty,
+  DIFFICULTY_PRESETS,
+  SLOW_TRAFFIC_SPEED,
+  MOVE_BUFFER_WINDOW,
+  PowerUpType,
+  type GameMode,
+} from './constants';
+import { LEVELS, type LaneConfig, type LevelConfig, type PowerUpRule } from './levels';
+import { Random, deriveSeed } from './random';
+import {
+  createPlayer,
+  stepPlayer,
+  movePlayer,
+  resetPlayer,
+  clearMoveBuffer,
+  makePlayerInvincible,
+  getPlayerGridPosition,
+  getPlayerRect,
+  type Direction,
+  type PlayerState,
+} from './player';
+import { createLane, stepLane, checkLaneCollisions, findPlatformAt, type LaneState } from './lane';
+import { createPickup, coinContains, powerUpContains, type CoinState, type PowerUpState } from './pickups';
+import {
+  POWER_UPS,
+  createPowerUp,
+  activatePowerUp,
+  updatePowerUps,
+  isPowerUpActive,
+  type ActivePowerUp,
+} from './powerups';
+import { createGoal, goalContains, type GoalState } from './goal';
+import { createTerrain, placeTerrain, isCellBlocked, type TerrainState } from './terrain';
+import { createEndlessState, generateEndlessLane, type EndlessState } from './endless';
+import { getObstacleRect } from './obstacle';
+import {
+  createCombo,
+  awardPoints,
+  buildCombo,
+  breakCombo,
+  recordComboMove,
+  updateCombo,
+  type ComboState,
+} from './scoring';
+import { createSheriff, placeSheriff, stepSheriff, scareSheriff, isSheriffFleeing, type SheriffState } from './sheriff';
+
+export type SimulationStatus = 'playing' | 'complete' | 'failed';
+
+// What cost the player a life
+export type HitCause = 'obstacle' | 'water' | 'offscreen' | 'sheriff';
+
+export type SimulationEvent =
+  | { type: 'moved'; direction: Direction; points: number }
+  | { type: 'coinCollected'; id: number; points: number }
+  | { type: 'powerUpCollected'; id: number; powerUp: PowerUpType; points: number }
+  | { type: 'powerUpExpired'; powerUp: PowerUpType }
+  | { type: 'goalReached'; index: number; points: number }
+  | { type: 'comboChanged'; multiplier: number }
+  | { type: 'sheriffArrived' }
+  | { type: 'hit'; cause: HitCause; livesRemaining: number }
+  | { type: 'levelComplete'; timeBonus: number }
+  | { type: 'gameOver'; reason: 'lives' | 'time' };
+
+export interface SimulationOptions {
+  level: number;
+  seed: number; // Run seed - each level derives its own stream from it
+  score?: number; // Score carried over from earlier levels
+  config?: LevelConfig; // Defaults to the built-in level definition
+  difficulty?: Difficulty; // Defaults to Gunslinger, the level as designed
+  slowTraffic?: boolean; // Assist that slows every lane down
+  moveBufferWindow?: number; // Milliseconds a move pressed mid-hop waits, defaults to MOVE_BUFFER_WINDOW
+}
+
+export interface EndlessOptions {
+  seed: number;
+  lives: number; // Before the difficulty adjustment
+  difficulty?: Difficulty;
+  slowTraffic?: boolean;
+  moveBufferWindow?: number;
+}
+
+export interface SimulationState {
+  mode: GameMode;
+  level: number; // Always 1 in endless mode
+  difficulty: Difficulty;
+  slowTraffic: boolean;
+  moveBufferWindow: number; // Milliseconds a move pressed mid-hop waits for the player
+  seed: number;
+  tick: number;
+  time: number; // Simulation time in milliseconds
+  laneTime: number; // Clock the lanes run on - falls behind simulation time under the hourglass
+  timeLimit: number; // In milliseconds, Infinity in endless mode
+  status: SimulationStatus;
+  lives: number;
+  score: number;
+  combo: ComboState;
+
+  // World layout, in world units and grid cells
+  worldWidth: number;
+  cellWidth: number;
+  cellHeight: number;
+  columns: number;
+  topRow: number; // Rows the player can reach - endless mode moves these as lanes come and go
+  bottomRow: number;
+  startX: number;
+  startY: number;
+
+  player: PlayerState;
+  lanes: LaneState[];
+  terrain: TerrainState;
+  coins: CoinState[];
+  powerUps: PowerUpState[];
+  activePowerUps: ActivePowerUp[]; // Timed effects still running
+  goals: GoalState[];
+  sheriff: SheriffState | null; // Only on levels that call for him
+  endless: EndlessState | null; // Frontier generation, endless mode only
+
+  events: SimulationEvent[]; // Emitted since the last drainEvents() call
+  nextId: number;
+}
+
+/**
+ * Build the initial state for a level. The same options always produce
+ * the same layout.
+ */
+export function createSimulation(options: SimulationOptions): SimulationState {
+  const { level, seed } = options;
+  const config = options.config || LEVELS[level] || LEVELS[1];
+  const difficulty = options.difficulty ?? Difficulty.GUNSLINGER;
+  const preset = DIFFICULTY_PRESETS[difficulty];
+  const rng = new Random(deriveSeed(seed, level));
+
+  const startX = Math.floor(GRID_CELLS_X / 2);
+  const startY = config.startRow;
+
+  const state: SimulationState = {
+    mode: 'story',
+    level,
+    difficulty,
+    slowTraffic: options.slowTraffic ?? false,
+    moveBufferWindow: options.moveBufferWindow ?? MOVE_BUFFER_WINDOW,
+    seed,
+    tick: 0,
+    time: 0,
+    laneTime: 0,
+    timeLimit: config.timeLimit * 1000 * preset.timeLimit,
+    status: 'playing',
+    lives: getStartingLives(config.startingLives, difficulty), // Lives are topped up at the start of each level
+    score: level === 1 ? 0 : options.score || 0,
+    combo: createCombo(0),
+    worldWidth: BASE_WIDTH,
+    cellWidth: CELL_WIDTH,
+    cellHeight: CELL_HEIGHT,
+    columns: GRID_CELLS_X,
+    topRow: 0,
+    bottomRow: GRID_CELLS_Y - 1,
+    startX,
+    startY,
+    player: createPlayer(startX, startY),
+    lanes: [],
+    terrain: createTerrain(GRID_CELLS_X, GRID_CELLS_Y),
+    coins: [],
+    powerUps: [],
+    activePowerUps: [],
+    goals: [],
+    sheriff: config.sheriff ? createSheriff(config.sheriff.delay * 1000, preset.obstacleSpeed) : null,
+    endless: null,
+    events: [],
+    nextId: 1,
+  };
+
+  const allocateId = () => state.nextId++;
+  const laneHeight = state.cellHeight;
+
+  // Money bags spread evenly across the top of the level
+  const goalWidth = state.worldWidth / config.goalCount;
+  for (let i = 0; i < config.goalCount; i++) {
+    state.goals.push(createGoal(
+      i * goalWidth + goalWidth / 2,
+      laneHeight / 2,
+      goalWidth * 0.8,
+      laneHeight * 1.6, // Doubled height end zone
+      config.goalScale
+    ));
+  }
+
+  // Terrain may turn safe zones into mazes but must leave a way to every money bag
+  const goalColumns = state.goals.map(goal => getGoalColumns(state, goal));
+  const start = { x: startX, y: startY };
+
+  for (let i = 0; i < config.lanes.length; i++) {
+    const laneConfig = config.lanes[i];
+    const laneY = i * laneHeight + laneHeight / 2;
+
+    state.lanes.push(
+      createLane(
+        applyDifficulty(laneConfig, difficulty, state.slowTraffic),
+        i,
+        laneY,
+        laneHeight,
+        level,
+        rng.fork(),
+        state.worldWidth,
+        allocateId
+      )
+    );
+
+    if (laneConfig.type === 'safe') {
+      for (const piece of laneConfig.terrain || []) {
+        for (const column of piece.columns) {
+          placeTerrain(state.terrain, { type: piece.type, column, row: i }, start, goalColumns);
+        }
+      }
+    }
+
+    // Coins only go in upper safe zones, excluding the start and end, unless the lane says otherwise
+    const isUpperLane = i > 0 && i < Math.floor(config.lanes.length * config.coins.laneFraction);
+
+    if (laneConfig.type === 'safe' && (laneConfig.coins ?? isUpperLane)) {
+      const { minPerLane, maxPerLane } = config.coins;
+      const coinsForLane = minPerLane + rng.int(maxPerLane - minPerLane + 1);
+      const potentialPositions = [];
+      for (let gridX = 0; gridX < state.columns; gridX++) {
+        if (isCellBlocked(state.terrain, gridX, i)) continue;
+        potentialPositions.push({ x: gridX * state.cellWidth + state.cellWidth / 2, y: laneY });
+      }
+
+      rng.shuffle(potentialPositions);
+
+      for (let j = 0; j < Math.min(coinsForLane, potentialPositions.length); j++) {
+        const position = potentialPositions[j];
+        state.coins.push(createPickup(allocateId(), position.x, position.y, COIN_WIDTH, COIN_HEIGHT));
+      }
+    }
+  }
+
+  // Badges first, then the level's other power-ups, each on a cell nothing else took
+  const rules: PowerUpRule[] = [{ type: PowerUpType.BADGE, ...config.badges }, ...(config.powerUps ?? [])];
+  for (const rule of rules) {
+    placePowerUps(state, config, rule, rng);
+  }
+
+  return state;
+}
+
+/**
+ * Scatter one type of power-up over the level. They only go on upper road
+ * lanes, unless a lane says otherwise.
+ */
+function placePowerUps(state: SimulationState, config: LevelConfig, rule: PowerUpRule, rng: Random) {
+  const laneHeight = state.cellHeight;
+  const taken = new Set(state.powerUps.map(powerUp => `${powerUp.x},${powerUp.y}`));
+  const potentialPositions = [];
+
+  for (let i = 0; i < config.lanes.length; i++) {
+    const isUpperRoadLane = i > 0 && i < Math.floor(config.lanes.length * rule.laneFraction);
+
+    if (config.lanes[i].type === 'road' && (config.lanes[i].badges ?? isUpperRoadLane)) {
+      const laneY = i * laneHeight + laneHeight / 2;
+      for (let gridX = 0; gridX < state.columns; gridX += 2) {
+        const x = gridX * state.cellWidth + state.cellWidth / 2;
+        if (!taken.has(`${x},${laneY}`)) {
+          potentialPositions.push({ x, y: laneY });
+        }
+      }
+    }
+  }
+
+  rng.shuffle(potentialPositions);
+
+  for (let i = 0; i < Math.min(rule.count, potentialPositions.length); i++) {
+    const position = potentialPositions[i];
+    state.powerUps.push(createPowerUp(state.nextId++, rule.type, position.x, position.y));
+  }
+}
+
+// Keeps the endless lane stream apart from the level streams
+const ENDLESS_SALT = 0xf407;
+
+/**
+ * Build the initial state for an endless run. There are no money bags or
+ * time limit - the run goes on until the player runs out of lives.
+ */
+export function createEndlessSimulation(options: EndlessOptions): SimulationState {
+  const { seed } = options;
+  const difficulty = options.difficulty ?? Difficulty.GUNSLINGER;
+  const startX = Math.floor(GRID_CELLS_X / 2);
+  const startY = ENDLESS_START_ROW;
+
+  const state: SimulationState = {
+    mode: 'endless',
+    level: 1,
+    difficulty,
+    slowTraffic: options.slowTraffic ?? false,
+    moveBufferWindow: options.moveBufferWindow ?? MOVE_BUFFER_WINDOW,
+    seed,
+    tick: 0,
+    time: 0,
+    laneTime: 0,
+    timeLimit: Infinity,
+    status: 'playing',
+    lives: getStartingLives(options.lives, difficulty),
+    score: 0,
+    combo: createCombo(0),
+    worldWidth: BASE_WIDTH,
+    cellWidth: CELL_WIDTH,
+    cellHeight: CELL_HEIGHT,
+    columns: GRID_CELLS_X,
+    topRow: startY,
+    bottomRow: startY,
+    startX,
+    startY,
+    player: createPlayer(startX, startY),
+    lanes: [],
+    terrain: createTerrain(GRID_CELLS_X, 0), // The frontier has no terrain
+    coins: [],
+    powerUps: [],
+    activePowerUps: [],
+    goals: [],
+    sheriff: null,
+    endless: createEndlessState(new Random(deriveSeed(seed, ENDLESS_SALT))),
+    events: [],
+    nextId: 1,
+  };
+
+  updateFrontier(state);
+
+  return state;
+}
+
+/**
+ * Generate endless lanes up to ENDLESS_LANES_AHEAD rows past the furthest row
+ * reached, and discard lanes and pickups that fell ENDLESS_LANES_BEHIND rows
+ * behind it so a long run doesn't keep growing
+ */
+function updateFrontier(state: SimulationState) {
+  const endless = state.endless;
+  if (!endless) return;
+
+  const allocateId = () => state.nextId++;
+  const laneHeight = state.cellHeight;
+
+  while (endless.topRow > endless.furthestRow - ENDLESS_LANES_AHEAD) {
+    const { row, config } = generateEndlessLane(endless);
+    const laneY = row * laneHeight + laneHeight / 2;
+
+    // Lanes stay ordered top to bottom
+    state.lanes.unshift(
+      createLane(
+        applyDifficulty(config, state.difficulty, state.slowTraffic),
+        row,
+        laneY,
+        laneHeight,
+        1,
+        endless.rng.fork(),
+        state.worldWidth,
+        allocateId
+      )
+    );
+
+    // A few coins in the safe lanes past the start
+    if (config.type === 'safe' && row < ENDLESS_START_ROW) {
+      const columns = endless.rng.shuffle(Array.from({ length: state.columns }, (_, column) => column));
+      const coinsForLane = endless.rng.int(3);
+
+      for (let i = 0; i < coinsForLane; i++) {
+        const x = columns[i] * state.cellWidth + state.cellWidth / 2;
+        state.coins.push(createPickup(allocateId(), x, laneY, COIN_WIDTH, COIN_HEIGHT));
+      }
+    }
+  }
+
+  const lastRow = endless.furthestRow + ENDLESS_LANES_BEHIND;
+  while (state.lanes.length > 0 && state.lanes[state.lanes.length - 1].index > lastRow) {
+    state.lanes.pop();
+  }
+
+  state.topRow = endless.topRow;
+  state.bottomRow = state.lanes[state.lanes.length - 1].index;
+
+  const bottomEdge = (state.bottomRow + 1) * laneHeight;
+  state.coins = state.coins.filter(coin => coin.y < bottomEdge);
+}
+
+function getStartingLives(lives: number, difficulty: Difficulty): number {
+  return Math.max(1, lives + DIFFICULTY_PRESETS[difficulty].extraLives);
+}
+
+/**
+ * Scale a lane's obstacles and platforms for the difficulty preset and
+ * the slow traffic assist
+ */
+function applyDifficulty(config: LaneConfig, difficulty: Difficulty, slowTraffic: boolean): LaneConfig {
+  const preset = DIFFICULTY_PRESETS[difficulty];
+  const assist = slowTraffic ? SLOW_TRAFFIC_SPEED : 1;
+  return {
+    ...config,
+    obstacleFrequency: config.obstacleFrequency && config.obstacleFrequency * preset.obstacleFrequency,
+    obstacleSpeedMultiplier: (config.obstacleSpeedMultiplier ?? 1) * preset.obstacleSpeed * assist,
+  };
+}
+
+/**
+ * The lane on a grid row, if the row has one
+ */
+export function getLaneAt(state: SimulationState, row: number): LaneState | undefined {
+  const firstRow = state.lanes[0]?.index ?? 0;
+  return state.lanes[row - firstRow];
+}
+
+/**
+ * Top-row columns where the player collects a money bag
+ */
+function getGoalColumns(state: SimulationState, goal: GoalState): number[] {
+  const columns = [];
+  for (let column = 0; column < state.columns; column++) {
+    if (goalContains(goal, column * state.cellWidth + state.cellWidth / 2)) {
+      columns.push(column);
+    }
+  }
+  return columns;
+}
+
+/**
+ * Try to move the player one cell. Forward moves score crossing points -
+ * in endless mode only the first time each row is reached.
+ * @returns Whether the move was accepted
+ */
+export function applyMove(state: SimulationState, direction: Direction): boolean {
+  if (state.status !== 'playing') return false;
+
+  // Terrain only sits in safe zones, where the player always stands on a whole column
+  const canEnter = (x: number, y: number) => !isCellBlocked(state.terrain, Math.round(x), y);
+  const moved = movePlayer(
+    state.player,
+    direction,
+    state.time,
+    state.columns,
+    state.topRow,
+    state.bottomRow,
+    canEnter
+  );
+
+  if (moved) {
+    // Platforms leave the player between columns - land back on the grid when leaving the river
+    const isVertical = direction === 'up' || direction === 'down';
+    if (isVertical && getLaneAt(state, state.player.targetY)?.type !== 'river') {
+      state.player.targetX = Math.min(state.columns - 1, Math.max(0, Math.round(state.player.targetX)));
+    }
+
+    const endless = state.endless;
+    const isForward = endless ? state.player.targetY < endless.furthestRow : direction === 'up';
+
+    recordComboMove(state, direction === 'down');
+    if (isForward) {
+      buildCombo(state, 'forward');
+    }
+    const points = isForward ? awardPoints(state, POINTS_FOR_CROSSING) : 0;
+
+    // The frontier moves on as the player reaches new rows
+    if (endless && isForward) {
+      endless.furthestRow = state.player.targetY;
+      updateFrontier(state);
+    }
+
+    state.events.push({ type: 'moved', direction, points });
+  }
+
+  return moved;
+}
+
+/**
+ * Advance the level by one fixed SIMULATION_STEP_MS step
+ */
+export function stepSimulation(state: SimulationState) {
+  if (state.status !== 'playing') return;
+
+  state.tick++;
+  state.time += SIMULATION_STEP_MS;
+
+  const player = state.player;
+  const allocateId = () => state.nextId++;
+
+  stepPlayer(player, state.time);
+  updatePowerUps(state);
+  updateCombo(state);
+
+  // The hourglass holds the lanes back while the rest of the level runs on
+  const timeScale = isPowerUpActive(state, PowerUpType.HOURGLASS) ? HOURGLASS_TIME_SCALE : 1;
+  state.laneTime += SIMULATION_STEP_MS * timeScale;
+
+  // Move lanes and check obstacle collisions
+  for (const lane of state.lanes) {
+    stepLane(lane, state.laneTime, state.worldWidth, allocateId, timeScale);
+
+    // Skip collision detection if player is still moving or invincible
+    if (player.moving || player.invincible) continue;
+
+    const collisions = checkLaneCollisions(lane, getPlayerRect(player, state.cellWidth, state.cellHeight));
+    if (collisions.length > 0) {
+      handleHit(state, 'obstacle');
+      if (state.status !== 'playing') return;
+    }
+  }
+
+  // Ride platforms across the river - water is deadly even while invincible
+  if (!player.moving) {
+    const lane = getLaneAt(state, Math.round(player.y));
+
+    if (lane?.type === 'river') {
+      const rect = getPlayerRect(player, state.cellWidth, state.cellHeight);
+      const platform = findPlatformAt(lane, rect.x + rect.width / 2);
+
+      if (!platform) {
+        handleHit(state, 'water');
+        if (state.status !== 'playing') return;
+      } else {
+        const drift = (platform.speed * platform.direction * timeScale) / state.cellWidth;
+        player.x += drift;
+        player.targetX += drift;
+
+        const centerX = rect.x + rect.width / 2 + drift * state.cellWidth;
+        if (centerX < 0 || centerX > state.worldWidth) {
+          handleHit(state, 'offscreen');
+          if (state.status !== 'playing') return;
+        }
+      }
+    }
+  }
+
+  // Pickups are checked even while moving
+  const playerRect = getPlayerRect(player, state.cellWidth, state.cellHeight);
+
+  for (const coin of state.coins) {
+    if (coinContains(coin, playerRect)) {
+      coin.collected = true;
+      buildCombo(state, 'coin');
+      const points = awardPoints(state, POINTS_FOR_COIN);
+      state.events.push({ type: 'coinCollected', id: coin.id, points });
+    }
+  }
+
+  for (const powerUp of state.powerUps) {
+    if (powerUpContains(powerUp, playerRect)) {
+      powerUp.collected = true;
+      const points = awardPoints(state, POWER_UPS[powerUp.type].points);
+      activatePowerUp(state, powerUp.type);
+      state.events.push({ type: 'powerUpCollected', id: powerUp.id, powerUp: powerUp.type, points });
+    }
+  }
+
+  if (state.sheriff) {
+    updateSheriff(state, state.sheriff);
+    if (state.status !== 'playing') return;
+  }
+
+  // Endless runs only end when the lives run out
+  if (state.mode === 'endless') return;
+
+  // Check if the player reached a money bag in the top row
+  const playerPos = getPlayerGridPosition(player);
+  if (playerPos.y === 0) {
+    let reachedMoneyBag = false;
+
+    for (let i = 0; i < state.goals.length; i++) {
+      const goal = state.goals[i];
+      if (!goal.reached && goalContains(goal, playerPos.x * state.cellWidth + state.cellWidth / 2)) {
+        goal.reached = true;
+        buildCombo(state, 'moneyBag');
+        const points = awardPoints(state, POINTS_FOR_MONEYBAG);
+        state.events.push({ type: 'goalReached', index: i, points });
+        reachedMoneyBag = true;
+        break;
+      }
+    }
+
+    // Send the player back to the start for the next run
+    if (reachedMoneyBag || !player.moving) {
+      resetPlayer(player, state.startX, state.startY);
+    }
+  }
+
+  // Level complete once every money bag is collected
+  if (state.goals.every(goal => goal.reached)) {
+    const timeBonus = Math.floor(getTimeRemaining(state) / 1000) * TIME_BONUS_FACTOR;
+    state.score += timeBonus;
+    state.status = 'complete';
+    state.events.push({ type: 'levelComplete', timeBonus });
+    return;
+  }
+
+  // Check if time ran out
+  if (state.time > state.timeLimit) {
+    state.status = 'failed';
+    state.events.push({ type: 'gameOver', reason: 'time' });
+  }
+}
+
+function handleHit(state: SimulationState, cause: HitCause) {
+  state.lives = Math.max(0, state.lives - 1);
+  state.events.push({ type: 'hit', cause, livesRemaining: state.lives });
+  breakCombo(state);
+  clearMoveBuffer(state.player);
+
+  if (state.lives <= 0) {
+    state.status = 'failed';
+    state.events.push({ type: 'gameOver', reason: 'lives' });
+    return;
+  }
+
+  // There's nowhere to stand in the river, so fallen players start over
+  if (cause === 'water' || cause === 'offscreen') {
+    const respawn = getRespawnPoint(state);
+    resetPlayer(state.player, respawn.x, respawn.y);
+  }
+
+  // Brief invincibility so the player can get clear
+  const duration = HIT_INVINCIBILITY_DURATION * DIFFICULTY_PRESETS[state.difficulty].invincibility;
+  makePlayerInvincible(state.player, state.time, duration);
+}
+
+/**
+ * Bring the sheriff in once his delay is up, ride him one step after the
+ * player and check whether he's caught them
+ */
+function updateSheriff(state: SimulationState, sheriff: SheriffState) {
+  const player = state.player;
+  const playerPos = getPlayerGridPosition(player);
+
+  if (!sheriff.arrived) {
+    if (state.time < sheriff.arrivalTime) return;
+
+    // He rides in at the far end of the start row
+    const x = playerPos.x < state.columns / 2 ? state.columns - 1 : 0;
+    placeSheriff(sheriff, x, state.startY);
+    state.events.push({ type: 'sheriffArrived' });
+  }
+
+  stepSheriff(sheriff, state.time, playerPos, {
+    columns: state.columns,
+    topRow: state.topRow,
+    bottomRow: state.bottomRow,
+    canEnter: (x, y) => canSheriffEnter(state, x, y),
+  });
+
+  // Invincibility keeps him off, and he's no threat while he's running
+  if (player.invincible || isSheriffFleeing(sheriff, state.time)) return;
+
+  const caught = Math.abs(sheriff.x - player.x) < 0.6 && Math.abs(sheriff.y - player.y) < 0.6;
+  if (caught) {
+    handleHit(state, 'sheriff');
+    scareSheriff(sheriff, state.time + SHERIFF_RETREAT_DURATION);
+  }
+}
+
+/**
+ * Whether the sheriff will ride into a cell: never into the river or
+ * terrain, and not across the path of anything on the road
+ */
+function canSheriffEnter(state: SimulationState, x: number, y: number): boolean {
+  if (isCellBlocked(state.terrain, x, y)) return false;
+
+  const lane = getLaneAt(state, y);
+  if (!lane) return true; // Open ground below the lanes
+  if (lane.type === 'river') return false;
+
+  // Leave half a cell of room either side so he doesn't step out in front of traffic
+  const cellLeft = x * state.cellWidth - state.cellWidth / 2;
+  const cellRight = (x + 1) * state.cellWidth + state.cellWidth / 2;
+  return !lane.obstacles.some(obstacle => {
+    const rect = getObstacleRect(obstacle);
+    return rect.x < cellRight && rect.x + rect.width > cellLeft;
+  });
+}
+
+/**
+ * Where a player who fell off the river starts again: the start of the
+ * level, or on the frontier the nearest safe lane behind them
+ */
+function getRespawnPoint(state: SimulationState) {
+  if (!state.endless) return { x: state.startX, y: state.startY };
+
+  const row = Math.round(state.player.y);
+  const safeLane = state.lanes.find(lane => lane.type === 'safe' && lane.index >= row);
+  const x = Math.min(state.columns - 1, Math.max(0, Math.round(state.player.x)));
+
+  return { x, y: safeLane?.index ?? state.bottomRow };
+}
+
+/**
+ * Take the events emitted since the last call
+ */
+export function drainEvents(state: SimulationState): SimulationEvent[] {
+  const events = state.events;
+  state.events = [];
+  return events;
+}
+
+export function getTimeRemaining(state: SimulationState): number {
+  return Math.max(0, state.timeLimit - state.time);
+}
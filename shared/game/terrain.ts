@@ -0,0 +1,115 @@
+/**
+ * Static terrain.
+ * Cacti, rocks and fences sit on grid cells in safe zones and block the
+ * player's moves instead of hurting them. Pieces are only placed if every
+ * money bag can still be reached from the start, so a layout can turn a
+ * safe zone into a maze but never seal it off.
+ */
+import { TerrainType } from './constants';
+
+export interface TerrainCell {
+  type: TerrainType;
+  column: number;
+  row: number;
+}
+
+export interface TerrainState {
+  columns: number;
+  rows: number;
+  cells: TerrainCell[];
+  blocked: Set<number>; // Cell keys (row * columns + column) for fast lookups
+}
+
+export interface GridPosition {
+  x: number;
+  y: number;
+}
+
+export function createTerrain(columns: number, rows: number): TerrainState {
+  return { columns, rows, cells: [], blocked: new Set() };
+}
+
+function cellKey(terrain: TerrainState, column: number, row: number): number {
+  return row * terrain.columns + column;
+}
+
+/**
+ * Whether terrain occupies a cell. Cells outside the grid are never blocked -
+ * the move bounds check handles those.
+ */
+export function isCellBlocked(terrain: TerrainState, column: number, row: number): boolean {
+  if (column < 0 || column >= terrain.columns || row < 0 || row >= terrain.rows) return false;
+  return terrain.blocked.has(cellKey(terrain, column, row));
+}
+
+/**
+ * Flood fill the open cells reachable from a starting cell
+ * @returns Cell keys of every reachable cell
+ */
+function findReachableCells(terrain: TerrainState, start: GridPosition): Set<number> {
+  const reachable = new Set<number>();
+  if (isCellBlocked(terrain, start.x, start.y)) return reachable;
+
+  const queue: GridPosition[] = [start];
+  reachable.add(cellKey(terrain, start.x, start.y));
+
+  while (queue.length > 0) {
+    const { x, y } = queue.shift()!;
+    const neighbours = [
+      { x, y: y - 1 },
+      { x, y: y + 1 },
+      { x: x - 1, y },
+      { x: x + 1, y },
+    ];
+
+    for (const next of neighbours) {
+      if (next.x < 0 || next.x >= terrain.columns || next.y < 0 || next.y >= terrain.rows) continue;
+
+      const key = cellKey(terrain, next.x, next.y);
+      if (reachable.has(key) || terrain.blocked.has(key)) continue;
+
+      reachable.add(key);
+      queue.push(next);
+    }
+  }
+
+  return reachable;
+}
+
+/**
+ * Whether every money bag can still be reached from the start
+ * @param goalColumns For each money bag, the top-row columns that collect it
+ */
+export function canReachGoals(terrain: TerrainState, start: GridPosition, goalColumns: number[][]): boolean {
+  const reachable = findReachableCells(terrain, start);
+  return goalColumns.every(columns =>
+    columns.some(column => reachable.has(cellKey(terrain, column, 0)))
+  );
+}
+
+/**
+ * Place a terrain piece unless it would cut off a money bag
+ * @returns Whether the piece was placed
+ */
+export function placeTerrain(
+  terrain: TerrainState,
+  cell: TerrainCell,
+  start: GridPosition,
+  goalColumns: number[][]
+): boolean {
+  if (cell.column < 0 || cell.column >= terrain.columns || cell.row < 0 || cell.row >= terrain.rows) {
+    return false;
+  }
+
+  const key = cellKey(terrain, cell.column, cell.row);
+  if (terrain.blocked.has(key)) return false;
+
+  terrain.blocked.add(key);
+  if (!canReachGoals(terrain, start, goalColumns)) {
+    terrain.blocked.delete(key);
+    return false;
+  }
+
+  terrain.cells.push(cell);
+  return true;
+}
@@ -0,0 +1,287 @@
+/**
+ * Replay verification.
+ * Re-runs a recorded run through the simulation and recomputes its score
+ * from the scoring rules, so a submitted score can be checked against what
+ * the inputs actually earn.
+ */
+import {
+  STARTING_LIVES,
+  SIMULATION_STEP_MS,
+  ENDLESS_TICKS_PER_MOVE,
+  BASE_WIDTH,
+  INITIAL_OBSTACLE_SPEED,
+  OBSTACLE_PROPERTIES,
+  PLATFORM_PROPERTIES,
+  DIFFICULTY_PRESETS,
+  SLOW_TRAFFIC_SPEED,
+  HOURGLASS_TIME_SCALE,
+  INVINCIBILITY_DURATION,
+  HIT_INVINCIBILITY_DURATION,
+  Difficulty,
+  type GameMode,
+} from './constants';
+import { LEVELS } from './levels';
+import {
+  createSimulation,
+  createEndlessSimulation,
+  stepSimulation,
+  applyMove,
+  drainEvents,
+  type SimulationState,
+  type SimulationStatus,
+} from './simulation';
+import { getEndlessDistance } from './endless';
+import { createBreakdown, tallyEvent, scoreFromBreakdown, type ScoreBreakdown } from './scoring';
+import { getDailyChallenge, createDailyLevel } from './daily';
+import { getMoveDirection, type Replay, type ReplayMove } from './replay';
+
+// Endless runs have no time limit, but traffic wraps round the world, so a
+// player standing still in it is hit at least once a lap of the slowest
+// obstacle, and one riding a platform drifts off the edge within a lap of
+// the slowest platform. That's the easiest difficulty with slow traffic and
+// the hourglass on, plus the longest invincibility to sit out first.
+const ENDLESS_TICKS_PER_LIFE = (() => {
+  const movers = [...Object.values(OBSTACLE_PROPERTIES), ...Object.values(PLATFORM_PROPERTIES)]
+    .filter(({ speedMultiplier }) => speedMultiplier > 0);
+  const presets = Object.values(DIFFICULTY_PRESETS);
+
+  const slowest = INITIAL_OBSTACLE_SPEED
+    * Math.min(...movers.map(({ speedMultiplier }) => speedMultiplier))
+    * Math.min(...presets.map(({ obstacleSpeed }) => obstacleSpeed))
+    * SLOW_TRAFFIC_SPEED
+    * HOURGLASS_TIME_SCALE;
+  const lap = (BASE_WIDTH + Math.max(...movers.map(({ width }) => width))) / slowest;
+  const invincibility = Math.max(INVINCIBILITY_DURATION, HIT_INVINCIBILITY_DURATION)
+    * Math.max(...presets.map(({ invincibility }) => invincibility));
+
+  return Math.ceil(lap + invincibility / SIMULATION_STEP_MS);
+})();
+
+export type ReplayVerification =
+  | {
+      valid: true;
+      mode: GameMode;
+      difficulty: Difficulty;
+      slowTraffic: boolean; // Played with the slow traffic assist
+      score: number;
+      level: number; // Last level played, or rows travelled in endless mode
+      status: SimulationStatus; // How the last level ended
+      breakdown: ScoreBreakdown;
+    }
+  | { valid: false; reason: string };
+
+/**
+ * Re-simulate every level of a replay. A replay is rejected if its levels
+ * aren't played in order, a move is refused by the simulation (which never
+ * happens for a genuine recording), or it continues past a lost level.
+ */
+export function verifyReplay(replay: Replay): ReplayVerification {
+  if (replay.mode === 'endless') {
+    return verifyEndlessReplay(replay);
+  }
+  if (replay.mode === 'daily') {
+    return verifyDailyReplay(replay);
+  }
+
+  const breakdown: ScoreBreakdown = createBreakdown();
+  let score = 0;
+  let status: SimulationStatus = 'playing';
+
+  for (let i = 0; i < replay.levels.length; i++) {
+    const { level, moves } = replay.levels[i];
+
+    if (level !== i + 1) {
+      return { valid: false, reason: `Expected level ${i + 1} but the replay has level ${level}` };
+    }
+    if (!LEVELS[level]) {
+      return { valid: false, reason: `Level ${level} does not exist` };
+    }
+    if (i > 0 && status !== 'complete') {
+      return { valid: false, reason: `Level ${level} follows a level that was not completed` };
+    }
+
+    const sim = createSimulation({
+      level,
+      seed: replay.seed,
+      score,
+      difficulty: replay.difficulty,
+      slowTraffic: replay.slowTraffic,
+      moveBufferWindow: replay.moveBufferWindow,
+    });
+
+    // The time limit guarantees every level ends
+    const error = playMoves(sim, `Level ${level}`, moves, Infinity);
+    if (error) {
+      return { valid: false, reason: error };
+    }
+
+    tallyEvents(sim, breakdown);
+    score = sim.score;
+    status = sim.status;
+  }
+
+  // The tally and the simulation must agree - anything else is a rules bug
+  if (scoreFromBreakdown(breakdown) !== score) {
+    return { valid: false, reason: 'Score breakdown does not match the simulated score' };
+  }
+
+  return {
+    valid: true,
+    mode: 'story',
+    difficulty: replay.difficulty,
+    slowTraffic: replay.slowTraffic,
+    score,
+    level: replay.levels.length,
+    status,
+    breakdown,
+  };
+}
+
+/**
+ * Re-simulate an endless run. It must be a single run that ends with the
+ * player out of lives.
+ */
+function verifyEndlessReplay(replay: Replay): ReplayVerification {
+  if (replay.levels.length !== 1 || replay.levels[0].level !== 1) {
+    return { valid: false, reason: 'An endless replay must hold a single run' };
+  }
+
+  const { moves } = replay.levels[0];
+  const breakdown: ScoreBreakdown = createBreakdown();
+  const sim = createEndlessSimulation({
+    seed: replay.seed,
+    lives: STARTING_LIVES,
+    difficulty: replay.difficulty,
+    slowTraffic: replay.slowTraffic,
+    moveBufferWindow: replay.moveBufferWindow,
+  });
+
+  // Bounds the work a forged recording can ask for by the moves it holds
+  const lastTick = moves.length > 0 ? moves[moves.length - 1][0] : 0;
+  if (lastTick > moves.length * ENDLESS_TICKS_PER_MOVE) {
+    return { valid: false, reason: 'Endless run holds too few moves for its length' };
+  }
+
+  const error = playMoves(sim, 'Endless run', moves, lastTick);
+  if (error) {
+    return { valid: false, reason: error };
+  }
+
+  // Out of moves, the player stands still until the remaining lives run out
+  let deadline = sim.tick + ENDLESS_TICKS_PER_LIFE;
+  let lives = sim.lives;
+  while (sim.status === 'playing' && sim.tick <= deadline) {
+    stepSimulation(sim);
+    if (sim.lives < lives) {
+      lives = sim.lives;
+      deadline = sim.tick + ENDLESS_TICKS_PER_LIFE;
+    }
+  }
+  if (sim.status === 'playing') {
+    return { valid: false, reason: 'Endless run does not end' };
+  }
+
+  tallyEvents(sim, breakdown);
+
+  if (scoreFromBreakdown(breakdown) !== sim.score) {
+    return { valid: false, reason: 'Score breakdown does not match the simulated score' };
+  }
+
+  return {
+    valid: true,
+    mode: 'endless',
+    difficulty: replay.difficulty,
+    slowTraffic: replay.slowTraffic,
+    score: sim.score,
+    level: getEndlessDistance(sim.endless!),
+    status: sim.status,
+    breakdown,
+  };
+}
+
+/**
+ * Re-simulate a daily bounty run on the level generated for its day
+ */
+function verifyDailyReplay(replay: Replay): ReplayVerification {
+  if (replay.levels.length !== 1 || replay.levels[0].level !== 1) {
+    return { valid: false, reason: 'A daily replay must hold a single level' };
+  }
+
+  const challenge = getDailyChallenge(replay.day!);
+  if (replay.seed !== challenge.seed) {
+    return { valid: false, reason: `The replay seed is not the daily seed for ${challenge.date}` };
+  }
+
+  const { moves } = replay.levels[0];
+  const breakdown: ScoreBreakdown = createBreakdown();
+  const sim = createSimulation({
+    level: 1,
+    seed: challenge.seed,
+    config: createDailyLevel(challenge),
+    difficulty: replay.difficulty,
+    slowTraffic: replay.slowTraffic,
+    moveBufferWindow: replay.moveBufferWindow,
+  });
+
+  // The time limit guarantees the level ends
+  const error = playMoves(sim, 'Daily bounty', moves, Infinity);
+  if (error) {
+    return { valid: false, reason: error };
+  }
+
+  tallyEvents(sim, breakdown);
+
+  if (scoreFromBreakdown(breakdown) !== sim.score) {
+    return { valid: false, reason: 'Score breakdown does not match the simulated score' };
+  }
+
+  return {
+    valid: true,
+    mode: 'daily',
+    difficulty: replay.difficulty,
+    slowTraffic: replay.slowTraffic,
+    score: sim.score,
+    level: 1,
+    status: sim.status,
+    breakdown,
+  };
+}
+
+/**
+ * Feed recorded moves in on their ticks until the simulation ends or
+ * reaches the last tick
+ * @returns Why the moves are invalid, or null if they all played
+ */
+function playMoves(sim: SimulationState, label: string, moves: ReplayMove[], lastTick: number): string | null {
+  let moveIndex = 0;
+
+  while (sim.status === 'playing' && sim.tick <= lastTick) {
+    while (moveIndex < moves.length && moves[moveIndex][0] <= sim.tick) {
+      const [tick] = moves[moveIndex];
+      if (tick < sim.tick) {
+        return `${label} moves are out of order at tick ${tick}`;
+      }
+      if (!applyMove(sim, getMoveDirection(moves[moveIndex]))) {
+        return `${label} move at tick ${tick} is not possible`;
+      }
+      moveIndex++;
+    }
+
+    stepSimulation(sim);
+  }
+
+  if (moveIndex < moves.length) {
+    return `${label} has moves after it ended`;
+  }
+
+  return null;
+}
+
+/**
+ * Count what the simulation awarded points for
+ */
+function tallyEvents(sim: SimulationState, breakdown: ScoreBreakdown) {
+  for (const event of drainEvents(sim)) {
+    tallyEvent(breakdown, event);
+  }
+}
@@ -0,0 +1,7 @@
+// Generated by scripts/generate-level-index.ts from the level-N.json files
+// in this folder - don't edit it, add or remove a level file instead.
+import level1 from './level-1.json';
+import level2 from './level-2.json';
+import level3 from './level-3.json';
+
+export const LEVEL_FILES: unknown[] = [level1, level2, level3];
@@ -1,6 +1,8 @@
 import { pgTable, text, serial, integer, boolean, timestamp } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import { replaySchema } from "./game/replay";
+import { GAME_MODES, Difficulty } from "./game/constants";
 
 export const users = pgTable("users", {
   id: serial("id").primaryKey(),
@@ -12,7 +14,11 @@ export const highScores = pgTable("high_scores", {
   id: serial("id").primaryKey(),
   playerName: text("player_name").notNull(),
   score: integer("score").notNull(),
-  level: integer("level").notNull(),
+  level: integer("level").notNull(), // Level reached, or rows travelled in endless mode
+  mode: text("mode").notNull().default("story"), // Each game mode has its own leaderboard
+  difficulty: text("difficulty").notNull().default("gunslinger"), // Each difficulty preset ranks separately
+  day: text("day"), // UTC day (YYYY-MM-DD) of a daily bounty score - each day is its own leaderboard
+  verified: boolean("verified").notNull().default(false), // Score was reproduced from a replay
   date: timestamp("date").defaultNow().notNull()
 });
 
@@ -24,11 +30,29 @@ export const insertUserSchema = createInsertSchema(users).pick({
 export const insertHighScoreSchema = createInsertSchema(highScores).pick({
   playerName: true,
   score: true,
-  level: true
+  level: true,
+  mode: true,
+  difficulty: true
+}).extend({
+  mode: z.enum(GAME_MODES).default("story"),
+  difficulty: z.nativeEnum(Difficulty).default(Difficulty.GUNSLINGER),
+});
+
+// Leaderboard submissions must carry the replay that earned the score
+export const submitHighScoreSchema = insertHighScoreSchema.extend({
+  replay: replaySchema,
+  attempt: z.string().optional(), // Daily bounty token from POST /api/daily/attempts
+});
+
+// A player claims their one ranked daily bounty attempt before riding it
+export const startDailyAttemptSchema = z.object({
+  playerName: z.string().trim().min(1).max(5),
 });
 
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type User = typeof users.$inferSelect;
 
 export type InsertHighScore = z.infer<typeof insertHighScoreSchema>;
+export type SubmitHighScore = z.infer<typeof submitHighScoreSchema>;
+export type StartDailyAttempt = z.infer<typeof startDailyAttemptSchema>;
 export type HighScore = typeof highScores.$inferSelect;